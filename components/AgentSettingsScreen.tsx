@@ -0,0 +1,608 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView,
+  Platform,
+  Share,
+  Alert
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { getSettings, updateSettings } from '../services/settingsService';
+import { getCacheStats } from '../services/aiService';
+import { getExamples, deleteExample, exportExamples } from '../services/exampleService';
+import CacheScreen from './CacheScreen';
+import { saveTextToFile } from '../utils/documentUtils';
+import { generateExplanation } from '../utils/nlpProcessor';
+import { LabeledExample } from '../utils/intentExamples';
+import { DEFAULT_PROVIDER_URLS, LLMConfig, LLMProviderId } from '../utils/llmProviders';
+import {
+  SEARCH_ENGINES,
+  SearchEngineId,
+  SearchSettings,
+  findSiteSearch,
+  getSearxngTemplate,
+  isValidSearchTemplate
+} from '../utils/searchEngines';
+import { SiteAlias, findSiteAlias, resolveSite } from '../utils/siteResolver';
+
+interface AgentSettingsScreenProps {
+  theme: 'light' | 'dark';
+  onClose: () => void;
+}
+
+const PROVIDER_OPTIONS: { id: LLMProviderId; label: string; description: string }[] = [
+  { id: 'regex', label: 'Built-in', description: 'Offline pattern matcher, no server needed' },
+  { id: 'openai', label: 'OpenAI-compatible', description: 'Any /chat/completions endpoint' },
+  { id: 'ollama', label: 'Ollama', description: 'Local /api/chat endpoint' },
+];
+
+export default function AgentSettingsScreen({ theme, onClose }: AgentSettingsScreenProps) {
+  const [llm, setLlm] = useState<LLMConfig>(getSettings().llm);
+  const [timeoutText, setTimeoutText] = useState(String(getSettings().llm.timeoutMs));
+  const [maxStepsText, setMaxStepsText] = useState(String(getSettings().maxAgentSteps));
+  const [waitTimeoutText, setWaitTimeoutText] = useState(String(getSettings().waitTimeoutMs));
+  const [search, setSearch] = useState<SearchSettings>(getSettings().search);
+  const [siteName, setSiteName] = useState('');
+  const [siteTemplate, setSiteTemplate] = useState('');
+  const [siteError, setSiteError] = useState<string | null>(null);
+  const [siteAliases, setSiteAliases] = useState<SiteAlias[]>(getSettings().siteAliases);
+  const [aliasName, setAliasName] = useState('');
+  const [aliasUrl, setAliasUrl] = useState('');
+  const [aliasError, setAliasError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [cacheStats, setCacheStats] = useState(getCacheStats());
+  const [showCacheScreen, setShowCacheScreen] = useState(false);
+  const cacheLookups = cacheStats.hits + cacheStats.misses;
+  const [examples, setExamples] = useState<LabeledExample[]>(getExamples());
+
+  const isDark = theme === 'dark';
+  const backgroundColor = isDark ? '#1a1a2e' : '#f0f8ff';
+  const textColor = isDark ? '#fff' : '#333';
+  const secondaryTextColor = isDark ? '#aaa' : '#666';
+  const cardBgColor = isDark ? '#2d2d42' : '#fff';
+  const borderColor = isDark ? '#3d3d5c' : '#ddd';
+  const accentColor = isDark ? '#6a6aff' : '#4040ff';
+
+  const updateLlm = (changes: Partial<LLMConfig>) => {
+    setLlm(prev => ({ ...prev, ...changes }));
+    setSaved(false);
+  };
+
+  const selectProvider = (provider: LLMProviderId) => {
+    // Swap in the new provider's default URL unless the user entered their own
+    const isDefaultUrl = !llm.baseUrl || Object.values(DEFAULT_PROVIDER_URLS).includes(llm.baseUrl);
+    updateLlm({
+      provider,
+      baseUrl: isDefaultUrl ? DEFAULT_PROVIDER_URLS[provider] : llm.baseUrl,
+    });
+  };
+
+  const updateSearch = (changes: Partial<SearchSettings>) => {
+    setSearch(prev => ({ ...prev, ...changes }));
+    setSaved(false);
+  };
+
+  const addSiteSearch = () => {
+    const name = siteName.trim();
+    const template = siteTemplate.trim();
+    if (!name) {
+      setSiteError('Give the site a name, e.g. "MDN"');
+      return;
+    }
+    if (findSiteSearch(search.sites, name)) {
+      setSiteError(`There is already a site search named "${name}"`);
+      return;
+    }
+    if (!isValidSearchTemplate(template)) {
+      setSiteError('The URL must start with http:// or https:// and contain {query}');
+      return;
+    }
+
+    updateSearch({ sites: [...search.sites, { name, template }] });
+    setSiteName('');
+    setSiteTemplate('');
+    setSiteError(null);
+  };
+
+  const removeSiteSearch = (name: string) => {
+    updateSearch({ sites: search.sites.filter(site => site.name !== name) });
+  };
+
+  const addSiteAlias = () => {
+    const name = aliasName.trim();
+    if (!name) {
+      setAliasError('Give the shortcut a name, e.g. "wiki"');
+      return;
+    }
+    if (findSiteAlias(siteAliases, name)) {
+      setAliasError(`There is already a shortcut named "${name}"`);
+      return;
+    }
+    const resolved = resolveSite(aliasUrl);
+    if (resolved.kind !== 'url') {
+      setAliasError('Enter an address such as wiki.example.org or localhost:3000');
+      return;
+    }
+
+    setSiteAliases(prev => [...prev, { name, url: resolved.url }]);
+    setAliasName('');
+    setAliasUrl('');
+    setAliasError(null);
+    setSaved(false);
+  };
+
+  const removeSiteAlias = (name: string) => {
+    setSiteAliases(prev => prev.filter(alias => alias.name !== name));
+    setSaved(false);
+  };
+
+  const removeExample = async (id: string) => {
+    await deleteExample(id);
+    setExamples(getExamples());
+  };
+
+  const exportDataset = async () => {
+    if (examples.length === 0) {
+      Alert.alert('No Corrections', 'There are no corrections to export.');
+      return;
+    }
+
+    const text = exportExamples();
+    const exportName = 'labeled-commands.json';
+
+    try {
+      if (Platform.OS === 'web') {
+        await navigator.clipboard.writeText(text);
+        Alert.alert('Success', 'Dataset copied to clipboard!');
+      } else {
+        const fileUri = await saveTextToFile(text, exportName);
+        await Share.share({
+          title: exportName,
+          message: text,
+          url: Platform.OS === 'ios' ? fileUri : `file://${fileUri}`,
+        });
+      }
+    } catch (err) {
+      console.error('Error sharing dataset:', err);
+      Alert.alert('Error', 'Failed to share the dataset.');
+    }
+  };
+
+  const saveSettings = async () => {
+    const timeoutMs = parseInt(timeoutText, 10);
+    const nextLlm = {
+      ...llm,
+      timeoutMs: Number.isNaN(timeoutMs) || timeoutMs <= 0 ? getSettings().llm.timeoutMs : timeoutMs,
+    };
+
+    const maxSteps = parseInt(maxStepsText, 10);
+    const maxAgentSteps = Number.isNaN(maxSteps) || maxSteps <= 0 ? getSettings().maxAgentSteps : maxSteps;
+
+    const waitTimeout = parseInt(waitTimeoutText, 10);
+    const waitTimeoutMs = Number.isNaN(waitTimeout) || waitTimeout <= 0 ? getSettings().waitTimeoutMs : waitTimeout;
+
+    await updateSettings({ llm: nextLlm, maxAgentSteps, waitTimeoutMs, search, siteAliases });
+    setLlm(nextLlm);
+    setTimeoutText(String(nextLlm.timeoutMs));
+    setMaxStepsText(String(maxAgentSteps));
+    setWaitTimeoutText(String(waitTimeoutMs));
+    setSaved(true);
+  };
+
+  const renderField = (
+    label: string,
+    value: string,
+    onChange: (text: string) => void,
+    secure = false,
+    placeholder?: string
+  ) => (
+    <View style={styles.field}>
+      <Text style={[styles.fieldLabel, { color: secondaryTextColor }]}>{label}</Text>
+      <TextInput
+        style={[styles.input, { backgroundColor, color: textColor, borderColor }]}
+        value={value}
+        onChangeText={onChange}
+        autoCapitalize="none"
+        autoCorrect={false}
+        secureTextEntry={secure}
+        placeholder={placeholder}
+        placeholderTextColor={secondaryTextColor}
+      />
+    </View>
+  );
+
+  const selectEngine = (engine: SearchEngineId) => updateSearch({ engine });
+
+  if (showCacheScreen) {
+    return (
+      <CacheScreen
+        theme={theme}
+        onClose={() => {
+          setShowCacheScreen(false);
+          setCacheStats(getCacheStats());
+        }}
+      />
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor }]}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+          <Ionicons name="arrow-back" size={24} color={textColor} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: textColor }]}>Agent Settings</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        <View style={[styles.card, { backgroundColor: cardBgColor, borderColor }]}>
+          <Text style={[styles.cardTitle, { color: textColor }]}>Command Parser</Text>
+
+          {PROVIDER_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option.id}
+              style={[
+                styles.option,
+                { borderColor: llm.provider === option.id ? accentColor : borderColor }
+              ]}
+              onPress={() => selectProvider(option.id)}
+            >
+              <Ionicons
+                name={llm.provider === option.id ? 'radio-button-on' : 'radio-button-off'}
+                size={18}
+                color={accentColor}
+              />
+              <View style={styles.optionText}>
+                <Text style={[styles.optionLabel, { color: textColor }]}>{option.label}</Text>
+                <Text style={[styles.optionDescription, { color: secondaryTextColor }]}>
+                  {option.description}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          ))}
+
+          {llm.provider !== 'regex' && (
+            <>
+              {renderField('Base URL', llm.baseUrl, text => updateLlm({ baseUrl: text }))}
+              {renderField('Model', llm.model, text => updateLlm({ model: text }))}
+              {llm.provider === 'openai' &&
+                renderField('API key', llm.apiKey || '', text => updateLlm({ apiKey: text }), true)}
+              {renderField('Timeout (ms)', timeoutText, text => {
+                setTimeoutText(text);
+                setSaved(false);
+              })}
+              <Text style={[styles.hint, { color: secondaryTextColor }]}>
+                If the provider times out or returns invalid output, the built-in parser is used instead.
+              </Text>
+            </>
+          )}
+        </View>
+
+        <View style={[styles.card, { backgroundColor: cardBgColor, borderColor }]}>
+          <Text style={[styles.cardTitle, { color: textColor }]}>Goal Mode</Text>
+          {renderField('Maximum steps per goal', maxStepsText, text => {
+            setMaxStepsText(text);
+            setSaved(false);
+          })}
+          <Text style={[styles.hint, { color: secondaryTextColor }]}>
+            Goals are planned by the selected provider. The built-in parser can only follow goals that list each step.
+          </Text>
+        </View>
+
+        <View style={[styles.card, { backgroundColor: cardBgColor, borderColor }]}>
+          <Text style={[styles.cardTitle, { color: textColor }]}>Waits and Checks</Text>
+          {renderField('Default wait timeout (ms)', waitTimeoutText, text => {
+            setWaitTimeoutText(text);
+            setSaved(false);
+          })}
+          <Text style={[styles.hint, { color: secondaryTextColor }]}>
+            Used by "wait until ..." commands that do not give their own time, e.g. "wait until Done appears within 30 seconds".
+          </Text>
+        </View>
+
+        <View style={[styles.card, { backgroundColor: cardBgColor, borderColor }]}>
+          <Text style={[styles.cardTitle, { color: textColor }]}>Search</Text>
+
+          {SEARCH_ENGINES.map(engine => (
+            <TouchableOpacity
+              key={engine.id}
+              style={[
+                styles.option,
+                { borderColor: search.engine === engine.id ? accentColor : borderColor }
+              ]}
+              onPress={() => selectEngine(engine.id)}
+            >
+              <Ionicons
+                name={search.engine === engine.id ? 'radio-button-on' : 'radio-button-off'}
+                size={18}
+                color={accentColor}
+              />
+              <View style={styles.optionText}>
+                <Text style={[styles.optionLabel, { color: textColor }]}>{engine.label}</Text>
+                <Text style={[styles.optionDescription, { color: secondaryTextColor }]} numberOfLines={1}>
+                  {engine.template || 'Your own instance'}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          ))}
+
+          {search.engine === 'searxng' && (
+            <>
+              {renderField('SearXNG URL', search.searxngUrl, text => updateSearch({ searxngUrl: text }), false,
+                'https://searx.example.org')}
+              {!!search.searxngUrl && !getSearxngTemplate(search.searxngUrl) && (
+                <Text style={styles.errorText}>Enter an http:// or https:// URL</Text>
+              )}
+            </>
+          )}
+
+          <Text style={[styles.subTitle, { color: textColor }]}>Site searches</Text>
+          {search.sites.map(site => (
+            <View key={site.name} style={[styles.siteRow, { borderColor }]}>
+              <View style={styles.optionText}>
+                <Text style={[styles.optionLabel, { color: textColor }]}>{site.name}</Text>
+                <Text style={[styles.optionDescription, { color: secondaryTextColor }]} numberOfLines={1}>
+                  {site.template}
+                </Text>
+              </View>
+              <TouchableOpacity onPress={() => removeSiteSearch(site.name)} style={styles.removeButton}>
+                <Ionicons name="trash-outline" size={18} color="#ff4d4d" />
+              </TouchableOpacity>
+            </View>
+          ))}
+
+          {renderField('Name', siteName, text => {
+            setSiteName(text);
+            setSiteError(null);
+          }, false, 'MDN')}
+          {renderField('Search URL', siteTemplate, text => {
+            setSiteTemplate(text);
+            setSiteError(null);
+          }, false, 'https://developer.mozilla.org/search?q={query}')}
+          {siteError && <Text style={styles.errorText}>{siteError}</Text>}
+          <TouchableOpacity style={[styles.addButton, { borderColor: accentColor }]} onPress={addSiteSearch}>
+            <Ionicons name="add" size={18} color={accentColor} />
+            <Text style={[styles.addButtonText, { color: accentColor }]}>Add Site Search</Text>
+          </TouchableOpacity>
+          <Text style={[styles.hint, { color: secondaryTextColor }]}>
+            Say "search [site] for [query]", e.g. "search wikipedia for octopus". Other searches use the engine above.
+          </Text>
+        </View>
+
+        <View style={[styles.card, { backgroundColor: cardBgColor, borderColor }]}>
+          <Text style={[styles.cardTitle, { color: textColor }]}>Site Shortcuts</Text>
+
+          {siteAliases.length === 0 && (
+            <Text style={[styles.optionDescription, { color: secondaryTextColor }]}>No shortcuts yet</Text>
+          )}
+          {siteAliases.map(alias => (
+            <View key={alias.name} style={[styles.siteRow, { borderColor }]}>
+              <View style={styles.optionText}>
+                <Text style={[styles.optionLabel, { color: textColor }]}>{alias.name}</Text>
+                <Text style={[styles.optionDescription, { color: secondaryTextColor }]} numberOfLines={1}>
+                  {alias.url}
+                </Text>
+              </View>
+              <TouchableOpacity onPress={() => removeSiteAlias(alias.name)} style={styles.removeButton}>
+                <Ionicons name="trash-outline" size={18} color="#ff4d4d" />
+              </TouchableOpacity>
+            </View>
+          ))}
+
+          {renderField('Name', aliasName, text => {
+            setAliasName(text);
+            setAliasError(null);
+          }, false, 'wiki')}
+          {renderField('Address', aliasUrl, text => {
+            setAliasUrl(text);
+            setAliasError(null);
+          }, false, 'https://wiki.example.org')}
+          {aliasError && <Text style={styles.errorText}>{aliasError}</Text>}
+          <TouchableOpacity style={[styles.addButton, { borderColor: accentColor }]} onPress={addSiteAlias}>
+            <Ionicons name="add" size={18} color={accentColor} />
+            <Text style={[styles.addButtonText, { color: accentColor }]}>Add Shortcut</Text>
+          </TouchableOpacity>
+          <Text style={[styles.hint, { color: secondaryTextColor }]}>
+            "go to wiki" opens the shortcut's address. Shortcuts win over built-in names such as Twitter.
+          </Text>
+        </View>
+
+        <View style={[styles.card, { backgroundColor: cardBgColor, borderColor }]}>
+          <Text style={[styles.cardTitle, { color: textColor }]}>Command Cache</Text>
+          <Text style={[styles.statLine, { color: textColor }]}>
+            {cacheStats.entries} cached command(s)
+          </Text>
+          <Text style={[styles.statLine, { color: textColor }]}>
+            {cacheStats.hits} hit(s) ({cacheStats.templateHits} from templates), {cacheStats.misses} miss(es)
+            {cacheLookups > 0 ? `, ${Math.round((cacheStats.hits / cacheLookups) * 100)}% hit rate` : ''}
+          </Text>
+          <Text style={[styles.statLine, { color: textColor }]}>
+            {cacheStats.evictions} evicted to make room
+          </Text>
+          <Text style={[styles.hint, { color: secondaryTextColor }]}>
+            Parsed commands are reused so repeats skip the model. "search for cats" also answers "search for dogs";
+            "go back" and commands that were not understood are never cached.
+          </Text>
+          <TouchableOpacity
+            style={[styles.addButton, { borderColor: accentColor }]}
+            onPress={() => setShowCacheScreen(true)}
+          >
+            <Ionicons name="list-outline" size={18} color={accentColor} />
+            <Text style={[styles.addButtonText, { color: accentColor }]}>Manage Cached Commands</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={[styles.card, { backgroundColor: cardBgColor, borderColor }]}>
+          <Text style={[styles.cardTitle, { color: textColor }]}>Corrections</Text>
+          <Text style={[styles.statLine, { color: textColor }]}>
+            {examples.length} correction(s)
+          </Text>
+          {examples.map(example => (
+            <View key={example.id} style={styles.siteRow}>
+              <View style={styles.optionText}>
+                <Text style={[styles.optionLabel, { color: textColor }]}>{example.input}</Text>
+                <Text style={[styles.optionDescription, { color: secondaryTextColor }]} numberOfLines={1}>
+                  {generateExplanation(example.intent)}
+                </Text>
+              </View>
+              <TouchableOpacity onPress={() => removeExample(example.id)} style={styles.removeButton}>
+                <Ionicons name="trash-outline" size={18} color="#ff4d4d" />
+              </TouchableOpacity>
+            </View>
+          ))}
+          <Text style={[styles.hint, { color: secondaryTextColor }]}>
+            Tap "that's wrong" under a command to teach me what it meant. Corrections are checked before the
+            model, and also cover similar commands.
+          </Text>
+          <TouchableOpacity
+            style={[styles.addButton, { borderColor: accentColor }]}
+            onPress={exportDataset}
+          >
+            <Ionicons name="share-outline" size={18} color={accentColor} />
+            <Text style={[styles.addButtonText, { color: accentColor }]}>Export as Dataset</Text>
+          </TouchableOpacity>
+        </View>
+
+        <TouchableOpacity
+          style={[styles.saveButton, { backgroundColor: accentColor }]}
+          onPress={saveSettings}
+        >
+          <Text style={styles.saveButtonText}>{saved ? 'Saved' : 'Save Settings'}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ddd',
+  },
+  closeButton: {
+    padding: 5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 24,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 15,
+  },
+  card: {
+    borderRadius: 10,
+    borderWidth: 1,
+    padding: 12,
+    marginBottom: 15,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 8,
+  },
+  optionText: {
+    marginLeft: 10,
+    flex: 1,
+  },
+  optionLabel: {
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  optionDescription: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  field: {
+    marginTop: 10,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  input: {
+    height: 40,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+  },
+  hint: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    marginTop: 10,
+  },
+  statLine: {
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  subTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  siteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomWidth: 1,
+    paddingVertical: 6,
+  },
+  removeButton: {
+    padding: 6,
+  },
+  errorText: {
+    color: '#ff4d4d',
+    fontSize: 12,
+    marginTop: 6,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingVertical: 8,
+    marginTop: 10,
+  },
+  addButtonText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginLeft: 4,
+  },
+  saveButton: {
+    paddingVertical: 12,
+    borderRadius: 20,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -8,16 +8,28 @@ import {
   SafeAreaView
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import { MacroRun, MacroStepStatus } from '../utils/macros';
 
 interface AgentStatusScreenProps {
   theme: 'light' | 'dark';
   statusUpdates: string[];
+  macroRun?: MacroRun | null;
   onClose: () => void;
 }
 
+// Icon and colour for each macro step status
+const STEP_STATUS_ICONS: Record<MacroStepStatus, { name: keyof typeof Ionicons.glyphMap; color: string }> = {
+  pending: { name: 'ellipse-outline', color: '#999' },
+  running: { name: 'sync', color: '#4040ff' },
+  done: { name: 'checkmark-circle', color: '#2e9e5b' },
+  failed: { name: 'close-circle', color: '#ff4d4d' },
+  skipped: { name: 'remove-circle-outline', color: '#999' },
+};
+
 export default function AgentStatusScreen({ 
   theme, 
   statusUpdates, 
+  macroRun,
   onClose 
 }: AgentStatusScreenProps) {
   const scrollViewRef = useRef<ScrollView>(null);
@@ -67,6 +79,32 @@ export default function AgentStatusScreen({
         style={styles.scrollView}
         contentContainerStyle={styles.scrollContent}
       >
+        {macroRun && (
+          <View style={[styles.actionCard, { backgroundColor: cardBgColor, borderColor }]}>
+            <View style={styles.actionHeader}>
+              <Ionicons name="albums-outline" size={18} color={isDark ? '#6a6aff' : '#4040ff'} />
+              <Text style={[styles.actionTitle, { color: textColor }]}>
+                Macro: {macroRun.name}
+              </Text>
+            </View>
+            <View style={styles.timeline}>
+              {macroRun.steps.map((step, stepIndex) => (
+                <View key={stepIndex} style={styles.timelineContent}>
+                  <Ionicons
+                    name={STEP_STATUS_ICONS[step.status].name}
+                    size={16}
+                    color={STEP_STATUS_ICONS[step.status].color}
+                    style={styles.stepIcon}
+                  />
+                  <Text style={[styles.updateText, { color: textColor }]}>
+                    {stepIndex + 1}. {step.explanation}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+        
         {Object.keys(groupedUpdates).length === 0 ? (
           <View style={[styles.emptyState, { borderColor }]}>
             <Ionicons name="information-circle-outline" size={40} color={isDark ? '#6a6aff' : '#4040ff'} />
@@ -103,8 +141,9 @@ export default function AgentStatusScreen({
                     ? update.replace(/\[[\d:]+\]\s/, '') 
                     : update;
                   
-                  // Determine if this is an error message
-                  const isError = message.toLowerCase().includes('error');
+                  // Determine if this is an error or a check result
+                  const isError = message.toLowerCase().includes('error') || message.startsWith('FAIL:');
+                  const isPass = message.startsWith('PASS:');
                   
                   return (
                     <View key={updateIndex} style={styles.timelineItem}>
@@ -118,7 +157,7 @@ export default function AgentStatusScreen({
                             { 
                               backgroundColor: isError 
                                 ? '#ff4d4d' 
-                                : isDark ? '#6a6aff' : '#4040ff' 
+                                : isPass ? '#2e9e5b' : isDark ? '#6a6aff' : '#4040ff' 
                             }
                           ]} 
                         />
@@ -133,7 +172,7 @@ export default function AgentStatusScreen({
                             { 
                               color: isError 
                                 ? '#ff4d4d' 
-                                : textColor 
+                                : isPass ? '#2e9e5b' : textColor 
                             }
                           ]}
                         >
@@ -250,6 +289,10 @@ const styles = StyleSheet.create({
     marginRight: 8,
     marginTop: 2,
   },
+  stepIcon: {
+    marginRight: 8,
+    marginTop: 1,
+  },
   updateText: {
     fontSize: 14,
     flex: 1,
@@ -0,0 +1,318 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView,
+  Platform,
+  Share,
+  Alert
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { getBookmarks, updateBookmark, deleteBookmark, importBookmarks } from '../services/bookmarkService';
+import { saveTextToFile } from '../utils/documentUtils';
+import { Bookmark, bookmarksToJson, parseBookmarksJson } from '../utils/bookmarks';
+import { resolveSite } from '../utils/siteResolver';
+
+interface BookmarkScreenProps {
+  theme: 'light' | 'dark';
+  onClose: () => void;
+  onOpen: (bookmark: Bookmark) => void;
+}
+
+export default function BookmarkScreen({ theme, onClose, onOpen }: BookmarkScreenProps) {
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>(getBookmarks());
+  const [editing, setEditing] = useState<Bookmark | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isDark = theme === 'dark';
+  const backgroundColor = isDark ? '#1a1a2e' : '#f0f8ff';
+  const textColor = isDark ? '#fff' : '#333';
+  const secondaryTextColor = isDark ? '#aaa' : '#666';
+  const cardBgColor = isDark ? '#2d2d42' : '#fff';
+  const borderColor = isDark ? '#3d3d5c' : '#ddd';
+  const accentColor = isDark ? '#6a6aff' : '#4040ff';
+
+  const closeEditor = () => {
+    setEditing(null);
+    setError(null);
+    setBookmarks(getBookmarks());
+  };
+
+  const saveEdit = async () => {
+    if (!editing) return;
+    const resolved = resolveSite(editing.url);
+    if (resolved.kind !== 'url') {
+      setError('Enter an address such as example.com/board');
+      return;
+    }
+    try {
+      await updateBookmark(editing.id, { name: editing.name, url: resolved.url });
+      closeEditor();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+    }
+  };
+
+  const removeBookmark = async (bookmark: Bookmark) => {
+    await deleteBookmark(bookmark.id);
+    closeEditor();
+  };
+
+  const importFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/json', 'text/plain'],
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled) {
+        return;
+      }
+
+      const asset = result.assets[0];
+      const text = Platform.OS === 'web'
+        ? await (await fetch(asset.uri)).text()
+        : await FileSystem.readAsStringAsync(asset.uri);
+
+      const count = await importBookmarks(parseBookmarksJson(text));
+      closeEditor();
+      Alert.alert('Success', `Imported ${count} bookmark(s).`);
+    } catch (err) {
+      console.error('Error importing bookmarks:', err);
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to import the bookmarks file.');
+    }
+  };
+
+  const exportFile = async () => {
+    if (bookmarks.length === 0) {
+      Alert.alert('No Bookmarks', 'There are no bookmarks to export.');
+      return;
+    }
+
+    const text = bookmarksToJson(bookmarks);
+    const exportName = 'bookmarks.json';
+
+    try {
+      if (Platform.OS === 'web') {
+        await navigator.clipboard.writeText(text);
+        Alert.alert('Success', 'Bookmarks copied to clipboard!');
+      } else {
+        const fileUri = await saveTextToFile(text, exportName);
+        await Share.share({
+          title: exportName,
+          message: text,
+          url: Platform.OS === 'ios' ? fileUri : `file://${fileUri}`,
+        });
+      }
+    } catch (err) {
+      console.error('Error sharing bookmarks:', err);
+      Alert.alert('Error', 'Failed to share the bookmarks.');
+    }
+  };
+
+  const renderButton = (icon: keyof typeof Ionicons.glyphMap, label: string, onPress: () => void) => (
+    <TouchableOpacity style={[styles.button, { backgroundColor: accentColor }]} onPress={onPress}>
+      <Ionicons name={icon} size={16} color="#fff" />
+      <Text style={styles.buttonText}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderEditor = (bookmark: Bookmark) => (
+    <View key={bookmark.id} style={[styles.card, { backgroundColor: cardBgColor, borderColor: accentColor }]}>
+      <Text style={[styles.fieldLabel, { color: secondaryTextColor }]}>Name</Text>
+      <TextInput
+        style={[styles.input, { backgroundColor, color: textColor, borderColor }]}
+        value={bookmark.name}
+        onChangeText={name => setEditing({ ...bookmark, name })}
+        autoCorrect={false}
+      />
+      <Text style={[styles.fieldLabel, styles.field, { color: secondaryTextColor }]}>Address</Text>
+      <TextInput
+        style={[styles.input, { backgroundColor, color: textColor, borderColor }]}
+        value={bookmark.url}
+        onChangeText={url => setEditing({ ...bookmark, url })}
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+      {error && <Text style={styles.errorText}>{error}</Text>}
+      <View style={[styles.buttonRow, styles.field]}>
+        {renderButton('save-outline', 'Save', saveEdit)}
+        <TouchableOpacity style={[styles.button, { backgroundColor: '#ff4d4d' }]} onPress={() => removeBookmark(bookmark)}>
+          <Ionicons name="trash-outline" size={16} color="#fff" />
+          <Text style={styles.buttonText}>Delete</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor }]}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={editing ? closeEditor : onClose} style={styles.closeButton}>
+          <Ionicons name="arrow-back" size={24} color={textColor} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: textColor }]}>Bookmarks</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        {bookmarks.length === 0 ? (
+          <View style={[styles.emptyState, { borderColor }]}>
+            <Ionicons name="bookmark-outline" size={40} color={accentColor} />
+            <Text style={[styles.emptyText, { color: textColor }]}>No bookmarks yet.</Text>
+            <Text style={[styles.emptySubtext, { color: secondaryTextColor }]}>
+              Say "bookmark this page as [name]", then "open [name]" to come back to it.
+            </Text>
+          </View>
+        ) : (
+          bookmarks.map(bookmark => editing?.id === bookmark.id ? renderEditor(editing) : (
+            <TouchableOpacity
+              key={bookmark.id}
+              style={[styles.card, styles.bookmarkRow, { backgroundColor: cardBgColor, borderColor }]}
+              onPress={() => onOpen(bookmark)}
+            >
+              <View style={styles.bookmarkInfo}>
+                <Text style={[styles.cardTitle, { color: textColor }]}>{bookmark.name}</Text>
+                <Text style={[styles.hint, { color: secondaryTextColor }]} numberOfLines={1}>
+                  {bookmark.url}
+                </Text>
+              </View>
+              <TouchableOpacity
+                onPress={() => {
+                  setEditing({ ...bookmark });
+                  setError(null);
+                }}
+                style={styles.iconButton}
+              >
+                <Ionicons name="create-outline" size={20} color={secondaryTextColor} />
+              </TouchableOpacity>
+            </TouchableOpacity>
+          ))
+        )}
+      </ScrollView>
+
+      <View style={[styles.buttonRow, styles.footer]}>
+        {renderButton('download-outline', 'Import', importFile)}
+        {renderButton('share-outline', 'Export', exportFile)}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ddd',
+  },
+  closeButton: {
+    padding: 5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 24,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 15,
+  },
+  card: {
+    borderRadius: 10,
+    borderWidth: 1,
+    padding: 12,
+    marginBottom: 15,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  bookmarkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  bookmarkInfo: {
+    flex: 1,
+  },
+  iconButton: {
+    padding: 4,
+  },
+  field: {
+    marginTop: 10,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  input: {
+    height: 40,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  errorText: {
+    color: '#ff4d4d',
+    marginTop: 10,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  footer: {
+    padding: 15,
+  },
+  button: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 20,
+    marginHorizontal: 4,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginLeft: 6,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 30,
+    borderWidth: 1,
+    borderRadius: 10,
+    borderStyle: 'dashed',
+    marginVertical: 20,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginTop: 15,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    marginTop: 5,
+    textAlign: 'center',
+  },
+});
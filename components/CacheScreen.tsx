@@ -0,0 +1,455 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView,
+  Platform,
+  Share,
+  Alert
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import {
+  getCacheEntries,
+  deleteCacheEntry,
+  pinCacheEntry,
+  clearCommandCache,
+  exportCache,
+  importCacheEntries
+} from '../services/aiService';
+import { saveTextToFile } from '../utils/documentUtils';
+import { CommandCacheEntry, parseCacheJson } from '../utils/commandCache';
+import { validateCommandIntent } from '../utils/intentSchema';
+import { CommandIntent, generateExplanation } from '../utils/nlpProcessor';
+
+interface CacheScreenProps {
+  theme: 'light' | 'dark';
+  onClose: () => void;
+}
+
+// Intent fields the correction editor shows; other fields are kept as parsed
+const EDIT_FIELDS = ['type', 'action', 'target', 'query', 'url', 'text'] as const;
+type EditField = typeof EDIT_FIELDS[number];
+
+// "5 min ago", "3 h ago"
+const formatAge = (timestamp: number) => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours} h ago` : `${Math.floor(hours / 24)} day(s) ago`;
+};
+
+export default function CacheScreen({ theme, onClose }: CacheScreenProps) {
+  const [entries, setEntries] = useState<CommandCacheEntry[]>(getCacheEntries());
+  const [search, setSearch] = useState('');
+  const [editing, setEditing] = useState<CommandCacheEntry | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  const isDark = theme === 'dark';
+  const backgroundColor = isDark ? '#1a1a2e' : '#f0f8ff';
+  const textColor = isDark ? '#fff' : '#333';
+  const secondaryTextColor = isDark ? '#aaa' : '#666';
+  const cardBgColor = isDark ? '#2d2d42' : '#fff';
+  const borderColor = isDark ? '#3d3d5c' : '#ddd';
+  const accentColor = isDark ? '#6a6aff' : '#4040ff';
+
+  const needle = search.trim().toLowerCase();
+  const visibleEntries = needle
+    ? entries.filter(entry =>
+        entry.input.toLowerCase().includes(needle) ||
+        entry.result.some(step => generateExplanation(step).toLowerCase().includes(needle))
+      )
+    : entries;
+
+  const refresh = () => {
+    setEntries(getCacheEntries());
+    setConfirmClear(false);
+  };
+
+  const closeEditor = () => {
+    setEditing(null);
+    setError(null);
+    refresh();
+  };
+
+  const updateStep = (index: number, field: EditField, value: string) => {
+    if (!editing) return;
+    setEditing({
+      ...editing,
+      result: editing.result.map((step, stepIndex) => {
+        if (stepIndex !== index) return step;
+        const updated: CommandIntent = { ...step, [field]: value };
+        if (field !== 'type' && !value) {
+          delete updated[field];
+        }
+        return updated;
+      }),
+    });
+  };
+
+  const removeStep = (index: number) => {
+    if (!editing) return;
+    setEditing({ ...editing, result: editing.result.filter((_step, stepIndex) => stepIndex !== index) });
+  };
+
+  const addStep = () => {
+    if (!editing) return;
+    setEditing({ ...editing, result: [...editing.result, { type: 'navigation', action: 'navigate', confidence: 1 }] });
+  };
+
+  const saveCorrection = async () => {
+    if (!editing) return;
+    const steps = editing.result.map(step => ({ ...step, type: step.type.trim(), confidence: 1 }));
+    const invalid = steps.findIndex(step => !validateCommandIntent(step));
+    if (invalid >= 0) {
+      setError(`Step ${invalid + 1} is not a valid intent. Check its type, e.g. navigation, search or interaction.`);
+      return;
+    }
+
+    try {
+      await pinCacheEntry(editing.key, steps);
+      closeEditor();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+    }
+  };
+
+  const removeEntry = async (entry: CommandCacheEntry) => {
+    await deleteCacheEntry(entry.key);
+    refresh();
+  };
+
+  const clearAll = async () => {
+    if (!confirmClear) {
+      setConfirmClear(true);
+      return;
+    }
+    await clearCommandCache();
+    refresh();
+  };
+
+  const importFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/json', 'text/plain'],
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled) {
+        return;
+      }
+
+      const asset = result.assets[0];
+      const text = Platform.OS === 'web'
+        ? await (await fetch(asset.uri)).text()
+        : await FileSystem.readAsStringAsync(asset.uri);
+
+      const count = await importCacheEntries(parseCacheJson(text));
+      refresh();
+      Alert.alert('Success', `Imported ${count} cached command(s).`);
+    } catch (err) {
+      console.error('Error importing command cache:', err);
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to import the cache file.');
+    }
+  };
+
+  const exportFile = async () => {
+    if (entries.length === 0) {
+      Alert.alert('Empty Cache', 'There are no cached commands to export.');
+      return;
+    }
+
+    const text = exportCache();
+    const exportName = 'command-cache.json';
+
+    try {
+      if (Platform.OS === 'web') {
+        await navigator.clipboard.writeText(text);
+        Alert.alert('Success', 'Command cache copied to clipboard!');
+      } else {
+        const fileUri = await saveTextToFile(text, exportName);
+        await Share.share({
+          title: exportName,
+          message: text,
+          url: Platform.OS === 'ios' ? fileUri : `file://${fileUri}`,
+        });
+      }
+    } catch (err) {
+      console.error('Error sharing command cache:', err);
+      Alert.alert('Error', 'Failed to share the command cache.');
+    }
+  };
+
+  const renderButton = (icon: keyof typeof Ionicons.glyphMap, label: string, onPress: () => void, color = accentColor) => (
+    <TouchableOpacity style={[styles.button, { backgroundColor: color }]} onPress={onPress}>
+      <Ionicons name={icon} size={16} color="#fff" />
+      <Text style={styles.buttonText}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderEditor = (entry: CommandCacheEntry) => (
+    <>
+      <View style={[styles.card, { backgroundColor: cardBgColor, borderColor }]}>
+        <Text style={[styles.cardTitle, { color: textColor }]}>{entry.input}</Text>
+        <Text style={[styles.hint, { color: secondaryTextColor }]}>
+          {entry.shape
+            ? `Also used for similar commands; {1}, {2}... stand for the words that change.`
+            : 'Used when this exact command is given again.'}
+          {' '}Saving pins the parse so it never expires{entry.shape ? '; a parse that no longer uses the command\'s own words is pinned for this exact command only' : ''}.
+        </Text>
+      </View>
+
+      {entry.result.map((step, index) => (
+        <View key={index} style={[styles.card, { backgroundColor: cardBgColor, borderColor }]}>
+          <View style={styles.stepHeader}>
+            <Text style={[styles.stepNumber, { color: accentColor }]}>Step {index + 1}</Text>
+            <Text style={[styles.stepText, { color: secondaryTextColor }]} numberOfLines={2}>
+              {generateExplanation(step)}
+            </Text>
+            <TouchableOpacity onPress={() => removeStep(index)} style={styles.iconButton}>
+              <Ionicons name="trash-outline" size={16} color="#ff4d4d" />
+            </TouchableOpacity>
+          </View>
+          {EDIT_FIELDS.map(field => (
+            <View key={field} style={styles.fieldRow}>
+              <Text style={[styles.fieldLabel, { color: secondaryTextColor }]}>{field}</Text>
+              <TextInput
+                style={[styles.input, { backgroundColor, color: textColor, borderColor }]}
+                value={step[field] || ''}
+                onChangeText={value => updateStep(index, field, value)}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </View>
+          ))}
+        </View>
+      ))}
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      <View style={styles.buttonRow}>
+        {renderButton('add', 'Add Step', addStep)}
+        {renderButton('checkmark', 'Save & Pin', saveCorrection)}
+      </View>
+    </>
+  );
+
+  const renderEntry = (entry: CommandCacheEntry) => (
+    <View key={entry.key} style={[styles.card, styles.entryRow, { backgroundColor: cardBgColor, borderColor }]}>
+      <TouchableOpacity
+        style={styles.entryInfo}
+        onPress={() => {
+          setEditing({ ...entry, result: entry.result.map(step => ({ ...step })) });
+          setError(null);
+        }}
+      >
+        <Text style={[styles.cardTitle, { color: textColor }]}>{entry.input}</Text>
+        <Text style={[styles.explanation, { color: textColor }]}>
+          {entry.result.map(step => generateExplanation(step)).join(', then ')}
+        </Text>
+        <Text style={[styles.hint, { color: secondaryTextColor }]}>
+          {entry.pinned ? 'Pinned' : `Cached ${formatAge(entry.createdAt)}`}, {entry.hits} hit(s)
+          {entry.shape ? ', template' : ''}
+        </Text>
+      </TouchableOpacity>
+      {entry.pinned && <Ionicons name="pin" size={16} color={accentColor} />}
+      <TouchableOpacity onPress={() => removeEntry(entry)} style={styles.iconButton}>
+        <Ionicons name="trash-outline" size={18} color="#ff4d4d" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor }]}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={editing ? closeEditor : onClose} style={styles.closeButton}>
+          <Ionicons name="arrow-back" size={24} color={textColor} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: textColor }]}>{editing ? 'Correct Parse' : 'Command Cache'}</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      {!editing && (
+        <View style={styles.searchBar}>
+          <TextInput
+            style={[styles.input, { backgroundColor: cardBgColor, color: textColor, borderColor }]}
+            value={search}
+            onChangeText={setSearch}
+            placeholder="Search cached commands"
+            placeholderTextColor={secondaryTextColor}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+        </View>
+      )}
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        {editing ? renderEditor(editing) : visibleEntries.length === 0 ? (
+          <View style={[styles.emptyState, { borderColor }]}>
+            <Ionicons name="file-tray-outline" size={40} color={accentColor} />
+            <Text style={[styles.emptyText, { color: textColor }]}>
+              {entries.length === 0 ? 'No cached commands yet.' : 'No cached commands match.'}
+            </Text>
+            <Text style={[styles.emptySubtext, { color: secondaryTextColor }]}>
+              Commands are cached after they are parsed, so repeats skip the model.
+            </Text>
+          </View>
+        ) : (
+          visibleEntries.map(renderEntry)
+        )}
+      </ScrollView>
+
+      {!editing && (
+        <View style={[styles.buttonRow, styles.footer]}>
+          {renderButton('download-outline', 'Import', importFile)}
+          {renderButton('share-outline', 'Export', exportFile)}
+          {renderButton('trash-outline', confirmClear ? 'Tap Again' : 'Clear All', clearAll, '#ff4d4d')}
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ddd',
+  },
+  closeButton: {
+    padding: 5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 24,
+  },
+  searchBar: {
+    paddingHorizontal: 15,
+    paddingTop: 15,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 15,
+  },
+  card: {
+    borderRadius: 10,
+    borderWidth: 1,
+    padding: 12,
+    marginBottom: 15,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  explanation: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  stepHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  stepNumber: {
+    fontWeight: 'bold',
+    marginRight: 8,
+  },
+  stepText: {
+    flex: 1,
+    fontSize: 12,
+  },
+  iconButton: {
+    padding: 4,
+    marginLeft: 4,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  fieldLabel: {
+    width: 56,
+    fontSize: 12,
+  },
+  input: {
+    flex: 1,
+    height: 40,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  errorText: {
+    color: '#ff4d4d',
+    marginBottom: 10,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  footer: {
+    padding: 15,
+  },
+  button: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 20,
+    marginHorizontal: 4,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginLeft: 6,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 30,
+    borderWidth: 1,
+    borderRadius: 10,
+    borderStyle: 'dashed',
+    marginVertical: 20,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginTop: 15,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    marginTop: 5,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,301 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { INTENT_TYPES, INTENT_ACTIONS, validateCommandIntent } from '../utils/intentSchema';
+import { CommandIntent, generateExplanation } from '../utils/nlpProcessor';
+
+// One step of a parsed command and the words it was read from
+export interface CorrectionStep {
+  clause: string;
+  intent: CommandIntent;
+}
+
+interface CorrectionScreenProps {
+  theme: 'light' | 'dark';
+  // The command as the user typed it
+  input: string;
+  // What each of its steps was parsed as
+  steps: CorrectionStep[];
+  onClose: () => void;
+  // Corrections are saved for one step's words at a time
+  onSave: (clause: string, intent: CommandIntent) => void;
+}
+
+type IntentType = typeof INTENT_TYPES[number];
+
+// Free-text fields the user can fill in
+const TEXT_FIELDS = ['target', 'query', 'url', 'text'] as const;
+
+const FIELD_HINTS: Record<typeof TEXT_FIELDS[number], string> = {
+  target: 'The element, site, tab or name the command is about',
+  query: 'What to search for',
+  url: 'The address to open',
+  text: 'The text to type, wait for or check',
+};
+
+const SELECTABLE_TYPES = INTENT_TYPES.filter(type => type !== 'unknown');
+
+// The fields of a parse the user can edit
+const toEditable = ({ type, action, target, query, url, text }: CommandIntent): CommandIntent =>
+  (SELECTABLE_TYPES as readonly string[]).includes(type)
+    ? { type, action, target, query, url, text, confidence: 1 }
+    : { type: 'navigation', action: 'navigate', confidence: 1 };
+
+export default function CorrectionScreen({ theme, input, steps, onClose, onSave }: CorrectionScreenProps) {
+  const [stepIndex, setStepIndex] = useState(0);
+  const [intent, setIntent] = useState<CommandIntent>(() => toEditable(steps[0].intent));
+  const [error, setError] = useState<string | null>(null);
+  
+  const step = steps[stepIndex];
+
+  const isDark = theme === 'dark';
+  const backgroundColor = isDark ? '#1a1a2e' : '#f0f8ff';
+  const textColor = isDark ? '#fff' : '#333';
+  const secondaryTextColor = isDark ? '#aaa' : '#666';
+  const cardBgColor = isDark ? '#2d2d42' : '#fff';
+  const borderColor = isDark ? '#3d3d5c' : '#ddd';
+  const accentColor = isDark ? '#6a6aff' : '#4040ff';
+
+  const actions = INTENT_ACTIONS[intent.type as IntentType] || [];
+
+  const selectStep = (index: number) => {
+    setStepIndex(index);
+    setIntent(toEditable(steps[index].intent));
+    setError(null);
+  };
+
+  const selectType = (type: IntentType) => {
+    setIntent(prev => ({ ...prev, type, action: INTENT_ACTIONS[type][0] }));
+    setError(null);
+  };
+
+  const updateField = (field: typeof TEXT_FIELDS[number], value: string) => {
+    setIntent(prev => {
+      const updated: CommandIntent = { ...prev, [field]: value };
+      if (!value) {
+        delete updated[field];
+      }
+      return updated;
+    });
+    setError(null);
+  };
+
+  const save = () => {
+    // Drop fields left empty so the schema check sees only what was set
+    const cleaned = Object.fromEntries(
+      Object.entries(intent).filter(([, value]) => value !== undefined && value !== '')
+    );
+    const valid = validateCommandIntent(cleaned);
+    if (!valid) {
+      setError('That is not a valid command. Pick a type and an action.');
+      return;
+    }
+    onSave(step.clause, valid);
+  };
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[
+        styles.chip,
+        { borderColor: selected ? accentColor : borderColor, backgroundColor: selected ? accentColor : 'transparent' }
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: selected ? '#fff' : textColor }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor }]}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+          <Ionicons name="arrow-back" size={24} color={textColor} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: textColor }]}>What Did You Mean?</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        <View style={[styles.card, { backgroundColor: cardBgColor, borderColor }]}>
+          <Text style={[styles.cardTitle, { color: textColor }]}>{input}</Text>
+          {steps.length > 1 && (
+            <>
+              <Text style={[styles.sectionTitle, styles.field, { color: textColor }]}>Which step was wrong?</Text>
+              <View style={styles.chipRow}>
+                {steps.map(({ clause }, index) => renderChip(`${index + 1}. ${clause}`, index === stepIndex, () => selectStep(index)))}
+              </View>
+            </>
+          )}
+          <Text style={[styles.hint, { color: secondaryTextColor }]}>
+            I read {steps.length > 1 ? `"${step.clause}"` : 'this'} as: {generateExplanation(step.intent)}
+          </Text>
+          <Text style={[styles.hint, { color: secondaryTextColor }]}>
+            I'll use your answer for {steps.length > 1 ? 'this step' : 'this command'} and similar ones from now on.
+          </Text>
+        </View>
+
+        <View style={[styles.card, { backgroundColor: cardBgColor, borderColor }]}>
+          <Text style={[styles.sectionTitle, { color: textColor }]}>Type</Text>
+          <View style={styles.chipRow}>
+            {SELECTABLE_TYPES.map(type => renderChip(type, intent.type === type, () => selectType(type)))}
+          </View>
+
+          {actions.length > 1 && (
+            <>
+              <Text style={[styles.sectionTitle, styles.field, { color: textColor }]}>Action</Text>
+              <View style={styles.chipRow}>
+                {actions.map(action => renderChip(action, intent.action === action, () => {
+                  setIntent(prev => ({ ...prev, action }));
+                  setError(null);
+                }))}
+              </View>
+            </>
+          )}
+        </View>
+
+        <View style={[styles.card, { backgroundColor: cardBgColor, borderColor }]}>
+          {TEXT_FIELDS.map(field => (
+            <View key={field} style={styles.fieldGroup}>
+              <Text style={[styles.fieldLabel, { color: secondaryTextColor }]}>{field}</Text>
+              <TextInput
+                style={[styles.input, { backgroundColor, color: textColor, borderColor }]}
+                value={intent[field] || ''}
+                onChangeText={value => updateField(field, value)}
+                placeholder={FIELD_HINTS[field]}
+                placeholderTextColor={secondaryTextColor}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </View>
+          ))}
+        </View>
+
+        <View style={[styles.card, { backgroundColor: cardBgColor, borderColor }]}>
+          <Text style={[styles.fieldLabel, { color: secondaryTextColor }]}>From now on this means</Text>
+          <Text style={[styles.explanation, { color: textColor }]}>{generateExplanation(intent)}</Text>
+        </View>
+
+        {error && <Text style={styles.errorText}>{error}</Text>}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity style={[styles.button, { backgroundColor: accentColor }]} onPress={save}>
+          <Ionicons name="checkmark" size={16} color="#fff" />
+          <Text style={styles.buttonText}>Save Correction</Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ddd',
+  },
+  closeButton: {
+    padding: 5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 24,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 15,
+  },
+  card: {
+    borderRadius: 10,
+    borderWidth: 1,
+    padding: 12,
+    marginBottom: 15,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipText: {
+    fontSize: 12,
+  },
+  field: {
+    marginTop: 10,
+  },
+  fieldGroup: {
+    marginBottom: 10,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  input: {
+    height: 40,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+  },
+  explanation: {
+    fontSize: 14,
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  errorText: {
+    color: '#ff4d4d',
+    marginBottom: 10,
+  },
+  footer: {
+    padding: 15,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 20,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginLeft: 6,
+  },
+});
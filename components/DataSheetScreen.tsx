@@ -0,0 +1,217 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView,
+  Platform,
+  Share,
+  Alert
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { saveTextToFile } from '../utils/documentUtils';
+import { DataTable, describeTableKind, tableToCsv, tableToJson } from '../utils/dataTable';
+
+interface DataSheetScreenProps {
+  theme: 'light' | 'dark';
+  table: DataTable;
+  onClose: () => void;
+}
+
+// Width of each sheet column; long cells wrap
+const COLUMN_WIDTH = 160;
+
+export default function DataSheetScreen({ theme, table, onClose }: DataSheetScreenProps) {
+  const isDark = theme === 'dark';
+  const backgroundColor = isDark ? '#1a1a2e' : '#f0f8ff';
+  const textColor = isDark ? '#fff' : '#333';
+  const secondaryTextColor = isDark ? '#aaa' : '#666';
+  const cardBgColor = isDark ? '#2d2d42' : '#fff';
+  const borderColor = isDark ? '#3d3d5c' : '#ddd';
+  const accentColor = isDark ? '#6a6aff' : '#4040ff';
+  const headerBgColor = isDark ? '#3d3d5c' : '#e6eeff';
+
+  const exportTable = async (format: 'csv' | 'json') => {
+    const text = format === 'csv' ? tableToCsv(table) : tableToJson(table);
+    const baseName = (table.title || 'extracted-data').replace(/[^\w-]+/g, '_').slice(0, 60);
+    const exportName = `${baseName}.${format}`;
+
+    try {
+      if (Platform.OS === 'web') {
+        await navigator.clipboard.writeText(text);
+        Alert.alert('Success', `${format.toUpperCase()} copied to clipboard!`);
+      } else {
+        const fileUri = await saveTextToFile(text, exportName);
+        await Share.share({
+          title: exportName,
+          message: text,
+          url: Platform.OS === 'ios' ? fileUri : `file://${fileUri}`,
+        });
+      }
+    } catch (err) {
+      console.error('Error sharing extracted data:', err);
+      Alert.alert('Error', 'Failed to share the extracted data.');
+    }
+  };
+
+  const renderButton = (icon: keyof typeof Ionicons.glyphMap, label: string, onPress: () => void) => (
+    <TouchableOpacity style={[styles.button, { backgroundColor: accentColor }]} onPress={onPress}>
+      <Ionicons name={icon} size={16} color="#fff" />
+      <Text style={styles.buttonText}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderRow = (cells: string[], key: string, isHeader: boolean) => (
+    <View
+      key={key}
+      style={[styles.row, { borderColor }, isHeader && { backgroundColor: headerBgColor }]}
+    >
+      {table.columns.map((_, index) => (
+        <Text
+          key={index}
+          style={[styles.cell, { color: textColor, borderColor }, isHeader && styles.headerCell]}
+          numberOfLines={isHeader ? 2 : 4}
+        >
+          {cells[index] ?? ''}
+        </Text>
+      ))}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor }]}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+          <Ionicons name="arrow-back" size={24} color={textColor} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: textColor }]} numberOfLines={1}>
+          {table.title || 'Extracted Data'}
+        </Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <View style={styles.content}>
+        <View style={[styles.card, { backgroundColor: cardBgColor, borderColor }]}>
+          <Text style={[styles.summary, { color: textColor }]}>
+            {table.rows.length} rows x {table.columns.length} columns from {describeTableKind(table.kind)}
+          </Text>
+          {table.totalRows > table.rows.length && (
+            <Text style={[styles.note, { color: secondaryTextColor }]}>
+              Showing the first {table.rows.length} of {table.totalRows} rows on the page
+            </Text>
+          )}
+          {!!table.url && (
+            <Text style={[styles.note, { color: secondaryTextColor }]} numberOfLines={1}>
+              {table.url}
+            </Text>
+          )}
+        </View>
+
+        <View style={[styles.sheet, { backgroundColor: cardBgColor, borderColor }]}>
+          <ScrollView horizontal>
+            <View>
+              {renderRow(table.columns, 'header', true)}
+              <ScrollView style={styles.sheetBody}>
+                {table.rows.map((row, index) => renderRow(row, `row-${index}`, false))}
+              </ScrollView>
+            </View>
+          </ScrollView>
+        </View>
+
+        <View style={styles.buttonRow}>
+          {renderButton('document-text-outline', 'Export CSV', () => exportTable('csv'))}
+          {renderButton('code-slash-outline', 'Export JSON', () => exportTable('json'))}
+        </View>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ddd',
+  },
+  closeButton: {
+    padding: 5,
+  },
+  title: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginHorizontal: 10,
+  },
+  placeholder: {
+    width: 24,
+  },
+  content: {
+    flex: 1,
+    padding: 15,
+  },
+  card: {
+    borderRadius: 10,
+    borderWidth: 1,
+    padding: 12,
+    marginBottom: 15,
+  },
+  summary: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  note: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  sheet: {
+    flex: 1,
+    borderRadius: 10,
+    borderWidth: 1,
+    overflow: 'hidden',
+    marginBottom: 15,
+  },
+  sheetBody: {
+    flex: 1,
+  },
+  row: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+  },
+  cell: {
+    width: COLUMN_WIDTH,
+    padding: 8,
+    fontSize: 13,
+    borderRightWidth: 1,
+  },
+  headerCell: {
+    fontWeight: 'bold',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  button: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 20,
+    marginHorizontal: 4,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginLeft: 6,
+  },
+});
@@ -0,0 +1,358 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { getMacros, updateMacro, deleteMacro } from '../services/macroService';
+import { Macro, getEditableField, getMacroParameters } from '../utils/macros';
+import { CommandIntent, generateExplanation } from '../utils/nlpProcessor';
+
+interface MacroScreenProps {
+  theme: 'light' | 'dark';
+  onClose: () => void;
+  onRun: (macro: Macro, values: Record<string, string>) => void;
+}
+
+export default function MacroScreen({ theme, onClose, onRun }: MacroScreenProps) {
+  const [macros, setMacros] = useState<Macro[]>(getMacros());
+  const [editing, setEditing] = useState<Macro | null>(null);
+  const [parameterValues, setParameterValues] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const isDark = theme === 'dark';
+  const backgroundColor = isDark ? '#1a1a2e' : '#f0f8ff';
+  const textColor = isDark ? '#fff' : '#333';
+  const secondaryTextColor = isDark ? '#aaa' : '#666';
+  const cardBgColor = isDark ? '#2d2d42' : '#fff';
+  const borderColor = isDark ? '#3d3d5c' : '#ddd';
+  const accentColor = isDark ? '#6a6aff' : '#4040ff';
+
+  const openMacro = (macro: Macro) => {
+    setEditing({ ...macro, steps: macro.steps.map(step => ({ ...step })) });
+    setParameterValues({});
+    setError(null);
+  };
+
+  const closeEditor = () => {
+    setEditing(null);
+    setError(null);
+    setMacros(getMacros());
+  };
+
+  const updateStep = (index: number, changes: Partial<CommandIntent>) => {
+    if (!editing) return;
+    setEditing({
+      ...editing,
+      steps: editing.steps.map((step, stepIndex) => (stepIndex === index ? { ...step, ...changes } : step)),
+    });
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    if (!editing) return;
+    const target = index + offset;
+    if (target < 0 || target >= editing.steps.length) return;
+
+    const steps = [...editing.steps];
+    [steps[index], steps[target]] = [steps[target], steps[index]];
+    setEditing({ ...editing, steps });
+  };
+
+  const removeStep = (index: number) => {
+    if (!editing) return;
+    setEditing({ ...editing, steps: editing.steps.filter((_step, stepIndex) => stepIndex !== index) });
+  };
+
+  const saveMacro = async () => {
+    if (!editing) return;
+    try {
+      await updateMacro(editing.id, { name: editing.name, steps: editing.steps });
+      closeEditor();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+    }
+  };
+
+  const removeMacro = async () => {
+    if (!editing) return;
+    await deleteMacro(editing.id);
+    closeEditor();
+  };
+
+  const runMacro = () => {
+    if (!editing) return;
+    const missing = getMacroParameters(editing.steps).filter(name => !parameterValues[name]);
+    if (missing.length > 0) {
+      setError(`Enter a value for ${missing.map(name => `{${name}}`).join(', ')}`);
+      return;
+    }
+    onRun(editing, parameterValues);
+  };
+
+  const renderEditor = (macro: Macro) => {
+    const parameters = getMacroParameters(macro.steps);
+
+    return (
+      <>
+        <View style={[styles.card, { backgroundColor: cardBgColor, borderColor }]}>
+          <Text style={[styles.fieldLabel, { color: secondaryTextColor }]}>Name</Text>
+          <TextInput
+            style={[styles.input, { backgroundColor, color: textColor, borderColor }]}
+            value={macro.name}
+            onChangeText={name => setEditing({ ...macro, name })}
+            autoCorrect={false}
+          />
+          <Text style={[styles.hint, { color: secondaryTextColor }]}>
+            Use placeholders like {'{date}'} in step values and fill them in when the macro runs.
+          </Text>
+        </View>
+
+        <View style={[styles.card, { backgroundColor: cardBgColor, borderColor }]}>
+          <Text style={[styles.cardTitle, { color: textColor }]}>Steps</Text>
+          {macro.steps.length === 0 && (
+            <Text style={[styles.hint, { color: secondaryTextColor }]}>This macro has no steps.</Text>
+          )}
+          {macro.steps.map((step, index) => {
+            const field = getEditableField(step);
+            return (
+              <View key={index} style={[styles.step, { borderColor }]}>
+                <View style={styles.stepHeader}>
+                  <Text style={[styles.stepNumber, { color: accentColor }]}>{index + 1}</Text>
+                  <Text style={[styles.stepText, { color: textColor }]}>{generateExplanation(step)}</Text>
+                  <TouchableOpacity onPress={() => moveStep(index, -1)} style={styles.iconButton}>
+                    <Ionicons name="arrow-up" size={16} color={secondaryTextColor} />
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => moveStep(index, 1)} style={styles.iconButton}>
+                    <Ionicons name="arrow-down" size={16} color={secondaryTextColor} />
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => removeStep(index)} style={styles.iconButton}>
+                    <Ionicons name="trash-outline" size={16} color="#ff4d4d" />
+                  </TouchableOpacity>
+                </View>
+                {field && (
+                  <TextInput
+                    style={[styles.input, { backgroundColor, color: textColor, borderColor }]}
+                    value={step[field] || ''}
+                    onChangeText={value => updateStep(index, { [field]: value })}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                )}
+              </View>
+            );
+          })}
+        </View>
+
+        {parameters.length > 0 && (
+          <View style={[styles.card, { backgroundColor: cardBgColor, borderColor }]}>
+            <Text style={[styles.cardTitle, { color: textColor }]}>Parameters</Text>
+            {parameters.map(name => (
+              <View key={name} style={styles.field}>
+                <Text style={[styles.fieldLabel, { color: secondaryTextColor }]}>{`{${name}}`}</Text>
+                <TextInput
+                  style={[styles.input, { backgroundColor, color: textColor, borderColor }]}
+                  value={parameterValues[name] || ''}
+                  onChangeText={value => setParameterValues(prev => ({ ...prev, [name]: value }))}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+              </View>
+            ))}
+          </View>
+        )}
+
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        <View style={styles.buttonRow}>
+          <TouchableOpacity style={[styles.button, { backgroundColor: accentColor }]} onPress={runMacro}>
+            <Ionicons name="play" size={16} color="#fff" />
+            <Text style={styles.buttonText}>Run</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.button, { backgroundColor: accentColor }]} onPress={saveMacro}>
+            <Ionicons name="save-outline" size={16} color="#fff" />
+            <Text style={styles.buttonText}>Save</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.button, { backgroundColor: '#ff4d4d' }]} onPress={removeMacro}>
+            <Ionicons name="trash-outline" size={16} color="#fff" />
+            <Text style={styles.buttonText}>Delete</Text>
+          </TouchableOpacity>
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor }]}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={editing ? closeEditor : onClose} style={styles.closeButton}>
+          <Ionicons name="arrow-back" size={24} color={textColor} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: textColor }]}>{editing ? 'Edit Macro' : 'Macros'}</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        {editing ? renderEditor(editing) : macros.length === 0 ? (
+          <View style={[styles.emptyState, { borderColor }]}>
+            <Ionicons name="albums-outline" size={40} color={accentColor} />
+            <Text style={[styles.emptyText, { color: textColor }]}>No macros recorded yet.</Text>
+            <Text style={[styles.emptySubtext, { color: secondaryTextColor }]}>
+              Say "record macro [name]", run your commands, then say "stop recording".
+            </Text>
+          </View>
+        ) : (
+          macros.map(macro => (
+            <TouchableOpacity
+              key={macro.id}
+              style={[styles.card, styles.macroRow, { backgroundColor: cardBgColor, borderColor }]}
+              onPress={() => openMacro(macro)}
+            >
+              <View style={styles.macroInfo}>
+                <Text style={[styles.cardTitle, { color: textColor }]}>{macro.name}</Text>
+                <Text style={[styles.hint, { color: secondaryTextColor }]}>
+                  {macro.steps.length} step(s), updated {new Date(macro.updatedAt).toLocaleDateString()}
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color={secondaryTextColor} />
+            </TouchableOpacity>
+          ))
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ddd',
+  },
+  closeButton: {
+    padding: 5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 24,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 15,
+  },
+  card: {
+    borderRadius: 10,
+    borderWidth: 1,
+    padding: 12,
+    marginBottom: 15,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 6,
+  },
+  macroRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  macroInfo: {
+    flex: 1,
+  },
+  step: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 8,
+  },
+  stepHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepNumber: {
+    fontWeight: 'bold',
+    marginRight: 8,
+  },
+  stepText: {
+    flex: 1,
+    fontSize: 13,
+  },
+  iconButton: {
+    padding: 4,
+  },
+  field: {
+    marginTop: 10,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  input: {
+    height: 40,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    marginTop: 6,
+  },
+  hint: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    marginTop: 6,
+  },
+  errorText: {
+    color: '#ff4d4d',
+    marginBottom: 10,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  button: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 20,
+    marginHorizontal: 4,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginLeft: 6,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 30,
+    borderWidth: 1,
+    borderRadius: 10,
+    borderStyle: 'dashed',
+    marginVertical: 20,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginTop: 15,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    marginTop: 5,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,271 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView,
+  Platform,
+  Share,
+  Alert
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { saveTextToFile, getFileName } from '../utils/documentUtils';
+import { AgentScript, parseAgentScript, formatScriptErrors } from '../utils/agentScript';
+
+interface ScriptScreenProps {
+  theme: 'light' | 'dark';
+  source: string;
+  onChangeSource: (source: string) => void;
+  onClose: () => void;
+  onRun: (script: AgentScript) => void;
+}
+
+const EXAMPLE_SCRIPT = [
+  'name: Daily report',
+  'go to dashboard.example.com',
+  'wait for "Sign in" within 10s',
+  'type alice@example.com into email',
+  'click sign in',
+  'assert "Welcome back"',
+  'extract ".total" as total',
+  'for each ".report-row a" as report',
+  '  click {report}',
+  '  go back',
+  'end',
+].join('\n');
+
+export default function ScriptScreen({ theme, source, onChangeSource, onClose, onRun }: ScriptScreenProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [validated, setValidated] = useState(false);
+
+  const isDark = theme === 'dark';
+  const backgroundColor = isDark ? '#1a1a2e' : '#f0f8ff';
+  const textColor = isDark ? '#fff' : '#333';
+  const secondaryTextColor = isDark ? '#aaa' : '#666';
+  const cardBgColor = isDark ? '#2d2d42' : '#fff';
+  const borderColor = isDark ? '#3d3d5c' : '#ddd';
+  const accentColor = isDark ? '#6a6aff' : '#4040ff';
+
+  const updateSource = (text: string) => {
+    onChangeSource(text);
+    setValidated(false);
+  };
+
+  const fallbackName = () => (fileName ? fileName.replace(/\.[^.]+$/, '') : undefined);
+
+  const validate = async () => {
+    const result = await parseAgentScript(source, fallbackName());
+    setErrors(formatScriptErrors(result.errors));
+    setValidated(true);
+    return result.script;
+  };
+
+  const runScript = async () => {
+    const script = await validate();
+    if (script) {
+      onRun(script);
+    }
+  };
+
+  const importScript = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/json', 'text/plain'],
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled) {
+        return;
+      }
+
+      const asset = result.assets[0];
+      const text = Platform.OS === 'web'
+        ? await (await fetch(asset.uri)).text()
+        : await FileSystem.readAsStringAsync(asset.uri);
+
+      setFileName(asset.name || getFileName(asset.uri));
+      updateSource(text);
+      setErrors([]);
+    } catch (err) {
+      console.error('Error importing script:', err);
+      Alert.alert('Error', 'Failed to import the script file.');
+    }
+  };
+
+  const exportScript = async () => {
+    if (!source.trim()) {
+      Alert.alert('No Script', 'There is no script to export.');
+      return;
+    }
+
+    const isJson = /^\s*[[{]/.test(source);
+    const parsed = await parseAgentScript(source, fallbackName());
+    const baseName = (parsed.script?.name || fallbackName() || 'agent-script').replace(/[^\w-]+/g, '_');
+    const exportName = `${baseName}.${isJson ? 'json' : 'txt'}`;
+
+    try {
+      if (Platform.OS === 'web') {
+        await navigator.clipboard.writeText(source);
+        Alert.alert('Success', 'Script copied to clipboard!');
+      } else {
+        const fileUri = await saveTextToFile(source, exportName);
+        await Share.share({
+          title: exportName,
+          message: source,
+          url: Platform.OS === 'ios' ? fileUri : `file://${fileUri}`,
+        });
+      }
+    } catch (err) {
+      console.error('Error sharing script:', err);
+      Alert.alert('Error', 'Failed to share the script.');
+    }
+  };
+
+  const renderButton = (icon: keyof typeof Ionicons.glyphMap, label: string, onPress: () => void) => (
+    <TouchableOpacity style={[styles.button, { backgroundColor: accentColor }]} onPress={onPress}>
+      <Ionicons name={icon} size={16} color="#fff" />
+      <Text style={styles.buttonText}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor }]}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+          <Ionicons name="arrow-back" size={24} color={textColor} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: textColor }]}>{fileName || 'Agent Script'}</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        <View style={[styles.card, { backgroundColor: cardBgColor, borderColor }]}>
+          <TextInput
+            style={[styles.editor, { backgroundColor, color: textColor, borderColor }]}
+            value={source}
+            onChangeText={updateSource}
+            placeholder={EXAMPLE_SCRIPT}
+            placeholderTextColor={secondaryTextColor}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+            textAlignVertical="top"
+          />
+          <Text style={[styles.hint, { color: secondaryTextColor }]}>
+            One step per line, or JSON. Steps: any command, wait for, assert, extract ... as name, for each ... as name / end.
+          </Text>
+        </View>
+
+        {validated && (
+          <View style={[styles.card, { backgroundColor: cardBgColor, borderColor }]}>
+            {errors.length === 0 ? (
+              <View style={styles.validRow}>
+                <Ionicons name="checkmark-circle" size={18} color="#2e9e5b" />
+                <Text style={[styles.validText, { color: textColor }]}>Script is valid</Text>
+              </View>
+            ) : (
+              errors.map((error, index) => (
+                <Text key={index} style={styles.errorText}>{error}</Text>
+              ))
+            )}
+          </View>
+        )}
+
+        <View style={styles.buttonRow}>
+          {renderButton('folder-open-outline', 'Import', importScript)}
+          {renderButton('share-outline', 'Export', exportScript)}
+        </View>
+        <View style={styles.buttonRow}>
+          {renderButton('checkmark-done-outline', 'Validate', validate)}
+          {renderButton('play', 'Run', runScript)}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ddd',
+  },
+  closeButton: {
+    padding: 5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 24,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 15,
+  },
+  card: {
+    borderRadius: 10,
+    borderWidth: 1,
+    padding: 12,
+    marginBottom: 15,
+  },
+  editor: {
+    minHeight: 260,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  hint: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+  validRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  validText: {
+    marginLeft: 8,
+  },
+  errorText: {
+    color: '#ff4d4d',
+    marginBottom: 4,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 10,
+  },
+  button: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 20,
+    marginHorizontal: 4,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginLeft: 6,
+  },
+});
@@ -9,32 +9,114 @@ import {
   KeyboardAvoidingView,
   Platform,
   ScrollView,
-  Dimensions
+  Dimensions,
+  Modal
 } from 'react-native';
-import { WebView } from 'react-native-webview';
+import { WebView, WebViewMessageEvent } from 'react-native-webview';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import AgentStatusScreen from './AgentStatusScreen';
-import { processCommand, initializeCache } from '../services/aiService';
+import AgentSettingsScreen from './AgentSettingsScreen';
+import MacroScreen from './MacroScreen';
+import BookmarkScreen from './BookmarkScreen';
+import ScriptScreen from './ScriptScreen';
+import DataSheetScreen from './DataSheetScreen';
+import CorrectionScreen, { CorrectionStep } from './CorrectionScreen';
+import { processCommand, initializeCache, deleteCacheEntry, ProcessedIntent } from '../services/aiService';
+import { initializeSettings, getSettings } from '../services/settingsService';
+import { runAgentLoop, AgentLoopUpdate } from '../services/agentLoop';
+import { initializeMacros, getMacros, findMacro, saveMacro } from '../services/macroService';
+import { initializeBookmarks, getBookmarks, findBookmark, saveBookmark, deleteBookmark } from '../services/bookmarkService';
+import { initializeExamples, saveExample } from '../services/exampleService';
+import { runAgentScript } from '../services/scriptRunner';
+import { createIntentExecutor, ElementChoiceRequest } from '../services/intentExecutor';
+import { setPageSnapshot, getPageSnapshot, findSnapshotElement } from '../services/snapshotStore';
+import { PageSnapshot, SnapshotElement } from '../utils/pageSnapshot';
+import { describeElementPosition, parseChoiceAnswer } from '../utils/elementMatching';
+import { createPageBridge, parsePageMessage, PageBridge, PAGE_CHANGED_MESSAGE } from '../utils/webViewProtocol';
+import { DataTable } from '../utils/dataTable';
+import { Bookmark } from '../utils/bookmarks';
+import { getCacheKey } from '../utils/commandCache';
+import {
+  BrowserTab,
+  MAX_TABS,
+  createTab,
+  findTab,
+  getTabAfterClose,
+  getTabLabel
+} from '../utils/browserTabs';
+import { generateExplanation, getAmbiguousReadings, splitCommandChain, CommandIntent } from '../utils/nlpProcessor';
+import { MIN_EXECUTION_CONFIDENCE } from '../utils/intentSchema';
+import {
+  Macro,
+  MacroRun,
+  applyMacroParameters,
+  getMacroParameters,
+  parseMacroArguments,
+  toMacroStep
+} from '../utils/macros';
+import { AgentScript } from '../utils/agentScript';
+import { createAgentPlanner } from '../utils/agentPlanner';
+import { createPageSummarizer } from '../utils/pageSummarizer';
+
+// How long to wait for a page to finish loading between steps
+const PAGE_LOAD_TIMEOUT = 20000;
+
+// Commands starting with this run as a goal even when goal mode is off
+const GOAL_PREFIX = /^goal:\s*/i;
 
 interface WebAgentProps {
   theme: 'light' | 'dark';
 }
 
 export default function WebAgent({ theme }: WebAgentProps) {
-  const [url, setUrl] = useState('https://www.google.com');
-  const [currentUrl, setCurrentUrl] = useState('https://www.google.com');
-  const [isLoading, setIsLoading] = useState(false);
+  const [tabs, setTabs] = useState<BrowserTab[]>(() => [createTab()]);
+  const [activeTabId, setActiveTabId] = useState(() => tabs[0].id);
   const [command, setCommand] = useState('');
   const [history, setHistory] = useState<string[]>([]);
-  const [statusUpdates, setStatusUpdates] = useState<string[]>([]);
   const [showStatusPanel, setShowStatusPanel] = useState(false);
   const [showFullStatusScreen, setShowFullStatusScreen] = useState(false);
+  const [showSettingsScreen, setShowSettingsScreen] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
-  const webViewRef = useRef<WebView>(null);
+  const [isGoalMode, setIsGoalMode] = useState(false);
+  const [isStoppable, setIsStoppable] = useState(false);
+  const [showMacroScreen, setShowMacroScreen] = useState(false);
+  const [showBookmarkScreen, setShowBookmarkScreen] = useState(false);
+  const [recordingMacro, setRecordingMacro] = useState<string | null>(null);
+  const [macroRun, setMacroRun] = useState<MacroRun | null>(null);
+  const [showScriptScreen, setShowScriptScreen] = useState(false);
+  const [scriptSource, setScriptSource] = useState('');
+  const [isChoosing, setIsChoosing] = useState(false);
+  const [isMarksMode, setIsMarksMode] = useState(false);
+  const [extractedTable, setExtractedTable] = useState<DataTable | null>(null);
+  const [showDataSheet, setShowDataSheet] = useState(false);
+  const [correctingCommand, setCorrectingCommand] = useState<string | null>(null);
+  // Commands always act on the active tab; async steps read these refs
+  // rather than the state captured when they started
+  const tabsRef = useRef(tabs);
+  const activeTabIdRef = useRef(activeTabId);
+  const webViewRefs = useRef<Record<string, WebView | null>>({});
+  const bridgesRef = useRef<Record<string, PageBridge>>({});
   const statusScrollViewRef = useRef<ScrollView>(null);
   const historyScrollViewRef = useRef<ScrollView>(null);
-
+  const pageLoadWaiterRef = useRef<{ tabId: string; settle: (loaded: boolean) => void } | null>(null);
+  const runAbortRef = useRef<AbortController | null>(null);
+  // Set while a typed command's steps run; the data sheet waits for the last one
+  const planRunningRef = useRef(false);
+  const pendingSheetRef = useRef(false);
+  // The macro being recorded; state only mirrors its name for rendering
+  const recordingRef = useRef<{ name: string; steps: CommandIntent[] } | null>(null);
+  // An open "which element?" question, answered from the command box
+  const choiceRef = useRef<{ count: number; resolve: (index: number | null) => void } | null>(null);
+  // Read from page callbacks, so kept in a ref alongside the state
+  const marksModeRef = useRef(false);
+  // What each command in the history was parsed as, so it can be corrected
+  const parsedCommandsRef = useRef<Record<string, CorrectionStep[]>>({});
+  
+  const activeTab = tabs.find(tab => tab.id === activeTabId) || tabs[0];
+  const activeTabIndex = tabs.indexOf(activeTab);
+  const { currentUrl, statusUpdates } = activeTab;
+  
   const isDark = theme === 'dark';
   const backgroundColor = isDark ? '#1a1a2e' : '#f0f8ff';
   const textColor = isDark ? '#fff' : '#333';
@@ -45,18 +127,44 @@ export default function WebAgent({ theme }: WebAgentProps) {
 
   useEffect(() => {
     initializeCache();
+    initializeSettings();
+    initializeMacros();
+    initializeBookmarks();
+    initializeExamples();
   }, []);
 
-  const addStatusUpdate = (message: string) => {
+  const updateTabs = (update: (list: BrowserTab[]) => BrowserTab[]) => {
+    tabsRef.current = update(tabsRef.current);
+    setTabs(tabsRef.current);
+  };
+
+  const updateTab = (tabId: string, changes: (tab: BrowserTab) => Partial<BrowserTab>) =>
+    updateTabs(list => list.map(tab => (tab.id === tabId ? { ...tab, ...changes(tab) } : tab)));
+
+  const getTab = (tabId: string) => tabsRef.current.find(tab => tab.id === tabId);
+
+  const getWebView = () => webViewRefs.current[activeTabIdRef.current];
+
+  const getBridge = (tabId: string = activeTabIdRef.current) => {
+    if (!bridgesRef.current[tabId]) {
+      bridgesRef.current[tabId] = createPageBridge(script => webViewRefs.current[tabId]?.injectJavaScript(script));
+    }
+    return bridgesRef.current[tabId];
+  };
+
+  // Each tab keeps its own status log
+  const addTabStatus = (tabId: string, message: string) => {
     const timestamp = new Date().toLocaleTimeString();
     const update = `[${timestamp}] ${message}`;
-    setStatusUpdates(prev => [...prev, update]);
+    updateTab(tabId, tab => ({ statusUpdates: [...tab.statusUpdates, update] }));
     
     setTimeout(() => {
       statusScrollViewRef.current?.scrollToEnd({ animated: true });
     }, 100);
   };
 
+  const addStatusUpdate = (message: string) => addTabStatus(activeTabIdRef.current, message);
+
   const addHistoryItem = (message: string) => {
     setHistory(prev => [...prev, message]);
     
@@ -65,8 +173,266 @@ export default function WebAgent({ theme }: WebAgentProps) {
     }, 100);
   };
 
+  const waitForPageLoad = (tabId: string = activeTabIdRef.current) => new Promise<boolean>(resolve => {
+    const timer = setTimeout(() => {
+      addTabStatus(tabId, `Error: Timed out waiting for the page to load`);
+      settle(false);
+    }, PAGE_LOAD_TIMEOUT);
+    
+    const settle = (loaded: boolean) => {
+      clearTimeout(timer);
+      if (pageLoadWaiterRef.current?.settle === settle) {
+        pageLoadWaiterRef.current = null;
+      }
+      resolve(loaded);
+    };
+    
+    pageLoadWaiterRef.current = { tabId, settle };
+  });
+
+  const settlePageLoad = (tabId: string, loaded: boolean) => {
+    if (pageLoadWaiterRef.current?.tabId === tabId) {
+      pageLoadWaiterRef.current.settle(loaded);
+    }
+  };
+
+  // Run an intent and, while a macro is being recorded, keep it if it succeeded
+  const executeIntent = async (intent: ProcessedIntent, signal?: AbortSignal): Promise<boolean> => {
+    // Look the element up before the step runs; a click may load a new page
+    const element = intent.elementId ? findSnapshotElement(intent.elementId) : undefined;
+    const succeeded = await intentExecutor.execute(intent, signal);
+    
+    const recording = recordingRef.current;
+    if (succeeded && recording && intent.type !== 'system') {
+      const { explanation, error, ...step } = intent;
+      try {
+        recording.steps.push(toMacroStep(step, element));
+        addStatusUpdate(`Recorded step ${recording.steps.length} for macro "${recording.name}"`);
+      } catch (recordError) {
+        addHistoryItem(`Not recorded in "${recording.name}": ${recordError instanceof Error ? recordError.message : String(recordError)}`);
+      }
+    }
+    
+    return succeeded;
+  };
+
+  const handleSystemIntent = (intent: CommandIntent): Promise<boolean> | boolean => {
+    switch (intent.action) {
+      case 'help':
+        showHelp();
+        return true;
+        
+      case 'record_macro':
+        return startRecording(intent.target || '');
+        
+      case 'stop_recording':
+        return stopRecording();
+        
+      case 'run_macro':
+        return runMacro(intent.target || '', parseMacroArguments(intent.text || ''));
+        
+      case 'list_macros':
+        return listMacros();
+        
+      case 'add_bookmark':
+        return addBookmark(intent.target);
+        
+      case 'list_bookmarks':
+        return listBookmarks();
+        
+      case 'delete_bookmark':
+        return removeBookmark(intent.target || '');
+        
+      default:
+        return false;
+    }
+  };
+
+  const handleTabIntent = (intent: CommandIntent): Promise<boolean> | boolean => {
+    switch (intent.action) {
+      case 'open_tab':
+        return openTab(intent.url);
+        
+      case 'switch_tab':
+        return switchTab(intent.target || '');
+        
+      case 'close_tab':
+        return closeTab(intent.target || 'this');
+        
+      case 'list_tabs':
+        return listTabs();
+        
+      default:
+        return false;
+    }
+  };
+
+  // Open a tab and show it; resolves once its first page loads
+  const openTab = (tabUrl?: string) => {
+    if (tabsRef.current.length >= MAX_TABS) {
+      addHistoryItem(`You can have up to ${MAX_TABS} tabs open. Close one first.`);
+      addStatusUpdate('Error: Too many tabs open');
+      return Promise.resolve(false);
+    }
+    
+    const tab = createTab(tabUrl);
+    updateTabs(list => [...list, tab]);
+    const loaded = waitForPageLoad(tab.id);
+    showTab(tab.id);
+    addHistoryItem(`Opened tab ${tabsRef.current.length}: ${tab.url}`);
+    addStatusUpdate(`Opened new tab with ${tab.url}`);
+    return loaded;
+  };
+
+  const showTab = (tabId: string) => {
+    if (tabId === activeTabIdRef.current) return;
+    
+    cancelChoice('Switched tabs while waiting for an element choice');
+    activeTabIdRef.current = tabId;
+    setActiveTabId(tabId);
+    setPageSnapshot(null);
+    
+    // A tab that is still loading takes its snapshot when it finishes
+    if (!getTab(tabId)?.isLoading) {
+      if (marksModeRef.current) {
+        watchPageChanges(true);
+      }
+      refreshSnapshot();
+    }
+  };
+
+  const switchTab = (target: string) => {
+    const tab = findTab(tabsRef.current, activeTabIdRef.current, target);
+    if (!tab) {
+      addHistoryItem(`No tab matches "${target}". Say "list tabs" to see them.`);
+      addStatusUpdate(`Error: Tab "${target}" not found`);
+      return false;
+    }
+    
+    showTab(tab.id);
+    addHistoryItem(`Switched to tab ${tabsRef.current.indexOf(tab) + 1}: ${getTabLabel(tab)}`);
+    addStatusUpdate(`Switched to tab ${getTabLabel(tab)} (${tab.currentUrl})`);
+    return true;
+  };
+
+  const closeTab = (target: string) => {
+    const tab = findTab(tabsRef.current, activeTabIdRef.current, target);
+    if (!tab) {
+      addHistoryItem(`No tab matches "${target}". Say "list tabs" to see them.`);
+      addStatusUpdate(`Error: Tab "${target}" not found`);
+      return false;
+    }
+    
+    if (tabsRef.current.length === 1) {
+      addHistoryItem('This is the only tab, so it stays open.');
+      return false;
+    }
+    
+    const position = tabsRef.current.indexOf(tab) + 1;
+    const next = getTabAfterClose(tabsRef.current, tab.id);
+    if (next && tab.id === activeTabIdRef.current) {
+      showTab(next.id);
+    }
+    
+    settlePageLoad(tab.id, false);
+    bridgesRef.current[tab.id]?.cancelAll('Tab closed');
+    delete bridgesRef.current[tab.id];
+    delete webViewRefs.current[tab.id];
+    updateTabs(list => list.filter(other => other.id !== tab.id));
+    
+    addHistoryItem(`Closed tab ${position}: ${getTabLabel(tab)}`);
+    addStatusUpdate(`Closed tab ${getTabLabel(tab)}`);
+    return true;
+  };
+
+  const listTabs = () => {
+    addHistoryItem('Open tabs:');
+    tabsRef.current.forEach((tab, index) => {
+      const marker = tab.id === activeTabIdRef.current ? '*' : ' ';
+      addHistoryItem(`${marker} ${index + 1}. ${getTabLabel(tab)} - ${tab.currentUrl}`);
+    });
+    return true;
+  };
+
+  // Ask in the history panel which of several matching elements to use
+  const chooseElement = ({ target, candidates }: ElementChoiceRequest) => new Promise<SnapshotElement | null>(resolve => {
+    const viewportHeight = getPageSnapshot()?.viewport.height || Dimensions.get('window').height;
+    
+    addHistoryItem(`"${target}" matches ${candidates.length} elements. Which one should I use?`);
+    candidates.forEach((candidate, index) => {
+      addHistoryItem(`  ${index + 1}. ${candidate.role} "${candidate.name}" ${describeElementPosition(candidate, viewportHeight)}`);
+    });
+    addHistoryItem('Reply with a number (they are marked on the page), or "cancel".');
+    
+    choiceRef.current = {
+      count: candidates.length,
+      resolve: index => {
+        choiceRef.current = null;
+        setIsChoosing(false);
+        resolve(index === null ? null : candidates[index]);
+        // The choice numbers replaced the element numbers; put them back
+        if (marksModeRef.current) {
+          setTimeout(refreshSnapshot, 0);
+        }
+      },
+    };
+    setIsChoosing(true);
+  });
+
+  // Ask which reading of an ambiguous command was meant
+  const chooseReading = (clause: string, readings: CommandIntent[]) => new Promise<CommandIntent | null>(resolve => {
+    addHistoryItem(`"${clause}" could mean more than one thing. Which one?`);
+    readings.forEach((reading, index) => {
+      addHistoryItem(`  ${index + 1}. ${generateExplanation(reading)}`);
+    });
+    addHistoryItem('Reply with a number, or "cancel". Quoting the text also settles it.');
+    
+    choiceRef.current = {
+      count: readings.length,
+      resolve: index => {
+        choiceRef.current = null;
+        setIsChoosing(false);
+        resolve(index === null ? null : readings[index]);
+      },
+    };
+    setIsChoosing(true);
+  });
+
+  const answerChoice = (answer: string) => {
+    const pending = choiceRef.current;
+    if (!pending) return;
+    
+    addHistoryItem(`> ${answer}`);
+    const index = parseChoiceAnswer(answer, pending.count);
+    
+    if (index === undefined) {
+      addHistoryItem(`Please reply with a number from 1 to ${pending.count}, or "cancel".`);
+      return;
+    }
+    
+    pending.resolve(index);
+  };
+
+  const cancelChoice = (reason: string) => {
+    if (choiceRef.current) {
+      addStatusUpdate(reason);
+      choiceRef.current.resolve(null);
+    }
+  };
+
   const executeCommand = async () => {
-    if (!command.trim()) return;
+    if (choiceRef.current) {
+      answerChoice(command);
+      setCommand('');
+      return;
+    }
+    
+    if (!command.trim() || isProcessing) return;
+    
+    if (isGoalMode || GOAL_PREFIX.test(command)) {
+      await executeGoal(command.replace(GOAL_PREFIX, '').trim());
+      return;
+    }
     
     addHistoryItem(`> ${command}`);
     addStatusUpdate(`Received command: "${command}"`);
@@ -74,211 +440,447 @@ export default function WebAgent({ theme }: WebAgentProps) {
     setIsProcessing(true);
     addStatusUpdate(`Processing with AI...`);
     
+    planRunningRef.current = true;
+    pendingSheetRef.current = false;
     try {
-      const result = await processCommand(command);
+      const plan = await processCommand(command);
+      // Steps line up with the clauses of a chained command
+      const clauses = splitCommandChain(command);
+      const parsedSteps: CorrectionStep[] = plan.steps.map((step, index) => ({
+        clause: clauses.length === plan.steps.length ? clauses[index] : command,
+        intent: step,
+      }));
+      parsedCommandsRef.current[command] = parsedSteps;
       
-      if (result.fromCache) {
+      if (plan.learned) {
+        addStatusUpdate(`Used a correction you made earlier`);
+      } else if (plan.fromCache) {
         addStatusUpdate(`Found similar command in cache`);
       } else {
         addStatusUpdate(`AI processed the command`);
       }
       
-      addStatusUpdate(`Understanding: ${result.explanation} (confidence: ${Math.round(result.confidence * 100)}%)`);
+      if (plan.steps.length > 1) {
+        addStatusUpdate(`Planned ${plan.steps.length} steps`);
+      }
       
-      if (result.confidence >= 0.6) {
-        switch (result.type) {
-          case 'navigation':
-            navigateToSite(result.url || '');
-            break;
-            
-          case 'search':
-            searchGoogle(result.query || '');
-            break;
-            
-          case 'navigation_control':
-            switch (result.action) {
-              case 'back':
-                webViewRef.current?.goBack();
-                addHistoryItem('Going back to previous page');
-                addStatusUpdate('Navigating to previous page in history');
-                break;
-                
-              case 'forward':
-                webViewRef.current?.goForward();
-                addHistoryItem('Going forward to next page');
-                addStatusUpdate('Navigating to next page in history');
-                break;
-                
-              case 'reload':
-                webViewRef.current?.reload();
-                addHistoryItem('Reloading page');
-                addStatusUpdate('Refreshing current page content');
-                break;
-            }
+      for (let index = 0; index < plan.steps.length; index++) {
+        let step = plan.steps[index];
+        const readings = clauses.length === plan.steps.length && step.confidence < MIN_EXECUTION_CONFIDENCE
+          ? getAmbiguousReadings(clauses[index])
+          : [];
+        if (readings.length > 1) {
+          const reading = await chooseReading(clauses[index], readings);
+          if (!reading) {
+            addStatusUpdate('Cancelled: the command was ambiguous');
             break;
-            
-          case 'interaction':
-            switch (result.action) {
-              case 'click':
-                clickElement(result.target || '');
-                break;
-                
-              case 'type':
-                typeText(result.text || '');
-                break;
-            }
-            break;
-            
-          case 'system':
-            if (result.action === 'help') {
-              showHelp();
-            }
-            break;
-            
-          default:
-            addHistoryItem('I\'m not sure what you want me to do. Try rephrasing or type "help".');
-            addStatusUpdate('Command intent unclear or unsupported');
+          }
+          step = { ...reading, explanation: generateExplanation(reading) };
+          parsedSteps[index].intent = reading;
+        }
+        
+        const prefix = plan.steps.length > 1 ? `Step ${index + 1}/${plan.steps.length}: ` : '';
+        
+        addStatusUpdate(`${prefix}Understanding: ${step.explanation} (confidence: ${Math.round(step.confidence * 100)}%)`);
+        
+        const succeeded = await executeIntent(step);
+        
+        if (!succeeded) {
+          if (plan.steps.length > 1) {
+            const skipped = plan.steps.length - index - 1;
+            addStatusUpdate(`Error: Step ${index + 1} failed, stopping${skipped > 0 ? ` and skipping ${skipped} remaining step(s)` : ''}`);
+            addHistoryItem(`Stopped at step ${index + 1} of ${plan.steps.length}`);
+          }
+          break;
+        }
+        
+        if (plan.steps.length > 1) {
+          addStatusUpdate(`Step ${index + 1}/${plan.steps.length} completed`);
         }
-      } else {
-        addHistoryItem(`I'm not confident I understood that correctly. Try rephrasing or type "help".`);
-        addStatusUpdate(`Low confidence (${Math.round(result.confidence * 100)}%) - unable to execute command`);
       }
     } catch (error) {
       console.error('Error executing command:', error);
       addHistoryItem('Sorry, I encountered an error processing your command.');
       addStatusUpdate(`Error processing command: ${error}`);
     } finally {
+      planRunningRef.current = false;
+      if (pendingSheetRef.current) {
+        pendingSheetRef.current = false;
+        setShowDataSheet(true);
+      }
       setIsProcessing(false);
       setCommand('');
     }
   };
 
-  const navigateToSite = (site: string) => {
-    addStatusUpdate(`Processing URL: "${site}"`);
+  const reportGoalProgress = (update: AgentLoopUpdate) => {
+    switch (update.kind) {
+      case 'thinking':
+        addStatusUpdate(`Step ${update.step}: Planning next action...`);
+        break;
+      case 'action':
+        addStatusUpdate(`Step ${update.step}: ${generateExplanation(update.action)}${update.reasoning ? ` (${update.reasoning})` : ''}`);
+        break;
+      case 'result':
+        addStatusUpdate(`Step ${update.step} ${update.succeeded ? 'completed' : 'failed'}`);
+        break;
+    }
+  };
+
+  // Work towards a goal one planned action at a time until done, stopped or out of steps
+  const executeGoal = async (goal: string) => {
+    if (!goal) return;
+    
+    addHistoryItem(`> goal: ${goal}`);
+    addStatusUpdate(`Received command: "goal: ${goal}"`);
     
-    let processedUrl = site;
+    const settings = getSettings();
+    const planner = createAgentPlanner(settings.llm);
+    const controller = new AbortController();
+    runAbortRef.current = controller;
     
-    if (!site.startsWith('http://') && !site.startsWith('https://')) {
-      processedUrl = 'https://' + site;
-      addStatusUpdate(`Adding https:// protocol: "${processedUrl}"`);
+    setIsProcessing(true);
+    setIsStoppable(true);
+    setCommand('');
+    addStatusUpdate(`Working towards goal with the ${planner.id} planner (up to ${settings.maxAgentSteps} steps)`);
+    
+    try {
+      const result = await runAgentLoop({
+        goal,
+        planner,
+        maxSteps: settings.maxAgentSteps,
+        takeSnapshot: refreshSnapshot,
+        execute: (action, signal) => executeIntent({ ...action, explanation: generateExplanation(action) }, signal),
+        onUpdate: reportGoalProgress,
+        signal: controller.signal,
+      });
+      
+      switch (result.outcome) {
+        case 'success':
+          addHistoryItem(`Goal complete after ${result.steps.length} step(s): ${result.message}`);
+          addStatusUpdate(`Goal complete: ${result.message}`);
+          break;
+        case 'cancelled':
+          addHistoryItem(`Goal stopped after ${result.steps.length} step(s)`);
+          addStatusUpdate('Goal cancelled by user');
+          break;
+        default:
+          addHistoryItem(`Could not complete the goal: ${result.message}`);
+          addStatusUpdate(`Error: Goal ${result.outcome === 'max_steps' ? 'hit the step limit' : 'failed'}: ${result.message}`);
+      }
+    } catch (error) {
+      console.error('Error running goal:', error);
+      addHistoryItem('Sorry, I encountered an error working on your goal.');
+      addStatusUpdate(`Error running goal: ${describeError(error)}`);
+    } finally {
+      runAbortRef.current = null;
+      setIsStoppable(false);
+      setIsProcessing(false);
+    }
+  };
+
+  // Stop the running goal or script, cutting short a planner request or wait
+  const stopRun = () => {
+    cancelChoice('Element choice cancelled');
+    if (runAbortRef.current && !runAbortRef.current.signal.aborted) {
+      runAbortRef.current.abort();
+      addStatusUpdate('Stopping...');
     }
+  };
+
+  const runScript = async (script: AgentScript) => {
+    setShowScriptScreen(false);
+    if (isProcessing) return;
+    
+    addHistoryItem(`> run script ${script.name}`);
+    addStatusUpdate(`Received command: "script: ${script.name}"`);
     
-    if (!processedUrl.includes('.')) {
-      processedUrl += '.com';
-      addStatusUpdate(`Adding .com TLD: "${processedUrl}"`);
+    const controller = new AbortController();
+    runAbortRef.current = controller;
+    setIsProcessing(true);
+    setIsStoppable(true);
+    
+    try {
+      const result = await runAgentScript(script, {
+        ...intentExecutor,
+        execute: (intent, signal) => executeIntent({ ...intent, explanation: generateExplanation(intent) }, signal),
+      }, {
+        signal: controller.signal,
+        onUpdate: update => {
+          if (update.status === 'running') {
+            addStatusUpdate(`Line ${update.line}: ${update.description}`);
+          } else if (update.status === 'failed') {
+            addStatusUpdate(`Error: Line ${update.line} failed`);
+          }
+        },
+      });
+      
+      const extracted = Object.entries(result.variables);
+      if (extracted.length > 0) {
+        addHistoryItem('Extracted values:');
+        extracted.forEach(([name, value]) => addHistoryItem(`- ${name}: ${value}`));
+      }
+      
+      if (result.succeeded) {
+        addHistoryItem(`Script "${script.name}" completed`);
+        addStatusUpdate(result.message);
+      } else {
+        addHistoryItem(`Script "${script.name}" stopped. ${result.message}`);
+        addStatusUpdate(result.cancelled ? 'Script cancelled by user' : `Error: ${result.message}`);
+      }
+    } catch (error) {
+      console.error('Error running script:', error);
+      addStatusUpdate(`Error running script: ${describeError(error)}`);
+    } finally {
+      runAbortRef.current = null;
+      setIsStoppable(false);
+      setIsProcessing(false);
+    }
+  };
+
+  const startRecording = (name: string) => {
+    if (!name) {
+      addHistoryItem('Give the macro a name, e.g. "record macro daily report"');
+      return false;
     }
     
-    addStatusUpdate(`Initiating navigation to: ${processedUrl}`);
-    setUrl(processedUrl);
-    addHistoryItem(`Navigating to ${processedUrl}`);
+    if (recordingRef.current) {
+      addHistoryItem(`Already recording "${recordingRef.current.name}". Say "stop recording" first.`);
+      addStatusUpdate('Error: A macro is already being recorded');
+      return false;
+    }
+    
+    recordingRef.current = { name, steps: [] };
+    setRecordingMacro(name);
+    addHistoryItem(`Recording macro "${name}". Run your commands, then say "stop recording".`);
+    addStatusUpdate(`Started recording macro "${name}"`);
+    return true;
   };
 
-  const searchGoogle = (query: string) => {
-    addStatusUpdate(`Preparing search for: "${query}"`);
-    const searchUrl = `https://www.google.com/search?q=${encodeURIComponent(query)}`;
-    addStatusUpdate(`Encoded search URL: ${searchUrl}`);
-    setUrl(searchUrl);
-    addHistoryItem(`Searching for "${query}"`);
-    addStatusUpdate(`Initiated Google search for: "${query}"`);
+  const stopRecording = async () => {
+    const recording = recordingRef.current;
+    if (!recording) {
+      addHistoryItem('No macro is being recorded');
+      return false;
+    }
+    
+    const { name, steps } = recording;
+    recordingRef.current = null;
+    setRecordingMacro(null);
+    
+    if (steps.length === 0) {
+      addHistoryItem(`Nothing was recorded, so "${name}" was not saved`);
+      addStatusUpdate('Recording stopped with no steps');
+      return false;
+    }
+    
+    await saveMacro(name, steps);
+    addHistoryItem(`Saved macro "${name}" with ${steps.length} step(s). Say "run macro ${name}" to replay it.`);
+    addStatusUpdate(`Saved macro "${name}" (${steps.length} steps)`);
+    return true;
   };
 
-  const clickElement = (element: string) => {
-    addStatusUpdate(`Looking for element containing text: "${element}"`);
+  // Replay a macro's steps in order, stopping at the first one that fails
+  const runMacro = async (name: string, values: Record<string, string>) => {
+    const macro = findMacro(name);
+    if (!macro) {
+      addHistoryItem(`No macro named "${name}". Say "list macros" to see them.`);
+      addStatusUpdate(`Error: Macro "${name}" not found`);
+      return false;
+    }
     
-    const script = `
-      (function() {
-        const elements = Array.from(document.querySelectorAll('a, button, [role="button"], input[type="submit"], input[type="button"]'));
-        const found = elements.find(el => 
-          el.innerText && el.innerText.toLowerCase().includes('${element.toLowerCase()}')
-        );
-        
-        if (found) {
-          const originalBackground = found.style.backgroundColor;
-          const originalTransition = found.style.transition;
-          found.style.transition = 'background-color 0.3s';
-          found.style.backgroundColor = '#ffcc00';
-          
-          setTimeout(() => {
-            found.style.backgroundColor = originalBackground;
-            found.style.transition = originalTransition;
-            found.click();
-          }, 300);
-          
-          window.ReactNativeWebView.postMessage(JSON.stringify({
-            type: 'elementFound',
-            text: found.innerText || found.value || 'element',
-            tagName: found.tagName
-          }));
-          return true;
-        }
-        
-        const ariaElement = Array.from(document.querySelectorAll('[aria-label]')).find(
-          el => el.getAttribute('aria-label').toLowerCase().includes('${element.toLowerCase()}')
-        );
-        
-        if (ariaElement) {
-          const originalBackground = ariaElement.style.backgroundColor;
-          const originalTransition = ariaElement.style.transition;
-          ariaElement.style.transition = 'background-color 0.3s';
-          ariaElement.style.backgroundColor = '#ffcc00';
-          
-          setTimeout(() => {
-            ariaElement.style.backgroundColor = originalBackground;
-            ariaElement.style.transition = originalTransition;
-            ariaElement.click();
-          }, 300);
-          
-          window.ReactNativeWebView.postMessage(JSON.stringify({
-            type: 'elementFound',
-            text: ariaElement.innerText || ariaElement.getAttribute('aria-label') || 'element',
-            tagName: ariaElement.tagName
-          }));
-          return true;
+    let steps: CommandIntent[];
+    try {
+      steps = applyMacroParameters(macro.steps, values);
+    } catch (error) {
+      const example = getMacroParameters(macro.steps).map(param => `${param}=...`).join(' ');
+      addHistoryItem(`${describeError(error)}. Try "run macro ${macro.name} with ${example}"`);
+      addStatusUpdate(`Error: ${describeError(error)}`);
+      return false;
+    }
+    
+    const run: MacroRun = {
+      name: macro.name,
+      steps: steps.map(step => ({ explanation: generateExplanation(step), status: 'pending' })),
+    };
+    const setStepStatus = (index: number, status: MacroRun['steps'][number]['status']) => {
+      run.steps = run.steps.map((step, stepIndex) => (stepIndex === index ? { ...step, status } : step));
+      setMacroRun({ ...run });
+    };
+    setMacroRun({ ...run });
+    addStatusUpdate(`Replaying macro "${macro.name}" (${steps.length} steps)`);
+    
+    for (let index = 0; index < steps.length; index++) {
+      const step = steps[index];
+      setStepStatus(index, 'running');
+      addStatusUpdate(`Macro step ${index + 1}/${steps.length}: ${run.steps[index].explanation}`);
+      
+      const succeeded = await executeIntent({ ...step, explanation: run.steps[index].explanation });
+      setStepStatus(index, succeeded ? 'done' : 'failed');
+      
+      if (!succeeded) {
+        for (let rest = index + 1; rest < steps.length; rest++) {
+          setStepStatus(rest, 'skipped');
         }
-        
-        window.ReactNativeWebView.postMessage(JSON.stringify({
-          type: 'elementNotFound',
-          searchText: '${element}'
-        }));
+        addStatusUpdate(`Error: Macro step ${index + 1} failed, stopping "${macro.name}"`);
+        addHistoryItem(`Macro "${macro.name}" stopped at step ${index + 1} of ${steps.length}`);
         return false;
-      })();
-    `;
+      }
+    }
     
-    webViewRef.current?.injectJavaScript(script);
-    addHistoryItem(`Attempting to click "${element}"`);
+    addHistoryItem(`Macro "${macro.name}" completed ${steps.length} step(s)`);
+    addStatusUpdate(`Macro "${macro.name}" completed`);
+    return true;
   };
 
-  const typeText = (text: string) => {
-    addStatusUpdate(`Preparing to type text: "${text}"`);
+  // Run a macro picked on the macro screen
+  const runMacroFromScreen = async (macro: Macro, values: Record<string, string>) => {
+    setShowMacroScreen(false);
+    if (isProcessing) return;
     
-    const script = `
-      (function() {
-        const input = document.querySelector('input:focus');
-        if (input) {
-          const originalValue = input.value;
-          input.value = '${text.replace(/'/g, "\\'")}';
-          const event = new Event('input', { bubbles: true });
-          input.dispatchEvent(event);
-          
-          window.ReactNativeWebView.postMessage(JSON.stringify({
-            type: 'textTyped',
-            element: input.name || input.id || 'input field',
-            text: '${text.replace(/'/g, "\\'")}'
-          }));
-          return true;
-        }
-        
-        window.ReactNativeWebView.postMessage(JSON.stringify({
-          type: 'noInputFocused'
-        }));
-        return false;
-      })();
-    `;
+    addHistoryItem(`> run macro ${macro.name}`);
+    addStatusUpdate(`Received command: "run macro ${macro.name}"`);
+    setIsProcessing(true);
+    try {
+      await runMacro(macro.name, values);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const listMacros = () => {
+    const macros = getMacros();
+    if (macros.length === 0) {
+      addHistoryItem('No macros yet. Say "record macro [name]" to create one.');
+      return true;
+    }
+    
+    addHistoryItem('Saved macros:');
+    macros.forEach(macro => {
+      const parameters = getMacroParameters(macro.steps);
+      addHistoryItem(`- ${macro.name} (${macro.steps.length} steps${parameters.length ? `, needs ${parameters.map(param => `{${param}}`).join(' ')}` : ''})`);
+    });
+    return true;
+  };
+
+  // Bookmark the active tab's page, named after its title unless a name is given
+  const addBookmark = async (name?: string) => {
+    const tab = getTab(activeTabIdRef.current);
+    if (!tab) return false;
+    
+    const bookmarkName = (name || getTabLabel(tab)).trim();
+    const replaced = findBookmark(bookmarkName);
+    try {
+      await saveBookmark(bookmarkName, tab.currentUrl, tab.title);
+    } catch (error) {
+      addHistoryItem(`Could not save the bookmark: ${describeError(error)}`);
+      addStatusUpdate(`Error: ${describeError(error)}`);
+      return false;
+    }
+    
+    addHistoryItem(`${replaced ? 'Updated' : 'Saved'} bookmark "${bookmarkName}". Say "open ${bookmarkName}" to come back.`);
+    addStatusUpdate(`Bookmarked ${tab.currentUrl} as "${bookmarkName}"`);
+    return true;
+  };
+
+  const listBookmarks = () => {
+    const bookmarks = getBookmarks();
+    if (bookmarks.length === 0) {
+      addHistoryItem('No bookmarks yet. Say "bookmark this page as [name]" to add one.');
+      return true;
+    }
+    
+    addHistoryItem('Bookmarks:');
+    bookmarks.forEach(bookmark => addHistoryItem(`- ${bookmark.name}: ${bookmark.url}`));
+    return true;
+  };
+
+  const removeBookmark = async (name: string) => {
+    const bookmark = findBookmark(name);
+    if (!bookmark) {
+      addHistoryItem(`No bookmark named "${name}". Say "list bookmarks" to see them.`);
+      addStatusUpdate(`Error: Bookmark "${name}" not found`);
+      return false;
+    }
+    
+    await deleteBookmark(bookmark.id);
+    addHistoryItem(`Deleted bookmark "${bookmark.name}"`);
+    addStatusUpdate(`Deleted bookmark "${bookmark.name}" (${bookmark.url})`);
+    return true;
+  };
+
+  // Open a bookmark picked on the bookmarks screen
+  const openBookmarkFromScreen = async (bookmark: Bookmark) => {
+    setShowBookmarkScreen(false);
+    if (isProcessing) return;
+    
+    addHistoryItem(`> open ${bookmark.name}`);
+    addStatusUpdate(`Received command: "open ${bookmark.name}"`);
+    const intent: CommandIntent = { type: 'navigation', action: 'navigate', url: bookmark.url, target: bookmark.name, confidence: 1 };
+    setIsProcessing(true);
+    try {
+      await executeIntent({ ...intent, explanation: generateExplanation(intent) });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Load a URL in the active tab and resolve once the page finishes loading
+  const loadUrl = (nextUrl: string) => {
+    const tabId = activeTabIdRef.current;
+    const loaded = waitForPageLoad(tabId);
+    
+    if (nextUrl === getTab(tabId)?.url) {
+      // Setting the same source again does not trigger a load
+      getWebView()?.injectJavaScript(`window.location.assign(${JSON.stringify(nextUrl)}); true;`);
+    } else {
+      updateTab(tabId, () => ({ url: nextUrl }));
+    }
     
-    webViewRef.current?.injectJavaScript(script);
-    addHistoryItem(`Typing "${text}"`);
+    return loaded;
+  };
+
+  // Keep the latest extraction. A goal or script only gets a hint; a typed
+  // command opens the sheet once all of its steps have run.
+  const showExtractedTable = (table: DataTable) => {
+    setExtractedTable(table);
+    if (runAbortRef.current) {
+      addHistoryItem('Open the grid button to view and export the extracted rows.');
+    } else if (planRunningRef.current) {
+      pendingSheetRef.current = true;
+    } else {
+      setShowDataSheet(true);
+    }
+  };
+
+  // Run a history action and resolve once the resulting page loads
+  const navigateHistory = (action: () => void) => {
+    const loaded = waitForPageLoad();
+    action();
+    return loaded;
   };
 
+  const intentExecutor = createIntentExecutor({
+    callInPage: (name, args, timeoutMs) => getBridge().callInPage(name, args, timeoutMs),
+    loadUrl,
+    goBack: () => navigateHistory(() => getWebView()?.goBack()),
+    goForward: () => navigateHistory(() => getWebView()?.goForward()),
+    reload: () => navigateHistory(() => getWebView()?.reload()),
+    refreshSnapshot: () => refreshSnapshot(),
+    addStatusUpdate,
+    addHistoryItem,
+    handleSystemIntent,
+    handleTabIntent,
+    chooseElement,
+    waitTimeoutMs: getSettings().waitTimeoutMs,
+    onDataExtracted: showExtractedTable,
+    summarizer: createPageSummarizer(getSettings().llm),
+    searchSettings: getSettings().search,
+    siteAliases: getSettings().siteAliases,
+  });
+
+  const describeError = (error: unknown) => error instanceof Error ? error.message : String(error);
+
   const showHelp = () => {
     addStatusUpdate('Displaying help information');
     
@@ -289,16 +891,51 @@ export default function WebAgent({ theme }: WebAgentProps) {
       '- "Go back" or "Return to previous page"',
       '- "Refresh the page" or "Reload"',
       '- "Click on login" or "Press the submit button"',
-      '- "Type hello world" or "Enter my email address"',
+      '- "Type hello world" or "Type john@example.com into the email field"',
+      '- "Scroll down" or "Scroll to the pricing section"',
+      '- "Press enter" or "Hover over the menu"',
+      '- "Choose Canada in the country dropdown"',
+      '- "Wait until \'Order confirmed\' appears" or "Wait for the page to load"',
+      '- "Check that the price is under $50" or "Check that the page says In stock"',
+      '- "Extract all product names and prices on this page" or "Get the table of results"',
+      '- "Summarize this page" or "Read this article"',
+      '- "Open amazon.com in a new tab", "Switch to tab 2" or "Close this tab"',
+      '- "Go to github.com then search for expo and click the first result"',
+      '- "goal: find the cheapest flight to Tokyo on kayak.com"',
+      '- "Record macro daily report", then your commands, then "stop recording"',
       '',
       'You can also use these specific commands:',
-      '- go to [website]: Navigate to a website',
-      '- search [query]: Search Google for query',
+      '- go to [website]: Open an address, a site name such as Twitter, or a shortcut from settings',
+      '- search [query]: Search the web with the engine chosen in settings',
+      '- search [site] for [query]: Search a site such as Wikipedia or Amazon (add more in settings)',
       '- back: Go back to previous page',
       '- forward: Go forward to next page',
       '- reload/refresh: Reload current page',
       '- click [element]: Click on an element with matching text',
-      '- type [text]: Type text into focused input field',
+      '- click [number] / type [text] into [number]: Use the numbers from the keypad button',
+      '  (if several elements match, they are numbered on the page and I ask which one)',
+      '- type [text]: Type text into the focused or first text field (quote text that reads like a command: type \'go back\')',
+      '- type [text] into [field]: Type into a field by its label or placeholder',
+      '- scroll [up/down/to section]: Scroll the page',
+      '- hover [element]: Move the pointer over an element',
+      '- press [key]: Press a key such as enter, tab or escape',
+      '- choose [option] in [dropdown]: Pick a dropdown option',
+      '- wait until [text] appears/disappears (within [n] seconds): Wait for the page to change',
+      '- wait for the page to load / wait [n] seconds: Wait for loading to settle, or pause',
+      '- check that [text] is shown / the [value] is under [amount]: Pass or fail a check',
+      '- extract [what]: Pull a table, list or repeated cards into a sheet you can export as CSV or JSON',
+      '- summarize / read this page: Summarize the main article, or show its text (tap links to open them)',
+      '- open [website] in a new tab / switch to tab [n] / close this tab / list tabs: Work with tabs',
+      '  (each tab has its own back/forward history and status log; links that open new windows become tabs)',
+      '- goal: [goal]: Let the agent plan and take steps until the goal is reached',
+      '  (or tap the flag to enter goals; tap stop to cancel)',
+      '- record macro [name] / stop recording: Save the commands in between as a macro',
+      '- run macro [name] with key=value: Replay a macro, filling {key} placeholders',
+      '- list macros: Show saved macros (edit them from the macro button)',
+      '- bookmark this page as [name] / open [name]: Save the page under a name and come back to it',
+      '- list bookmarks / delete bookmark [name]: Manage bookmarks (import or export them from the bookmark button)',
+      '- Scripts: write, import or export step-by-step scripts from the script button',
+      '- Tap "that\'s wrong" under a command to tell me what it meant; I\'ll remember it (export corrections in settings)',
       '- help: Show this help message'
     ];
     
@@ -306,39 +943,224 @@ export default function WebAgent({ theme }: WebAgentProps) {
     addStatusUpdate('Help information displayed successfully');
   };
 
-  const handleWebViewMessage = (event: any) => {
+  // Remember what a command should have meant, for it and similar commands
+  // Each step of a chained command is corrected on its own words, so the
+  // other steps still run
+  const saveCorrection = async (command: string, clause: string, intent: CommandIntent) => {
+    setCorrectingCommand(null);
     try {
-      const data = JSON.parse(event.nativeEvent.data);
-      
-      switch (data.type) {
-        case 'elementFound':
-          addStatusUpdate(`Found element: <${data.tagName.toLowerCase()}> with text "${data.text}"`);
-          addStatusUpdate(`Clicking on element...`);
-          break;
-        case 'elementNotFound':
-          addStatusUpdate(`Error: Could not find any element containing "${data.searchText}"`);
-          break;
-        case 'textTyped':
-          addStatusUpdate(`Text entered into ${data.element}`);
-          break;
-        case 'noInputFocused':
-          addStatusUpdate(`Error: No input field is currently focused`);
-          break;
-      }
+      await saveExample(clause, intent);
+      // The cache would otherwise keep answering with the wrong parse
+      await deleteCacheEntry(getCacheKey(command));
+      await deleteCacheEntry(getCacheKey(clause));
+      parsedCommandsRef.current[command] = (parsedCommandsRef.current[command] || [])
+        .map(step => (step.clause === clause ? { clause, intent } : step));
+      addHistoryItem(`Got it. Next time "${clause}" means: ${generateExplanation(intent)}`);
+      addStatusUpdate(`Saved a correction for "${clause}"`);
     } catch (error) {
-      console.log('Error parsing WebView message:', error);
+      addStatusUpdate(`Error saving correction: ${error instanceof Error ? error.message : error}`);
     }
   };
 
-  if (showFullStatusScreen) {
-    return (
-      <AgentStatusScreen 
-        theme={theme}
-        statusUpdates={statusUpdates}
-        onClose={() => setShowFullStatusScreen(false)}
-      />
+  // Links in history items (summary sources, article links) open when tapped
+  const renderHistoryText = (item: string) =>
+    item.split(/(https?:\/\/\S+)/).map((part, index) =>
+      index % 2 === 1 ? (
+        <Text key={index} style={[styles.historyLink, { color: accentColor }]} onPress={() => loadUrl(part)}>
+          {part}
+        </Text>
+      ) : (
+        part
+      )
     );
-  }
+
+  const refreshSnapshot = async (): Promise<PageSnapshot | null> => {
+    try {
+      const snapshot = await getBridge().callInPage<PageSnapshot>('takePageSnapshot');
+      setPageSnapshot(snapshot);
+      addStatusUpdate(`Page snapshot: ${snapshot.elements.length} interactive elements`);
+      drawMarks(snapshot);
+      return snapshot;
+    } catch (error) {
+      addStatusUpdate(`Error taking page snapshot: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  };
+
+  // Number every visible element with its snapshot id, so "click 7" and
+  // "type hello into 12" refer to what the user sees
+  const drawMarks = async (snapshot: PageSnapshot) => {
+    // Leave the numbers of an open element choice alone
+    if (!marksModeRef.current || choiceRef.current) return;
+    
+    try {
+      const marks = snapshot.elements
+        .filter(element => element.visible)
+        .map(element => ({ id: element.id, label: element.id }));
+      await getBridge().callInPage('showMarks', [marks]);
+    } catch (error) {
+      addStatusUpdate(`Error drawing element numbers: ${describeError(error)}`);
+    }
+  };
+
+  // Redraw when the page changes and not only after navigation
+  const watchPageChanges = (enabled: boolean) =>
+    getBridge().callInPage('watchPageChanges', [enabled, PAGE_CHANGED_MESSAGE]).catch(error => {
+      addStatusUpdate(`Error watching the page for changes: ${describeError(error)}`);
+    });
+
+  const toggleMarks = async () => {
+    const enabled = !marksModeRef.current;
+    marksModeRef.current = enabled;
+    setIsMarksMode(enabled);
+    addStatusUpdate(enabled ? 'Showing element numbers' : 'Hiding element numbers');
+    
+    await watchPageChanges(enabled);
+    if (enabled) {
+      addHistoryItem('Elements are numbered. Say "click 7" or "type hello into 12".');
+      await refreshSnapshot();
+    } else {
+      getBridge().callInPage('clearMarks').catch(() => undefined);
+    }
+  };
+
+  const handleWebViewMessage = (tabId: string, event: WebViewMessageEvent) => {
+    const message = parsePageMessage(event.nativeEvent.data);
+    
+    if (!message) {
+      console.log('Ignoring unrecognized WebView message:', event.nativeEvent.data);
+      return;
+    }
+    
+    if (message.type === 'pageChanged') {
+      if (marksModeRef.current && tabId === activeTabIdRef.current) {
+        refreshSnapshot();
+      }
+      return;
+    }
+    
+    getBridge(tabId).handleMessage(message);
+  };
+
+  const handleLoadStart = (tabId: string) => {
+    updateTab(tabId, () => ({ isLoading: true }));
+    getBridge(tabId).cancelAll('Page navigated before answering');
+    if (tabId === activeTabIdRef.current) {
+      setPageSnapshot(null);
+      cancelChoice('Page changed while waiting for an element choice');
+    }
+    addTabStatus(tabId, `Loading started: ${getTab(tabId)?.url}`);
+  };
+
+  const handleLoadEnd = (tabId: string) => {
+    updateTab(tabId, () => ({ isLoading: false }));
+    addTabStatus(tabId, `Page loaded successfully: ${getTab(tabId)?.currentUrl}`);
+    if (tabId === activeTabIdRef.current) {
+      if (marksModeRef.current) {
+        watchPageChanges(true);
+      }
+      refreshSnapshot();
+    }
+    settlePageLoad(tabId, true);
+  };
+
+  // Links with target="_blank" and window.open() open as new tabs
+  const handleOpenWindow = (tabId: string, targetUrl: string) => {
+    addTabStatus(tabId, `Page opened ${targetUrl} in a new window`);
+    openTab(targetUrl);
+  };
+
+  // Full-screen views open as modals over the browser, so every tab's
+  // WebView stays mounted and a macro or script keeps running underneath
+  const closeScreens = () => {
+    setShowFullStatusScreen(false);
+    setShowScriptScreen(false);
+    setShowDataSheet(false);
+    setShowMacroScreen(false);
+    setShowBookmarkScreen(false);
+    setCorrectingCommand(null);
+    setShowSettingsScreen(false);
+  };
+
+  const renderScreen = () => {
+    if (showFullStatusScreen) {
+      return (
+        <AgentStatusScreen 
+          theme={theme}
+          statusUpdates={statusUpdates}
+          macroRun={macroRun}
+          onClose={() => setShowFullStatusScreen(false)}
+        />
+      );
+    }
+
+    if (showScriptScreen) {
+      return (
+        <ScriptScreen 
+          theme={theme}
+          source={scriptSource}
+          onChangeSource={setScriptSource}
+          onClose={() => setShowScriptScreen(false)}
+          onRun={runScript}
+        />
+      );
+    }
+
+    if (showDataSheet && extractedTable) {
+      return (
+        <DataSheetScreen 
+          theme={theme}
+          table={extractedTable}
+          onClose={() => setShowDataSheet(false)}
+        />
+      );
+    }
+
+    if (showMacroScreen) {
+      return (
+        <MacroScreen 
+          theme={theme}
+          onClose={() => setShowMacroScreen(false)}
+          onRun={runMacroFromScreen}
+        />
+      );
+    }
+
+    if (showBookmarkScreen) {
+      return (
+        <BookmarkScreen 
+          theme={theme}
+          onClose={() => setShowBookmarkScreen(false)}
+          onOpen={openBookmarkFromScreen}
+        />
+      );
+    }
+
+    if (correctingCommand !== null && parsedCommandsRef.current[correctingCommand]) {
+      return (
+        <CorrectionScreen 
+          theme={theme}
+          input={correctingCommand}
+          steps={parsedCommandsRef.current[correctingCommand]}
+          onClose={() => setCorrectingCommand(null)}
+          onSave={(clause, intent) => saveCorrection(correctingCommand, clause, intent)}
+        />
+      );
+    }
+
+    if (showSettingsScreen) {
+      return (
+        <AgentSettingsScreen 
+          theme={theme}
+          onClose={() => setShowSettingsScreen(false)}
+        />
+      );
+    }
+
+    return null;
+  };
+
+  const screen = renderScreen();
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor }]}>
@@ -363,14 +1185,99 @@ export default function WebAgent({ theme }: WebAgentProps) {
           >
             <Ionicons name="analytics-outline" size={16} color="#fff" />
           </TouchableOpacity>
+          
+          <TouchableOpacity 
+            style={[
+              styles.fullStatusButton, 
+              styles.headerIconButton, 
+              isMarksMode 
+                ? { backgroundColor: '#fff', borderWidth: 1, borderColor: accentColor } 
+                : { backgroundColor: accentColor }
+            ]}
+            onPress={toggleMarks}
+          >
+            <Ionicons name={isMarksMode ? 'keypad' : 'keypad-outline'} size={16} color={isMarksMode ? accentColor : '#fff'} />
+          </TouchableOpacity>
+          
+          {extractedTable && (
+            <TouchableOpacity 
+              style={[styles.fullStatusButton, styles.headerIconButton, { backgroundColor: accentColor }]}
+              onPress={() => setShowDataSheet(true)}
+            >
+              <Ionicons name="grid-outline" size={16} color="#fff" />
+            </TouchableOpacity>
+          )}
+          
+          <TouchableOpacity 
+            style={[
+              styles.fullStatusButton, 
+              styles.headerIconButton, 
+              { backgroundColor: recordingMacro ? '#ff4d4d' : accentColor }
+            ]}
+            onPress={() => setShowMacroScreen(true)}
+          >
+            <Ionicons name={recordingMacro ? 'radio-button-on' : 'albums-outline'} size={16} color="#fff" />
+          </TouchableOpacity>
+          
+          <TouchableOpacity 
+            style={[styles.fullStatusButton, styles.headerIconButton, { backgroundColor: accentColor }]}
+            onPress={() => setShowBookmarkScreen(true)}
+          >
+            <Ionicons name="bookmark-outline" size={16} color="#fff" />
+          </TouchableOpacity>
+          
+          <TouchableOpacity 
+            style={[styles.fullStatusButton, styles.headerIconButton, { backgroundColor: accentColor }]}
+            onPress={() => setShowScriptScreen(true)}
+          >
+            <Ionicons name="document-text-outline" size={16} color="#fff" />
+          </TouchableOpacity>
+          
+          <TouchableOpacity 
+            style={[styles.fullStatusButton, styles.headerIconButton, { backgroundColor: accentColor }]}
+            onPress={() => setShowSettingsScreen(true)}
+          >
+            <Ionicons name="settings-outline" size={16} color="#fff" />
+          </TouchableOpacity>
         </View>
       </View>
       
+      <View style={[styles.tabStrip, { borderBottomColor: borderColor }]}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.tabStripContent}>
+          {tabs.map((tab, index) => {
+            const isActive = tab.id === activeTab.id;
+            return (
+              <TouchableOpacity 
+                key={tab.id}
+                style={[
+                  styles.tabChip, 
+                  { borderColor: isActive ? accentColor : borderColor, backgroundColor: isActive ? inputBgColor : 'transparent' }
+                ]}
+                onPress={() => showTab(tab.id)}
+              >
+                {tab.isLoading && <ActivityIndicator size="small" color={accentColor} style={styles.tabSpinner} />}
+                <Text style={[styles.tabLabel, { color: textColor }]} numberOfLines={1}>
+                  {index + 1}. {getTabLabel(tab)}
+                </Text>
+                {tabs.length > 1 && (
+                  <TouchableOpacity onPress={() => closeTab(String(index + 1))} style={styles.tabClose}>
+                    <Ionicons name="close" size={14} color={isDark ? '#aaa' : '#666'} />
+                  </TouchableOpacity>
+                )}
+              </TouchableOpacity>
+            );
+          })}
+          <TouchableOpacity style={styles.newTabButton} onPress={() => openTab()}>
+            <Ionicons name="add" size={20} color={accentColor} />
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+      
       {showStatusPanel && (
         <View style={[styles.statusContainer, { backgroundColor: statusBgColor, borderColor }]}>
           <View style={styles.statusHeader}>
             <Text style={[styles.statusTitle, { color: textColor }]}>
-              Agent Status Updates
+              Agent Status Updates{tabs.length > 1 ? ` (tab ${activeTabIndex + 1})` : ''}
             </Text>
             <TouchableOpacity onPress={() => setShowFullStatusScreen(true)}>
               <Text style={[styles.viewFullButton, { color: accentColor }]}>
@@ -402,37 +1309,49 @@ export default function WebAgent({ theme }: WebAgentProps) {
         styles.webViewContainer, 
         { flex: showStatusPanel ? 0.4 : 1 }
       ]}>
-        {isLoading && (
+        {activeTab.isLoading && (
           <ActivityIndicator 
             style={styles.loader} 
             size="large" 
             color={accentColor} 
           />
         )}
-        <WebView
-          ref={webViewRef}
-          source={{ uri: url }}
-          style={styles.webView}
-          onLoadStart={() => {
-            setIsLoading(true);
-            addStatusUpdate(`Loading started: ${url}`);
-          }}
-          onLoadEnd={() => {
-            setIsLoading(false);
-            addStatusUpdate(`Page loaded successfully: ${currentUrl}`);
-          }}
-          onError={(syntheticEvent) => {
-            const { nativeEvent } = syntheticEvent;
-            addStatusUpdate(`Error loading page: ${nativeEvent.description}`);
-          }}
-          onNavigationStateChange={(navState) => {
-            if (navState.url !== currentUrl) {
-              addStatusUpdate(`Navigation state changed to: ${navState.url}`);
-              setCurrentUrl(navState.url);
-            }
-          }}
-          onMessage={handleWebViewMessage}
-        />
+        {/* Every tab keeps its WebView mounted, even under a full-screen view,
+            so it keeps its page and history. Its source is only set when the
+            agent loads a URL; currentUrl follows where the page has got to. */}
+        {tabs.map(tab => (
+          <View 
+            key={tab.id}
+            style={[StyleSheet.absoluteFill, tab.id !== activeTab.id && styles.hiddenTab]}
+            pointerEvents={tab.id === activeTab.id ? 'auto' : 'none'}
+          >
+            <WebView
+              ref={ref => {
+                webViewRefs.current[tab.id] = ref;
+              }}
+              source={{ uri: tab.url }}
+              style={styles.webView}
+              onLoadStart={() => handleLoadStart(tab.id)}
+              onLoadEnd={() => handleLoadEnd(tab.id)}
+              onError={(syntheticEvent) => {
+                const { nativeEvent } = syntheticEvent;
+                addTabStatus(tab.id, `Error loading page: ${nativeEvent.description}`);
+                settlePageLoad(tab.id, false);
+              }}
+              onNavigationStateChange={(navState) => {
+                const known = getTab(tab.id);
+                if (navState.url !== known?.currentUrl) {
+                  addTabStatus(tab.id, `Navigation state changed to: ${navState.url}`);
+                }
+                if (navState.url !== known?.currentUrl || (navState.title && navState.title !== known?.title)) {
+                  updateTab(tab.id, () => ({ currentUrl: navState.url, title: navState.title || '' }));
+                }
+              }}
+              onOpenWindow={(event) => handleOpenWindow(tab.id, event.nativeEvent.targetUrl)}
+              onMessage={(event) => handleWebViewMessage(tab.id, event)}
+            />
+          </View>
+        ))}
       </View>
       
       <View style={[styles.controlsContainer, { backgroundColor }]}>
@@ -441,17 +1360,41 @@ export default function WebAgent({ theme }: WebAgentProps) {
           style={[styles.historyContainer, { backgroundColor: inputBgColor, borderColor }]}
           contentContainerStyle={styles.historyContent}
         >
-          {history.map((item, index) => (
-            <Text key={index} style={[styles.historyItem, { color: textColor }]}>
-              {item}
-            </Text>
-          ))}
+          {history.map((item, index) => {
+            const parsedCommand = item.startsWith('> ') ? item.slice(2) : null;
+            return (
+              <Text key={index} style={[styles.historyItem, { color: textColor }]}>
+                {renderHistoryText(item)}
+                {parsedCommand !== null && parsedCommandsRef.current[parsedCommand] && (
+                  <Text
+                    style={[styles.correctionLink, { color: isDark ? '#aaa' : '#666' }]}
+                    onPress={() => setCorrectingCommand(parsedCommand)}
+                  >
+                    {'  '}that's wrong
+                  </Text>
+                )}
+              </Text>
+            );
+          })}
         </ScrollView>
         
         <KeyboardAvoidingView
           behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
           style={styles.inputContainer}
         >
+          <TouchableOpacity 
+            style={[
+              styles.goalButton, 
+              { 
+                borderColor: accentColor,
+                backgroundColor: isGoalMode ? accentColor : 'transparent'
+              }
+            ]} 
+            onPress={() => setIsGoalMode(prev => !prev)}
+            disabled={isProcessing}
+          >
+            <Ionicons name={isGoalMode ? 'flag' : 'flag-outline'} size={18} color={isGoalMode ? '#fff' : accentColor} />
+          </TouchableOpacity>
           <TextInput
             style={[
               styles.input, 
@@ -461,25 +1404,31 @@ export default function WebAgent({ theme }: WebAgentProps) {
                 borderColor
               }
             ]}
-            placeholder="Enter command in natural language..."
+            placeholder={isChoosing
+              ? 'Which one? Enter a number or "cancel"...'
+              : isGoalMode ? 'Describe a goal for the agent...' : 'Enter command in natural language...'}
             placeholderTextColor={isDark ? '#aaa' : '#999'}
             value={command}
             onChangeText={setCommand}
             onSubmitEditing={executeCommand}
-            editable={!isProcessing}
+            editable={!isProcessing || isChoosing}
           />
           <TouchableOpacity 
             style={[
               styles.sendButton, 
               { 
                 backgroundColor: accentColor,
-                opacity: isProcessing ? 0.7 : 1 
+                opacity: isProcessing && !isStoppable && !isChoosing ? 0.7 : 1 
               }
             ]} 
-            onPress={executeCommand}
-            disabled={isProcessing}
+            onPress={isStoppable && !isChoosing ? stopRun : executeCommand}
+            disabled={isProcessing && !isStoppable && !isChoosing}
           >
-            {isProcessing ? (
+            {isChoosing ? (
+              <Ionicons name="send" size={20} color="#fff" />
+            ) : isStoppable ? (
+              <Ionicons name="stop" size={20} color="#fff" />
+            ) : isProcessing ? (
               <ActivityIndicator size="small" color="#fff" />
             ) : (
               <Ionicons name="send" size={20} color="#fff" />
@@ -487,6 +1436,10 @@ export default function WebAgent({ theme }: WebAgentProps) {
           </TouchableOpacity>
         </KeyboardAvoidingView>
       </View>
+      
+      <Modal visible={screen !== null} animationType="slide" onRequestClose={closeScreens}>
+        {screen}
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -528,6 +1481,9 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  headerIconButton: {
+    marginLeft: 5,
+  },
   statusToggleText: {
     color: '#fff',
     fontSize: 12,
@@ -578,6 +1534,44 @@ const styles = StyleSheet.create({
   webView: {
     flex: 1,
   },
+  hiddenTab: {
+    opacity: 0,
+    zIndex: -1,
+  },
+  tabStrip: {
+    borderBottomWidth: 1,
+  },
+  tabStripContent: {
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    alignItems: 'center',
+  },
+  tabChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    maxWidth: 180,
+    borderWidth: 1,
+    borderRadius: 15,
+    paddingVertical: 4,
+    paddingLeft: 10,
+    paddingRight: 6,
+    marginRight: 6,
+  },
+  tabSpinner: {
+    marginRight: 4,
+    transform: [{ scale: 0.7 }],
+  },
+  tabLabel: {
+    fontSize: 12,
+    flexShrink: 1,
+  },
+  tabClose: {
+    marginLeft: 4,
+    padding: 2,
+  },
+  newTabButton: {
+    padding: 4,
+  },
   loader: {
     position: 'absolute',
     top: '50%',
@@ -605,6 +1599,13 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginBottom: 4,
   },
+  historyLink: {
+    textDecorationLine: 'underline',
+  },
+  correctionLink: {
+    fontSize: 11,
+    textDecorationLine: 'underline',
+  },
   inputContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -617,6 +1618,15 @@ const styles = StyleSheet.create({
     paddingHorizontal: 15,
     marginRight: 10,
   },
+  goalButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
   sendButton: {
     width: 40,
     height: 40,
@@ -0,0 +1,30 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { resolveFixturePath } from '../headlessBrowser';
+
+describe('resolveFixturePath', () => {
+  let parent: string;
+  let root: string;
+
+  beforeAll(() => {
+    parent = fs.mkdtempSync(path.join(os.tmpdir(), 'fixtures-'));
+    root = path.join(parent, 'shop');
+    fs.mkdirSync(root);
+    fs.mkdirSync(path.join(parent, 'shop-evil'));
+    fs.writeFileSync(path.join(root, 'index.html'), '<p>Shop</p>');
+    fs.writeFileSync(path.join(parent, 'shop-evil', 'secret.html'), '<p>Secret</p>');
+    fs.writeFileSync(path.join(parent, 'shop.html'), '<p>Sibling</p>');
+  });
+
+  afterAll(() => fs.rmSync(parent, { recursive: true, force: true }));
+
+  it('serves files inside the fixture directory', () => {
+    expect(resolveFixturePath(root, 'http://shop.test/')).toBe(path.join(root, 'index.html'));
+  });
+
+  it('refuses files in sibling directories that share its prefix', () => {
+    expect(resolveFixturePath(root, 'http://shop.test/..%2Fshop-evil%2Fsecret')).toBeNull();
+    expect(resolveFixturePath(root, 'http://shop.test/%2E%2E/shop-evil/secret.html')).toBeNull();
+  });
+});
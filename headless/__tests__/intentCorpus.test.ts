@@ -0,0 +1,83 @@
+// Runs the built-in parser over the labeled corpus. A case that used to
+// parse correctly and no longer does fails the test; known misparses are
+// allowed, but one that starts passing must have its "known" note removed
+// so it is guarded from then on.
+
+import { evaluateCorpus, loadCorpus } from '../evaluateIntents';
+import { evaluateParser, formatEvaluationReport, intentLabel } from '../../utils/intentEvaluation';
+import { CommandIntent } from '../../utils/nlpProcessor';
+import { MIN_EXECUTION_CONFIDENCE } from '../../utils/intentSchema';
+
+describe('intent corpus', () => {
+  it('parses every case that is not a known misparse', async () => {
+    const report = await evaluateCorpus();
+    if (report.regressions.length > 0 || report.fixed.length > 0) {
+      console.log(formatEvaluationReport(report));
+    }
+
+    expect(report.regressions.map(item => item.input)).toEqual([]);
+    expect(report.fixed.map(item => item.input)).toEqual([]);
+    expect(report.notExecutable.filter(item => !item.known).map(item => item.input)).toEqual([]);
+  });
+
+  it('has valid, unique utterances', () => {
+    const examples = loadCorpus();
+    const inputs = examples.map(example => example.input.toLowerCase());
+
+    expect(examples.length).toBeGreaterThan(0);
+    expect(new Set(inputs).size).toBe(inputs.length);
+  });
+});
+
+describe('evaluateParser', () => {
+  const examples = [
+    { input: 'go back', expected: { type: 'navigation_control', action: 'back', confidence: 1 } },
+    { input: 'type back', expected: { type: 'interaction', action: 'type', text: 'back', confidence: 1 } },
+    { input: 'search for cats', expected: { type: 'search', action: 'search', query: 'cats', confidence: 1 } },
+  ];
+  const answers: Record<string, CommandIntent> = {
+    'go back': { type: 'navigation_control', action: 'back', confidence: 0.9 },
+    'type back': { type: 'navigation_control', action: 'back', confidence: 0.9 },
+    'search for cats': { type: 'search', action: 'search', query: 'dogs', confidence: 0.9 },
+  };
+
+  it('reports precision, recall and confusions per intent', async () => {
+    const report = await evaluateParser(examples, async input => answers[input]);
+    const back = report.perIntent.find(metrics => metrics.label === 'navigation_control:back');
+
+    expect(back).toMatchObject({ support: 1, predicted: 2, truePositives: 1, precision: 0.5, recall: 1 });
+    expect(report.confusion['interaction:type']).toEqual({ 'navigation_control:back': 1 });
+    expect(report.labelAccuracy).toBeCloseTo(2 / 3);
+    expect(report.accuracy).toBeCloseTo(1 / 3);
+  });
+
+  it('fails cases with the right intent but wrong fields', async () => {
+    const report = await evaluateParser(examples, async input => answers[input]);
+    const search = report.cases.find(item => item.input === 'search for cats');
+
+    expect(search).toMatchObject({ labelMatch: true, passed: false, wrongFields: ['query'] });
+    expect(report.regressions).toHaveLength(2);
+  });
+
+  it('fails a right parse that is too unsure to execute', async () => {
+    const report = await evaluateParser(examples.slice(0, 1), async () => ({
+      type: 'navigation_control',
+      action: 'back',
+      confidence: MIN_EXECUTION_CONFIDENCE - 0.1,
+    }));
+
+    expect(report.cases[0]).toMatchObject({ labelMatch: true, executable: false, passed: false });
+    expect(report.notExecutable.map(item => item.input)).toEqual(['go back']);
+    expect(report.regressions).toHaveLength(1);
+    expect(formatEvaluationReport(report)).toMatch(/below confidence/);
+  });
+
+  it('counts a parser error as a miss', async () => {
+    const report = await evaluateParser(examples.slice(0, 1), async () => {
+      throw new Error('timed out');
+    });
+
+    expect(report.cases[0]).toMatchObject({ error: 'timed out', passed: false });
+    expect(intentLabel(report.cases[0].actual)).toBe('error');
+  });
+});
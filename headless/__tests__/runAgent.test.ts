@@ -0,0 +1,54 @@
+// Runs agent scripts against the shop fixture, the same way the run-agent
+// CLI does.
+
+import * as path from 'path';
+import { runHeadlessAgent } from '../runAgent';
+
+const FIXTURES = path.join(__dirname, '..', 'fixtures');
+const SHOP = path.join(FIXTURES, 'shop');
+
+describe('runHeadlessAgent', () => {
+  it('runs the demo script against the shop fixture', async () => {
+    const result = await runHeadlessAgent({
+      scriptPath: path.join(FIXTURES, 'shop.agent.txt'),
+      fixtureDir: SHOP,
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.succeeded).toBe(true);
+    expect(result.failedLine).toBeUndefined();
+    expect(result.finalUrl).toMatch(/\/search\?q=teapot$/);
+    expect(result.tables.length).toBeGreaterThan(0);
+  }, 30000);
+
+  it('keeps going after a command extracts a table', async () => {
+    const result = await runHeadlessAgent({
+      script: 'extract all product names and prices on this page then click sign in\nwait for "Password" within 5s',
+      fixtureDir: SHOP,
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.succeeded).toBe(true);
+    expect(result.tables).toHaveLength(1);
+    expect(result.finalUrl).toMatch(/\/login/);
+  }, 30000);
+
+  it('fails on the line of an assertion that does not hold', async () => {
+    const result = await runHeadlessAgent({
+      script: [
+        'name: Failing assertion',
+        'assert "Products"',
+        '# the shop has no such text',
+        'assert "Free shipping on everything"',
+        'click sign in',
+      ].join('\n'),
+      fixtureDir: SHOP,
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.succeeded).toBe(false);
+    expect(result.failedLine).toBe(4);
+    expect(result.message).toMatch(/Free shipping on everything/);
+    expect(result.finalUrl).not.toMatch(/login/);
+  }, 30000);
+});
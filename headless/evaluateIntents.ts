@@ -0,0 +1,159 @@
+// Scores a command parser against the labeled utterance corpus in Node.
+// Used by the eval-intents CLI (scripts/eval-intents.js) and the corpus test.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { processNaturalLanguage } from '../utils/nlpProcessor';
+import { DEFAULT_LLM_CONFIG, DEFAULT_PROVIDER_URLS, LLMConfig, LLMProviderId, createLLMProvider } from '../utils/llmProviders';
+import { LabeledDataset, parseDataset } from '../utils/intentExamples';
+import { parseGrammar } from '../utils/commandGrammar';
+import { IntentParser, EvaluationReport, evaluateParser, formatEvaluationReport, intentLabel } from '../utils/intentEvaluation';
+
+export const DEFAULT_CORPUS_PATH = path.join(__dirname, 'fixtures', 'intent-corpus.json');
+
+/**
+ * Reads a labeled corpus, or a dataset exported from the app's corrections
+ * @param corpusPath Path to the JSON file
+ * @returns The labeled utterances
+ * @throws Error if the file is not a valid dataset
+ */
+export function loadCorpus(corpusPath: string = DEFAULT_CORPUS_PATH): LabeledDataset['examples'] {
+  return parseDataset(fs.readFileSync(corpusPath, 'utf8'));
+}
+
+/**
+ * The parser to evaluate for some LLM settings. Remote providers are called
+ * directly, without the regex fallback the app uses, so their failures count.
+ * @param config The provider settings
+ * @returns A parser, or null if a remote provider has no URL
+ */
+export function createCorpusParser(config: LLMConfig): IntentParser | null {
+  if (config.provider === 'regex') {
+    return processNaturalLanguage;
+  }
+  const provider = createLLMProvider(config);
+  return provider ? input => provider.parseCommand(input) : null;
+}
+
+/**
+ * Evaluates a provider against a corpus
+ * @param config The provider settings
+ * @param corpusPath Path to the corpus
+ * @returns The evaluation report
+ */
+export async function evaluateCorpus(
+  config: LLMConfig = DEFAULT_LLM_CONFIG,
+  corpusPath: string = DEFAULT_CORPUS_PATH
+): Promise<EvaluationReport> {
+  const parse = createCorpusParser(config);
+  if (!parse) {
+    throw new Error(`The ${config.provider} provider needs a URL`);
+  }
+  return evaluateParser(loadCorpus(corpusPath), parse);
+}
+
+/**
+ * Corpus utterances the built-in grammar can read in more than one way
+ * @param examples The labeled utterances
+ * @returns Each ambiguous input with its readings, the chosen one first
+ */
+export function findAmbiguousInputs(examples: LabeledDataset['examples']): Array<{ input: string; readings: string[] }> {
+  return examples
+    .map(({ input }) => ({ input, parse: parseGrammar(input) }))
+    .filter(({ parse }) => parse.ambiguous)
+    .map(({ input, parse }) => ({
+      input,
+      readings: Array.from(new Set(parse.candidates.map(candidate => intentLabel(candidate.intent)))),
+    }));
+}
+
+const PROVIDERS: LLMProviderId[] = ['regex', 'openai', 'ollama'];
+
+const USAGE = [
+  'Usage: eval-intents [--corpus <file>] [--provider regex|openai|ollama] [--url <base url>]',
+  '                    [--model <name>] [--api-key <key>] [--timeout <ms>] [--known] [--json]',
+  '',
+  `  --corpus    Labeled utterances (default ${path.relative(process.cwd(), DEFAULT_CORPUS_PATH)})`,
+  '  --provider  Parser to evaluate (default regex, the built-in parser)',
+  `  --url       Provider base URL (default ${DEFAULT_PROVIDER_URLS.openai} for openai, the mock server)`,
+  '  --model     Model name sent to the provider',
+  '  --api-key   API key sent to the provider',
+  `  --timeout   Per-request timeout in ms (default ${DEFAULT_LLM_CONFIG.timeoutMs})`,
+  '  --known     Also list the known misparses that still fail',
+  '  --json      Print the report as JSON',
+  '',
+  'For the regex provider, inputs its grammar can read more than one way are listed too.',
+].join('\n');
+
+/**
+ * CLI entry point
+ * @param argv Arguments after the script name
+ * @returns The process exit code: 0 when every case passes or is a known
+ * misparse, 1 on failures, 2 on bad usage
+ */
+export async function main(argv: string[]): Promise<number> {
+  const flags: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const match = argv[i].match(/^--([\w-]+)(?:=(.*))?$/);
+    if (!match) {
+      console.error(`Unexpected argument "${argv[i]}"\n\n${USAGE}`);
+      return 2;
+    }
+    const takesValue = ['corpus', 'provider', 'url', 'model', 'api-key', 'timeout'].includes(match[1]);
+    flags[match[1]] = match[2] ?? (takesValue ? argv[++i] ?? '' : true);
+  }
+
+  if (flags.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const corpusPath = typeof flags.corpus === 'string' ? flags.corpus : DEFAULT_CORPUS_PATH;
+  if (!fs.existsSync(corpusPath)) {
+    console.error(`Corpus not found: ${corpusPath}`);
+    return 2;
+  }
+
+  const provider = (typeof flags.provider === 'string' ? flags.provider : 'regex') as LLMProviderId;
+  if (!PROVIDERS.includes(provider)) {
+    console.error(`Unknown provider "${provider}"\n\n${USAGE}`);
+    return 2;
+  }
+
+  const timeoutMs = typeof flags.timeout === 'string' ? parseInt(flags.timeout, 10) : DEFAULT_LLM_CONFIG.timeoutMs;
+  if (!(timeoutMs > 0)) {
+    console.error(`Invalid timeout "${flags.timeout}"`);
+    return 2;
+  }
+
+  const config: LLMConfig = {
+    provider,
+    baseUrl: typeof flags.url === 'string' ? flags.url : DEFAULT_PROVIDER_URLS[provider],
+    model: typeof flags.model === 'string' ? flags.model : '',
+    ...(typeof flags['api-key'] === 'string' ? { apiKey: flags['api-key'] } : {}),
+    timeoutMs,
+  };
+
+  let report: EvaluationReport;
+  try {
+    report = await evaluateCorpus(config, corpusPath);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 2;
+  }
+
+  const ambiguous = provider === 'regex' ? findAmbiguousInputs(report.cases) : [];
+
+  if (flags.json) {
+    console.log(JSON.stringify({ ...report, ambiguous }, null, 2));
+  } else {
+    console.log(`Provider: ${provider}${config.baseUrl ? ` (${config.baseUrl})` : ''}`);
+    console.log(formatEvaluationReport(report, !!flags.known));
+    if (ambiguous.length > 0) {
+      console.log(`\nAmbiguous (${ambiguous.length}); quoting the text settles these:`);
+      ambiguous.forEach(({ input, readings }) => console.log(`  "${input}": ${readings.join(' or ')}`));
+    }
+  }
+
+  return report.regressions.length === 0 ? 0 : 1;
+}
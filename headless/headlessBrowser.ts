@@ -0,0 +1,322 @@
+// A stand-in for the app's WebView that runs in Node. Pages come from a
+// fixture directory on disk and are loaded into jsdom; page library calls
+// are evaluated in the jsdom window exactly as the WebView would run them.
+//
+// jsdom has no layout engine, so elements get a simple stacked layout
+// (one row per element in document order) and scrolling moves that stack.
+// That is enough for the visibility and viewport checks the page scripts do.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { JSDOM, VirtualConsole, DOMWindow } from 'jsdom';
+import { PageFunctionName } from '../utils/pageLibrary';
+import { buildPageInvocation } from '../utils/scriptBuilder';
+import { DEFAULT_CALL_TIMEOUT } from '../utils/webViewProtocol';
+
+// Pages that are not under a host folder in the fixture are served from here
+export const FIXTURE_ORIGIN = 'http://fixture.test';
+
+// Height of each element in the stand-in layout
+const ROW_HEIGHT = 24;
+const VIEWPORT = { width: 390, height: 844 };
+
+export interface HeadlessBrowserOptions {
+  fixtureDir: string;
+  // Called with messages the page logs and navigation notes
+  onLog?: (message: string) => void;
+}
+
+export interface HeadlessBrowser {
+  readonly url: string;
+  readonly window: DOMWindow | null;
+  loadUrl(url: string): Promise<boolean>;
+  goBack(): Promise<boolean>;
+  goForward(): Promise<boolean>;
+  reload(): Promise<boolean>;
+  callInPage<T = unknown>(name: PageFunctionName, args?: unknown[], timeoutMs?: number): Promise<T>;
+  close(): void;
+}
+
+/**
+ * Maps a URL onto a file in the fixture directory. "https://shop.test/cart"
+ * is looked up as shop.test/cart, then cart, each also trying .html and
+ * index.html, so fixtures can either mirror hosts or ignore them.
+ * @param fixtureDir The fixture root
+ * @param url The URL being loaded
+ * @returns The file path, or null if no fixture matches
+ */
+export function resolveFixturePath(fixtureDir: string, url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const root = path.resolve(fixtureDir);
+  const pathname = decodeURIComponent(parsed.pathname).replace(/^\/+/, '');
+  const bases = [path.join(root, parsed.hostname, pathname), path.join(root, pathname)];
+
+  for (const base of bases) {
+    for (const candidate of [base, `${base}.html`, path.join(base, 'index.html')]) {
+      // Never serve files from outside the fixture directory, including
+      // siblings such as <root>-evil or <root>.html
+      const relative = path.relative(root, candidate);
+      if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) continue;
+
+      if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+        return candidate;
+      }
+    }
+  }
+
+  return null;
+}
+
+// Gives elements boxes and makes scrolling work on top of jsdom
+function installLayout(window: DOMWindow) {
+  const { document } = window;
+  let scrollY = 0;
+
+  const isHidden = (el: Element) => {
+    for (let node: Element | null = el; node; node = node.parentElement) {
+      if (node.hasAttribute('hidden')) return true;
+      const style = window.getComputedStyle(node);
+      if (style.display === 'none' || style.visibility === 'hidden') return true;
+    }
+    return false;
+  };
+
+  const rowOf = (el: Element) => Array.prototype.indexOf.call(document.body?.querySelectorAll('*') || [], el);
+
+  const pageHeight = () => (document.body?.querySelectorAll('*').length || 0) * ROW_HEIGHT + ROW_HEIGHT;
+
+  const maxScroll = () => Math.max(0, pageHeight() - VIEWPORT.height);
+
+  const scrollTo = (top: number) => {
+    scrollY = Math.max(0, Math.min(maxScroll(), Math.round(top)));
+    window.dispatchEvent(new window.Event('scroll'));
+  };
+
+  window.Element.prototype.getBoundingClientRect = function(this: Element) {
+    const row = rowOf(this);
+    const hidden = row === -1 || isHidden(this);
+    const top = hidden ? 0 : row * ROW_HEIGHT - scrollY;
+    const width = hidden ? 0 : VIEWPORT.width;
+    const height = hidden ? 0 : ROW_HEIGHT;
+    return {
+      x: 0, y: top, left: 0, top, width, height, right: width, bottom: top + height,
+      toJSON() { return this; },
+    } as DOMRect;
+  };
+
+  window.Element.prototype.scrollIntoView = function(this: Element) {
+    const row = rowOf(this);
+    if (row !== -1) scrollTo(row * ROW_HEIGHT);
+  };
+
+  Object.defineProperty(window.HTMLElement.prototype, 'offsetParent', {
+    configurable: true,
+    get(this: HTMLElement) {
+      return isHidden(this) ? null : this.parentElement || document.body;
+    },
+  });
+
+  // jsdom has no innerText; approximate it as the text of rendered descendants
+  const renderedText = (node: Node): string => {
+    if (node.nodeType === window.Node.TEXT_NODE) return node.textContent || '';
+    if (node.nodeType !== window.Node.ELEMENT_NODE) return '';
+    const el = node as Element;
+    if (/^(SCRIPT|STYLE|TEMPLATE|NOSCRIPT)$/.test(el.tagName) || isHidden(el)) return '';
+    const text = Array.from(el.childNodes, renderedText).join('');
+    return /^(P|DIV|LI|TR|H[1-6]|SECTION|ARTICLE|HEADER|FOOTER|BR)$/.test(el.tagName) ? `\n${text}\n` : text;
+  };
+
+  Object.defineProperty(window.HTMLElement.prototype, 'innerText', {
+    configurable: true,
+    get(this: HTMLElement) {
+      return renderedText(this).replace(/[ \t]+/g, ' ').replace(/\s*\n\s*/g, '\n').trim();
+    },
+  });
+
+  Object.defineProperty(document.documentElement, 'scrollHeight', { configurable: true, get: pageHeight });
+  Object.defineProperty(window, 'scrollY', { configurable: true, get: () => scrollY });
+  Object.defineProperty(window, 'pageYOffset', { configurable: true, get: () => scrollY });
+  Object.defineProperty(window, 'innerWidth', { configurable: true, value: VIEWPORT.width });
+  Object.defineProperty(window, 'innerHeight', { configurable: true, value: VIEWPORT.height });
+
+  const toTop = (x: unknown, y?: number) => (typeof x === 'object' && x !== null ? (x as ScrollToOptions).top ?? scrollY : y ?? scrollY);
+  const toDelta = (x: unknown, y?: number) => (typeof x === 'object' && x !== null ? (x as ScrollToOptions).top ?? 0 : y ?? 0);
+  window.scrollTo = ((x: unknown, y?: number) => scrollTo(toTop(x, y))) as typeof window.scrollTo;
+  window.scroll = window.scrollTo;
+  window.scrollBy = ((x: unknown, y?: number) => scrollTo(scrollY + toDelta(x, y))) as typeof window.scrollBy;
+}
+
+/**
+ * Creates a headless browser that serves pages from a fixture directory
+ * @param options The fixture directory and log callback
+ * @returns The browser; call close() when done
+ */
+export function createHeadlessBrowser(options: HeadlessBrowserOptions): HeadlessBrowser {
+  const { fixtureDir, onLog } = options;
+  const log = (message: string) => onLog?.(message);
+
+  let dom: JSDOM | null = null;
+  let entries: string[] = [];
+  let index = -1;
+  // Calls still waiting on the current page; a new load cancels them
+  const pending = new Set<(error: Error) => void>();
+
+  const cancelPending = (reason: string) => {
+    Array.from(pending).forEach(cancel => cancel(new Error(reason)));
+  };
+
+  const virtualConsole = new VirtualConsole();
+  virtualConsole.on('log', (...args: unknown[]) => log(`[page] ${args.join(' ')}`));
+  virtualConsole.on('warn', (...args: unknown[]) => log(`[page] ${args.join(' ')}`));
+  virtualConsole.on('error', (...args: unknown[]) => log(`[page error] ${args.join(' ')}`));
+  virtualConsole.on('jsdomError', (error: Error) => {
+    // jsdom reports unimplemented browser features (navigation, alerts) here
+    if (!/Not implemented/.test(error.message)) {
+      log(`[page error] ${error.message}`);
+    }
+  });
+
+  // Follow link clicks and form submissions the page did not handle itself
+  const interceptNavigation = (window: DOMWindow) => {
+    window.addEventListener('click', event => {
+      const link = (event.target as Element | null)?.closest?.('a[href]') as HTMLAnchorElement | null;
+      if (!link || link.target === '_blank') return;
+
+      setTimeout(() => {
+        if (!event.defaultPrevented && !link.getAttribute('href')!.startsWith('#')) {
+          navigate(link.href, true);
+        }
+      }, 0);
+    });
+
+    window.addEventListener('submit', event => {
+      const form = event.target as HTMLFormElement;
+      setTimeout(() => {
+        if (event.defaultPrevented) return;
+        const action = new URL(form.getAttribute('action') || entries[index], entries[index]);
+        if ((form.method || 'get').toLowerCase() === 'get') {
+          const data = new window.FormData(form);
+          action.search = new URLSearchParams(Array.from(data.entries(), ([key, value]) => [key, String(value)])).toString();
+        }
+        navigate(action.toString(), true);
+      }, 0);
+    });
+  };
+
+  const load = (url: string): boolean => {
+    cancelPending('Page navigated before the call finished');
+    dom?.window.close();
+    dom = null;
+
+    const file = resolveFixturePath(fixtureDir, url);
+    if (!file) {
+      log(`No fixture for ${url}`);
+      return false;
+    }
+
+    dom = new JSDOM(fs.readFileSync(file, 'utf8'), {
+      url,
+      runScripts: 'dangerously',
+      pretendToBeVisual: true,
+      virtualConsole,
+    });
+    installLayout(dom.window);
+    interceptNavigation(dom.window);
+    log(`Loaded ${url} (${path.relative(fixtureDir, file)})`);
+    return true;
+  };
+
+  const navigate = (url: string, push: boolean) => {
+    if (push) {
+      entries = [...entries.slice(0, index + 1), url];
+      index = entries.length - 1;
+    }
+    return load(url);
+  };
+
+  const wait = (loaded: boolean) =>
+    // Let the page run its load-time timers, as a WebView would before onLoadEnd
+    new Promise<boolean>(resolve => setTimeout(() => resolve(loaded), 0));
+
+  return {
+    get url() {
+      return entries[index] || 'about:blank';
+    },
+
+    get window() {
+      return dom ? dom.window : null;
+    },
+
+    loadUrl(url: string) {
+      return wait(navigate(url, true));
+    },
+
+    goBack() {
+      if (index <= 0) return wait(false);
+      index--;
+      return wait(load(entries[index]));
+    },
+
+    goForward() {
+      if (index >= entries.length - 1) return wait(false);
+      index++;
+      return wait(load(entries[index]));
+    },
+
+    reload() {
+      return wait(index >= 0 && load(entries[index]));
+    },
+
+    callInPage<T = unknown>(name: PageFunctionName, args: unknown[] = [], timeoutMs = DEFAULT_CALL_TIMEOUT) {
+      if (!dom) {
+        return Promise.reject(new Error('No page is loaded'));
+      }
+
+      const window = dom.window;
+
+      return new Promise<T>((resolve, reject) => {
+        const cancel = (error: Error) => {
+          clearTimeout(timer);
+          pending.delete(cancel);
+          reject(error);
+        };
+        const timer = setTimeout(() => cancel(new Error(`Page did not respond within ${timeoutMs}ms`)), timeoutMs);
+        const settle = (fn: () => void) => {
+          // Already cancelled by a timeout or navigation
+          if (!pending.has(cancel)) return;
+          clearTimeout(timer);
+          pending.delete(cancel);
+          fn();
+        };
+        pending.add(cancel);
+
+        // Errors thrown inside the page belong to jsdom's realm, so copy the message
+        const fail = (error: unknown) => settle(() => reject(new Error(
+          error instanceof Error || error instanceof window.Error ? error.message : String(error)
+        )));
+
+        try {
+          Promise.resolve(window.eval(buildPageInvocation(name, args))).then(
+            // Round-trip through JSON like a posted message would
+            value => settle(() => resolve(value === undefined ? null : JSON.parse(JSON.stringify(value)))),
+            fail
+          );
+        } catch (error) {
+          fail(error);
+        }
+      });
+    },
+
+    close() {
+      cancelPending('Browser closed');
+      dom?.window.close();
+      dom = null;
+    },
+  };
+}
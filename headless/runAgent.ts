@@ -0,0 +1,174 @@
+// Runs an agent script against fixture pages in Node, without a device.
+// Used by the run-agent CLI (scripts/run-agent.js) and importable from tests.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseAgentScript, formatScriptErrors } from '../utils/agentScript';
+import { PageSnapshot } from '../utils/pageSnapshot';
+import { DataTable, tableToCsv } from '../utils/dataTable';
+import { createIntentExecutor } from '../services/intentExecutor';
+import { runAgentScript, ScriptRunResult } from '../services/scriptRunner';
+import { setPageSnapshot } from '../services/snapshotStore';
+import { createHeadlessBrowser, FIXTURE_ORIGIN } from './headlessBrowser';
+
+export interface HeadlessRunOptions {
+  // Script source; scriptPath is read when this is not given
+  script?: string;
+  scriptPath?: string;
+  fixtureDir: string;
+  // First page to open (defaults to the fixture's index.html)
+  startUrl?: string;
+  onLog?: (message: string) => void;
+}
+
+export interface HeadlessRunResult extends ScriptRunResult {
+  // Validation errors; when present the script did not run
+  errors: string[];
+  finalUrl: string;
+  history: string[];
+  // Tables pulled out by extraction commands, in order
+  tables: DataTable[];
+}
+
+/**
+ * Validates and runs a script against a fixture site
+ * @param options The script, fixture directory and log callback
+ * @returns The run result, including anything the script extracted
+ */
+export async function runHeadlessAgent(options: HeadlessRunOptions): Promise<HeadlessRunResult> {
+  const { fixtureDir, onLog } = options;
+  const log = (message: string) => onLog?.(message);
+  const source = options.script ?? fs.readFileSync(options.scriptPath || '', 'utf8');
+  const fallbackName = options.scriptPath ? path.basename(options.scriptPath).replace(/\.[^.]+$/, '') : undefined;
+
+  const parsed = await parseAgentScript(source, fallbackName);
+  if (!parsed.script) {
+    return {
+      succeeded: false,
+      cancelled: false,
+      variables: {},
+      message: 'The script is invalid',
+      errors: formatScriptErrors(parsed.errors),
+      finalUrl: 'about:blank',
+      history: [],
+      tables: [],
+    };
+  }
+
+  const browser = createHeadlessBrowser({ fixtureDir, onLog: log });
+  const history: string[] = [];
+  const tables: DataTable[] = [];
+
+  const refreshSnapshot = async () => {
+    try {
+      const snapshot = await browser.callInPage<PageSnapshot>('takePageSnapshot');
+      setPageSnapshot(snapshot);
+      return snapshot;
+    } catch {
+      setPageSnapshot(null);
+      return null;
+    }
+  };
+
+  const withSnapshot = async (loaded: Promise<boolean>) => {
+    setPageSnapshot(null);
+    const result = await loaded;
+    if (result) await refreshSnapshot();
+    return result;
+  };
+
+  const executor = createIntentExecutor({
+    callInPage: (name, args, timeoutMs) => browser.callInPage(name, args, timeoutMs),
+    loadUrl: url => withSnapshot(browser.loadUrl(url)),
+    goBack: () => withSnapshot(browser.goBack()),
+    goForward: () => withSnapshot(browser.goForward()),
+    reload: () => withSnapshot(browser.reload()),
+    refreshSnapshot,
+    addStatusUpdate: message => log(`  ${message}`),
+    addHistoryItem: message => history.push(message),
+    onDataExtracted: table => tables.push(table),
+  });
+
+  try {
+    await withSnapshot(browser.loadUrl(options.startUrl || `${FIXTURE_ORIGIN}/`));
+
+    const result = await runAgentScript(parsed.script, executor, {
+      onUpdate: update => {
+        if (update.status !== 'running') {
+          log(`${update.status === 'done' ? 'ok  ' : 'FAIL'} line ${update.line}: ${update.description}`);
+        }
+      },
+    });
+
+    return { ...result, errors: [], finalUrl: browser.url, history, tables };
+  } finally {
+    browser.close();
+    setPageSnapshot(null);
+  }
+}
+
+const USAGE = [
+  'Usage: run-agent --script <file> --fixture <dir> [--url <start url>] [--json] [--quiet]',
+  '',
+  '  --script   Agent script (text or JSON) to run',
+  '  --fixture  Directory of HTML pages to serve; URLs map to files by path',
+  `  --url      First page to open (default ${FIXTURE_ORIGIN}/, i.e. index.html)`,
+  '  --json     Print the result as JSON',
+  '  --quiet    Only print the result',
+].join('\n');
+
+/**
+ * CLI entry point
+ * @param argv Arguments after the script name
+ * @returns The process exit code: 0 on success, 1 if the script failed, 2 on bad usage
+ */
+export async function main(argv: string[]): Promise<number> {
+  const flags: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const match = argv[i].match(/^--([\w-]+)(?:=(.*))?$/);
+    if (!match) {
+      console.error(`Unexpected argument "${argv[i]}"\n\n${USAGE}`);
+      return 2;
+    }
+    const takesValue = ['script', 'fixture', 'url'].includes(match[1]);
+    flags[match[1]] = match[2] ?? (takesValue ? argv[++i] ?? '' : true);
+  }
+
+  if (flags.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const scriptPath = typeof flags.script === 'string' ? flags.script : '';
+  const fixtureDir = typeof flags.fixture === 'string' ? flags.fixture : '';
+  if (!scriptPath || !fixtureDir) {
+    console.error(USAGE);
+    return 2;
+  }
+  if (!fs.existsSync(scriptPath)) {
+    console.error(`Script not found: ${scriptPath}`);
+    return 2;
+  }
+  if (!fs.existsSync(fixtureDir) || !fs.statSync(fixtureDir).isDirectory()) {
+    console.error(`Fixture directory not found: ${fixtureDir}`);
+    return 2;
+  }
+
+  const result = await runHeadlessAgent({
+    scriptPath,
+    fixtureDir,
+    startUrl: typeof flags.url === 'string' ? flags.url : undefined,
+    onLog: flags.quiet || flags.json ? undefined : message => console.log(message),
+  });
+
+  if (flags.json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    result.errors.forEach(error => console.error(error));
+    Object.entries(result.variables).forEach(([name, value]) => console.log(`${name} = ${value}`));
+    result.tables.forEach(table => console.log(`table "${table.title}" (${table.rows.length} rows):\n${tableToCsv(table)}`));
+    console.log(result.succeeded ? `PASS ${result.message}` : `FAIL ${result.message}`);
+  }
+
+  return result.succeeded ? 0 : 1;
+}
@@ -15,8 +15,9 @@ import * as FileSystem from 'expo-file-system';
 import * as Clipboard from 'expo-clipboard';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
-import { WebView } from 'react-native-webview';
+import { WebView, WebViewMessageEvent } from 'react-native-webview';
 import { extractTextFromDocument } from '../services/pdfService';
+import { createPageBridge, parsePageMessage, PROTOCOL_VERSION } from '../utils/webViewProtocol';
 import ExtractionProgress from '../components/ExtractionProgress';
 import DocumentInfo from '../components/DocumentInfo';
 
@@ -30,6 +31,7 @@ export default function PdfExtractorScreen({ theme = 'light' }) {
   const [showWebView, setShowWebView] = useState<boolean>(false);
   const [pdfUri, setPdfUri] = useState<string | null>(null);
   const webViewRef = useRef<WebView>(null);
+  const bridgeRef = useRef(createPageBridge(script => webViewRef.current?.injectJavaScript(script)));
   const [preparationTime, setPreparationTime] = useState<number>(0);
 
   const isDark = theme === 'dark';
@@ -110,21 +112,39 @@ export default function PdfExtractorScreen({ theme = 'light' }) {
     }
   };
 
-  const handleWebViewMessage = (event: any) => {
-    try {
-      console.log('Received message from WebView:', event.nativeEvent.data);
-      const data = JSON.parse(event.nativeEvent.data);
-      
-      if (data.type === 'pdfInfo') {
+  const failExtraction = (message: string) => {
+    setError(message);
+    setShowWebView(false);
+    setIsLoading(false);
+  };
+
+  const handleWebViewMessage = (event: WebViewMessageEvent) => {
+    console.log('Received message from WebView:', event.nativeEvent.data);
+    const data = parsePageMessage(event.nativeEvent.data);
+    
+    if (!data) {
+      console.error('Invalid message from WebView:', event.nativeEvent.data);
+      failExtraction('Failed to extract text from PDF.');
+      return;
+    }
+    
+    switch (data.type) {
+      case 'callResult':
+        bridgeRef.current.handleMessage(data);
+        break;
+      case 'pageReady':
+        console.log('PDF extractor page ready');
+        break;
+      case 'pdfInfo':
         console.log('PDF info received:', data);
         setTotalPages(data.totalPages);
-      } 
-      else if (data.type === 'pdfProgress') {
+        break;
+      case 'pdfProgress':
         console.log('PDF progress:', data.currentPage, 'of', data.totalPages);
         setCurrentPage(data.currentPage);
         setTotalPages(data.totalPages);
-      }
-      else if (data.type === 'pdfPartialText') {
+        break;
+      case 'pdfPartialText':
         console.log('Partial text received, final:', data.isFinal);
         setExtractedText(prevText => prevText + data.text);
         
@@ -133,24 +153,17 @@ export default function PdfExtractorScreen({ theme = 'light' }) {
           setShowWebView(false);
           setIsLoading(false);
         }
-      }
-      else if (data.type === 'pdfText') {
+        break;
+      case 'pdfText':
         console.log('Full text received');
         setExtractedText(data.text);
         setShowWebView(false);
         setIsLoading(false);
-      } 
-      else if (data.type === 'pdfError') {
+        break;
+      case 'pdfError':
         console.error('PDF error:', data.error);
-        setError(data.error);
-        setShowWebView(false);
-        setIsLoading(false);
-      }
-    } catch (error) {
-      console.error('Error parsing WebView message:', error);
-      setError('Failed to extract text from PDF.');
-      setShowWebView(false);
-      setIsLoading(false);
+        failExtraction(data.error);
+        break;
     }
   };
 
@@ -330,6 +343,7 @@ export default function PdfExtractorScreen({ theme = 'light' }) {
           
           // Function to send messages to React Native
           function sendToReactNative(message) {
+            message.v = ${PROTOCOL_VERSION};
             if (window.ReactNativeWebView) {
               window.ReactNativeWebView.postMessage(JSON.stringify(message));
             } else {
@@ -643,22 +657,12 @@ export default function PdfExtractorScreen({ theme = 'light' }) {
               if (webViewRef.current && pdfUri) {
                 console.log('WebView loaded, loading PDF from URI:', pdfUri);
                 
-                // Use a simpler approach to load the PDF
-                webViewRef.current.injectJavaScript(`
-                  // Call the loadPdfFromUrl function with the PDF URI
-                  if (window.loadPdfFromUrl) {
-                    window.loadPdfFromUrl('${pdfUri}');
-                  } else {
-                    console.error('loadPdfFromUrl function not available');
-                    if (window.ReactNativeWebView) {
-                      window.ReactNativeWebView.postMessage(JSON.stringify({
-                        type: 'pdfError',
-                        error: 'PDF loading function not available'
-                      }));
-                    }
-                  }
-                  true;
-                `);
+                bridgeRef.current
+                  .callInPage('loadPdf', [pdfUri])
+                  .catch(err => {
+                    console.error('Error starting PDF extraction:', err);
+                    failExtraction(err.message);
+                  });
               }
             }}
             onError={(syntheticEvent) => {
@@ -0,0 +1,21 @@
+#!/usr/bin/env node
+// Scores a command parser against the labeled utterance corpus.
+//
+//   npm run eval-intents
+//   npm run eval-intents -- --provider openai --url http://localhost:11435/v1
+//
+// The parser sources are TypeScript, so they are compiled on the fly.
+
+require('sucrase/register/ts');
+
+const { main } = require('../headless/evaluateIntents');
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    console.error(error);
+    process.exitCode = 1;
+  }
+);
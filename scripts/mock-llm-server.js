@@ -0,0 +1,164 @@
+#!/usr/bin/env node
+// Tiny stand-in for an LLM server so the provider path can be exercised offline.
+// It answers both OpenAI-style (POST /v1/chat/completions) and Ollama-style
+// (POST /api/chat) requests with a CommandIntent JSON object, with an
+// AgentDecision when the request asks for the agent_decision schema, or with
+// a PageSummary for the page_summary schema.
+//
+// Environment variables:
+//   MOCK_LLM_PORT      Port to listen on (default 11435)
+//   MOCK_LLM_DELAY_MS  Delay before answering, to exercise client timeouts
+//   MOCK_LLM_MODE      "ok" (default), "malformed" (invalid JSON) or "error" (HTTP 500)
+
+const http = require('http');
+
+const PORT = parseInt(process.env.MOCK_LLM_PORT || '11435', 10);
+const DELAY_MS = parseInt(process.env.MOCK_LLM_DELAY_MS || '0', 10);
+const MODE = process.env.MOCK_LLM_MODE || 'ok';
+
+// A handful of keyword rules, enough to tell the mock apart from the built-in parser
+function interpret(input) {
+  const text = input.toLowerCase().trim();
+  let match;
+
+  if ((match = text.match(/^(?:go to|open|visit)\s+(\S+)/))) {
+    return { type: 'navigation', action: 'navigate', url: match[1], confidence: 0.92 };
+  }
+  if ((match = text.match(/^(?:search for|search|look up)\s+(.+)/))) {
+    return { type: 'search', action: 'search', query: match[1], confidence: 0.92 };
+  }
+  if (/^(?:go )?back$/.test(text)) {
+    return { type: 'navigation_control', action: 'back', confidence: 0.95 };
+  }
+  if (/^(?:go )?forward$/.test(text)) {
+    return { type: 'navigation_control', action: 'forward', confidence: 0.95 };
+  }
+  if (/^(?:reload|refresh)/.test(text)) {
+    return { type: 'navigation_control', action: 'reload', confidence: 0.95 };
+  }
+  if ((match = text.match(/^(?:click|tap)(?: on)?\s+(.+)/))) {
+    return { type: 'interaction', action: 'click', target: match[1], confidence: 0.9 };
+  }
+  if ((match = input.trim().match(/^type\s+(.+)/i))) {
+    return { type: 'interaction', action: 'type', text: match[1], confidence: 0.9 };
+  }
+  if (text === 'help') {
+    return { type: 'system', action: 'help', confidence: 0.95 };
+  }
+  return { type: 'unknown', confidence: 0.2 };
+}
+
+// Plays a goal back as a chain: one "then"-separated clause per step, then done
+function plan(prompt) {
+  const goalLine = prompt.split('\n').find(line => line.startsWith('Goal: ')) || 'Goal: ';
+  const clauses = goalLine.slice('Goal: '.length).split(/\s+(?:and )?then\s+|\s*;\s*/).filter(Boolean);
+  const taken = prompt.split('\n').filter(line => /^\d+\. /.test(line));
+
+  if (taken.length > 0 && taken[taken.length - 1].endsWith('FAILED')) {
+    return { status: 'fail', reasoning: 'The last step failed' };
+  }
+  if (taken.length >= clauses.length) {
+    return { status: 'done', reasoning: 'All steps of the goal were taken' };
+  }
+  return {
+    status: 'continue',
+    reasoning: `Mock step ${taken.length + 1} of ${clauses.length}`,
+    action: interpret(clauses[taken.length]),
+  };
+}
+
+// Summarizes an article prompt as its title plus its first sentence
+function summarize(prompt) {
+  const lines = prompt.split('\n');
+  const title = (lines.find(line => line.startsWith('Title: ')) || 'Title: this page').slice('Title: '.length);
+  const text = lines.slice(lines.indexOf('') + 1).join(' ');
+  const firstSentence = (text.match(/^.*?[.!?](?=\s|$)/) || [text.slice(0, 200)])[0];
+  return {
+    summary: `Mock summary of "${title}". ${firstSentence}`.trim(),
+    keyPoints: [`The page has about ${text.split(/\s+/).filter(Boolean).length} words`],
+  };
+}
+
+function isSummaryRequest(body) {
+  return body.response_format?.json_schema?.name === 'page_summary'
+    || Boolean(body.format?.properties?.keyPoints);
+}
+
+function isDecisionRequest(body) {
+  return body.response_format?.json_schema?.name === 'agent_decision'
+    || Boolean(body.format?.properties?.status);
+}
+
+function lastUserMessage(body) {
+  const messages = Array.isArray(body.messages) ? body.messages : [];
+  const user = messages.filter(message => message.role === 'user').pop();
+  return user && typeof user.content === 'string' ? user.content : '';
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res, status, payload) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
+
+const server = http.createServer(async (req, res) => {
+  const path = (req.url || '').split('?')[0];
+  const isOpenAI = req.method === 'POST' && path.endsWith('/chat/completions');
+  const isOllama = req.method === 'POST' && path === '/api/chat';
+
+  if (!isOpenAI && !isOllama) {
+    sendJson(res, 404, { error: `No mock route for ${req.method} ${path}` });
+    return;
+  }
+
+  let body;
+  try {
+    body = JSON.parse(await readBody(req));
+  } catch {
+    sendJson(res, 400, { error: 'Request body is not valid JSON' });
+    return;
+  }
+
+  const input = lastUserMessage(body);
+  console.log(`[mock-llm] ${isOpenAI ? 'openai' : 'ollama'} <- "${input.split('\n')[0]}"`);
+
+  setTimeout(() => {
+    if (MODE === 'error') {
+      sendJson(res, 500, { error: 'Mock server error' });
+      return;
+    }
+
+    const content = MODE === 'malformed'
+      ? '{"type": "navigation", "url": '
+      : JSON.stringify(isSummaryRequest(body) ? summarize(input) : isDecisionRequest(body) ? plan(input) : interpret(input));
+
+    if (isOpenAI) {
+      sendJson(res, 200, {
+        id: `mock-${Date.now()}`,
+        object: 'chat.completion',
+        model: body.model || 'mock',
+        choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content } }],
+      });
+    } else {
+      sendJson(res, 200, {
+        model: body.model || 'mock',
+        done: true,
+        message: { role: 'assistant', content },
+      });
+    }
+  }, DELAY_MS);
+});
+
+server.listen(PORT, () => {
+  console.log(`[mock-llm] listening on http://localhost:${PORT} (mode: ${MODE}, delay: ${DELAY_MS}ms)`);
+  console.log(`[mock-llm] OpenAI base URL: http://localhost:${PORT}/v1`);
+  console.log(`[mock-llm] Ollama base URL: http://localhost:${PORT}`);
+});
@@ -0,0 +1,20 @@
+#!/usr/bin/env node
+// Runs an agent script headlessly against local HTML fixtures.
+//
+//   npm run run-agent -- --script foo.json --fixture site/
+//
+// The agent sources are TypeScript, so they are compiled on the fly.
+
+require('sucrase/register/ts');
+
+const { main } = require('../headless/runAgent');
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    console.error(error);
+    process.exitCode = 1;
+  }
+);
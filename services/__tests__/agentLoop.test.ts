@@ -0,0 +1,65 @@
+import { runAgentLoop } from '../agentLoop';
+import { createIntentExecutor } from '../intentExecutor';
+import { AgentPlanner } from '../../utils/agentPlanner';
+
+// Rejects once the signal aborts, like a request that only ends when cancelled
+const untilAborted = (signal?: AbortSignal) => new Promise<never>((_, reject) => {
+  signal?.addEventListener('abort', () => reject(new Error('aborted')));
+});
+
+describe('stopping a goal', () => {
+  it('interrupts the planner while it is thinking', async () => {
+    const controller = new AbortController();
+    const planner: AgentPlanner = { id: 'test', nextStep: (_request, signal) => untilAborted(signal) };
+    setTimeout(() => controller.abort(), 10);
+
+    const result = await runAgentLoop({
+      goal: 'buy a teapot',
+      planner,
+      maxSteps: 5,
+      takeSnapshot: async () => null,
+      execute: async () => true,
+      signal: controller.signal,
+    });
+
+    expect(result).toMatchObject({ outcome: 'cancelled', steps: [] });
+  });
+
+  it('interrupts a long wait in the executor', async () => {
+    const controller = new AbortController();
+    const planner: AgentPlanner = {
+      id: 'test',
+      nextStep: async () => ({
+        status: 'continue',
+        reasoning: 'wait for the results',
+        action: { type: 'wait', action: 'wait_for_text', text: 'Results', timeoutMs: 120000, confidence: 1 },
+      }),
+    };
+    const executor = createIntentExecutor({
+      // The page never answers, so only the signal can end the wait
+      callInPage: () => new Promise(() => undefined),
+      loadUrl: async () => true,
+      goBack: async () => true,
+      goForward: async () => true,
+      reload: async () => true,
+      refreshSnapshot: async () => null,
+      addStatusUpdate: () => undefined,
+      addHistoryItem: () => undefined,
+    });
+    setTimeout(() => controller.abort(), 10);
+
+    const started = Date.now();
+    const result = await runAgentLoop({
+      goal: 'search for teapots',
+      planner,
+      maxSteps: 5,
+      takeSnapshot: async () => null,
+      execute: executor.execute,
+      signal: controller.signal,
+    });
+
+    expect(result.outcome).toBe('cancelled');
+    expect(result.steps).toEqual([expect.objectContaining({ succeeded: false })]);
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+});
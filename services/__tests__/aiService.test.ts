@@ -0,0 +1,21 @@
+import { clearCommandCache, getCacheEntries, importCacheEntries } from '../aiService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('importCacheEntries', () => {
+  beforeEach(() => clearCommandCache());
+
+  it('skips entries that would not be cached here', async () => {
+    const imported = await importCacheEntries([
+      { key: 'click sign in', input: 'click sign in', result: [{ type: 'interaction', action: 'click', target: 'sign in', confidence: 0.9 }] },
+      { key: 'go back', input: 'go back', result: [{ type: 'navigation_control', action: 'back', confidence: 0.9 }] },
+      { key: 'click back', input: 'click back', result: [{ type: 'interaction', action: 'click', target: 'back', confidence: 0.5 }] },
+      { key: 'click 7', input: 'click 7', result: [{ type: 'interaction', action: 'click', elementId: '7', confidence: 0.9 }] },
+    ]);
+
+    expect(imported).toBe(1);
+    expect(getCacheEntries().map(entry => entry.key)).toEqual(['click sign in']);
+  });
+});
@@ -0,0 +1,92 @@
+import { CommandIntent } from '../utils/nlpProcessor';
+import { PageSnapshot } from '../utils/pageSnapshot';
+import { PlannerHistoryEntry } from '../utils/llmProviders';
+import { AgentPlanner } from '../utils/agentPlanner';
+
+export type AgentLoopOutcome = 'success' | 'failed' | 'max_steps' | 'cancelled';
+
+// Progress reported after each decision the loop makes
+export type AgentLoopUpdate =
+  | { kind: 'thinking'; step: number }
+  | { kind: 'action'; step: number; action: CommandIntent; reasoning: string }
+  | { kind: 'result'; step: number; action: CommandIntent; succeeded: boolean };
+
+export interface AgentLoopOptions {
+  goal: string;
+  planner: AgentPlanner;
+  maxSteps: number;
+  // Observe the page before each decision
+  takeSnapshot: () => Promise<PageSnapshot | null>;
+  // Perform one action; resolves to whether it succeeded. Waits should end
+  // early when the signal aborts.
+  execute: (action: CommandIntent, signal?: AbortSignal) => Promise<boolean>;
+  onUpdate?: (update: AgentLoopUpdate) => void;
+  // Stops the loop, interrupting the planner request or action in progress
+  signal?: AbortSignal;
+}
+
+export interface AgentLoopResult {
+  outcome: AgentLoopOutcome;
+  steps: PlannerHistoryEntry[];
+  message: string;
+}
+
+/**
+ * Works towards a goal by repeatedly observing the page, asking the planner
+ * for the next action and executing it
+ * @param options The goal, planner, page callbacks and limits
+ * @returns How the loop ended and the actions it took
+ */
+export async function runAgentLoop(options: AgentLoopOptions): Promise<AgentLoopResult> {
+  const { goal, planner, maxSteps, takeSnapshot, execute, onUpdate, signal } = options;
+  const steps: PlannerHistoryEntry[] = [];
+
+  const finish = (outcome: AgentLoopOutcome, message: string): AgentLoopResult => ({ outcome, steps, message });
+
+  for (let step = 1; step <= maxSteps; step++) {
+    if (signal?.aborted) {
+      return finish('cancelled', 'Stopped by user');
+    }
+
+    onUpdate?.({ kind: 'thinking', step });
+
+    let decision;
+    try {
+      const snapshot = await takeSnapshot();
+      decision = await planner.nextStep({ goal, snapshot, history: steps }, signal);
+    } catch (error) {
+      if (signal?.aborted) {
+        return finish('cancelled', 'Stopped by user');
+      }
+      return finish('failed', `Planner error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    // The user may have stopped the loop while the planner was thinking
+    if (signal?.aborted) {
+      return finish('cancelled', 'Stopped by user');
+    }
+
+    if (decision.status === 'done') {
+      return finish('success', decision.reasoning || 'Goal achieved');
+    }
+
+    if (decision.status === 'fail' || !decision.action) {
+      return finish('failed', decision.reasoning || 'The planner gave up');
+    }
+
+    const action = decision.action;
+    onUpdate?.({ kind: 'action', step, action, reasoning: decision.reasoning });
+
+    let succeeded = false;
+    try {
+      succeeded = await execute(action, signal);
+    } catch (error) {
+      console.error('Agent loop action failed:', error);
+    }
+
+    steps.push({ action, succeeded });
+    onUpdate?.({ kind: 'result', step, action, succeeded });
+  }
+
+  return finish('max_steps', `Stopped after ${maxSteps} steps without reaching the goal`);
+}
@@ -1,38 +1,97 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { processWithLLM, generateExplanation } from '../utils/nlpProcessor';
+import { processCommandPlan, generateExplanation, applyBookmarks, splitCommandChain, CommandIntent } from '../utils/nlpProcessor';
+import { getSettings } from './settingsService';
+import { getBookmarks } from './bookmarkService';
+import { getExamples } from './exampleService';
+import { findLearnedIntent } from '../utils/intentExamples';
+import {
+  CommandCacheEntry,
+  CommandCacheStats,
+  CommandCacheFile,
+  MAX_CACHE_ENTRIES,
+  cacheToJson,
+  describePlanShape,
+  fillCommandTemplate,
+  getCacheKey,
+  getPlanTtl,
+  hasTemplateSlots,
+  isEntryLive,
+  toCommandTemplate
+} from '../utils/commandCache';
 
-// Cache key for storing processed commands
+// Cache keys for storing processed commands and the cache's hit counts
 const COMMAND_CACHE_KEY = 'web_agent_command_cache';
+const CACHE_STATS_KEY = 'web_agent_command_cache_stats';
 
-// Interface for cached commands
-interface CachedCommand {
+// Entries written before normalized keys and per-intent expiry
+interface LegacyCachedCommand {
   input: string;
-  result: any;
+  result: CommandIntent | CommandIntent[];
   timestamp: number;
 }
 
-// Cache expiration time (24 hours in milliseconds)
-const CACHE_EXPIRATION = 24 * 60 * 60 * 1000;
+// A parsed intent with its human-readable explanation
+export interface ProcessedIntent extends CommandIntent {
+  explanation: string;
+  error?: string;
+}
+
+// The ordered steps parsed from a single utterance
+export interface CommandPlan {
+  steps: ProcessedIntent[];
+  explanation: string;
+  confidence: number;
+  fromCache: boolean;
+  // At least one step came from a correction the user made
+  learned: boolean;
+}
 
-// Initialize the cache
-let commandCache: CachedCommand[] = [];
+// The cache in least to most recently used order
+let commandCache: CommandCacheEntry[] = [];
+
+let cacheStats: CommandCacheStats = { hits: 0, templateHits: 0, misses: 0, evictions: 0 };
+
+// Bring an entry from an older version up to date
+function migrateEntry(entry: CommandCacheEntry | LegacyCachedCommand): CommandCacheEntry {
+  if ('key' in entry) {
+    return entry;
+  }
+  
+  // Entries written before plans were introduced hold a single intent
+  const result = Array.isArray(entry.result) ? entry.result : [entry.result];
+  return {
+    key: getCacheKey(entry.input),
+    input: entry.input,
+    result,
+    createdAt: entry.timestamp,
+    lastUsedAt: entry.timestamp,
+    expiresAt: entry.timestamp + getPlanTtl(result),
+    hits: 0
+  };
+}
 
 // Load cache from AsyncStorage
 export async function initializeCache() {
   try {
     const cachedData = await AsyncStorage.getItem(COMMAND_CACHE_KEY);
     if (cachedData) {
-      const parsedCache = JSON.parse(cachedData) as CachedCommand[];
+      const parsedCache = JSON.parse(cachedData) as Array<CommandCacheEntry | LegacyCachedCommand>;
       
       // Filter out expired cache entries
       const now = Date.now();
-      commandCache = parsedCache.filter(
-        entry => now - entry.timestamp < CACHE_EXPIRATION
-      );
+      commandCache = parsedCache
+        .map(migrateEntry)
+        .filter(entry => isEntryLive(entry, now))
+        .sort((a, b) => a.lastUsedAt - b.lastUsedAt);
       
       // Save the filtered cache back to storage
       await AsyncStorage.setItem(COMMAND_CACHE_KEY, JSON.stringify(commandCache));
     }
+    
+    const storedStats = await AsyncStorage.getItem(CACHE_STATS_KEY);
+    if (storedStats) {
+      cacheStats = { ...cacheStats, ...JSON.parse(storedStats) };
+    }
   } catch (error) {
     console.error('Error loading command cache:', error);
     // If there's an error, start with an empty cache
@@ -44,56 +103,244 @@ export async function initializeCache() {
 async function saveCache() {
   try {
     await AsyncStorage.setItem(COMMAND_CACHE_KEY, JSON.stringify(commandCache));
+    await AsyncStorage.setItem(CACHE_STATS_KEY, JSON.stringify(cacheStats));
   } catch (error) {
     console.error('Error saving command cache:', error);
   }
 }
 
-// Process a command with AI, using cache when possible
-export async function processCommand(input: string) {
-  // Check if we have this command in cache
-  const cachedEntry = commandCache.find(entry => entry.input.toLowerCase() === input.toLowerCase());
+// Hit and miss counts, plus how many entries the cache holds
+export function getCacheStats(): CommandCacheStats & { entries: number } {
+  return { ...cacheStats, entries: commandCache.length };
+}
+
+// The offline parser's reading of an input, for the template guard
+async function getOfflineShape(input: string) {
+  return describePlanShape(await processCommandPlan(input, { ...getSettings().llm, provider: 'regex' }));
+}
+
+// Find a cached parse: an exact match first, then the most recently used
+// template the input fits
+async function findCachedPlan(input: string): Promise<{ entry: CommandCacheEntry; result: CommandIntent[] } | null> {
+  const now = Date.now();
+  commandCache = commandCache.filter(entry => isEntryLive(entry, now));
+  
+  const key = getCacheKey(input);
+  const exact = commandCache.find(entry => !entry.shape && entry.key === key);
+  if (exact) {
+    return { entry: exact, result: exact.result };
+  }
   
-  if (cachedEntry) {
-    // Return cached result if we have it
+  let offlineShape: string | null = null;
+  for (const entry of [...commandCache].reverse()) {
+    if (!entry.shape) continue;
+    
+    const result = fillCommandTemplate(entry, input);
+    if (!result) continue;
+    
+    offlineShape = offlineShape ?? await getOfflineShape(input);
+    if (offlineShape === entry.shape) {
+      return { entry, result };
+    }
+  }
+  
+  return null;
+}
+
+// Mark an entry as just used by moving it to the most recent end
+function touchEntry(entry: CommandCacheEntry) {
+  const touched = { ...entry, hits: entry.hits + 1, lastUsedAt: Date.now() };
+  commandCache = [...commandCache.filter(item => item !== entry), touched];
+}
+
+// Cache a fresh parse, as a template when its free text came from the input
+async function addToCache(input: string, result: CommandIntent[]) {
+  const ttl = getPlanTtl(result);
+  if (ttl <= 0) {
+    return;
+  }
+  
+  const now = Date.now();
+  const template = toCommandTemplate(input, result);
+  const entry: CommandCacheEntry = {
+    key: template ? template.key : getCacheKey(input),
+    input,
+    result: template ? template.result : result,
+    ...(template ? { shape: await getOfflineShape(input) } : {}),
+    createdAt: now,
+    lastUsedAt: now,
+    expiresAt: now + ttl,
+    hits: 0
+  };
+  
+  // A user's correction wins over a fresh parse
+  if (commandCache.some(item => item.key === entry.key && item.pinned)) {
+    return;
+  }
+  
+  commandCache = [...commandCache.filter(item => item.key !== entry.key), entry];
+  evictEntries();
+}
+
+// Evict the least recently used entries that are not pinned
+function evictEntries() {
+  while (commandCache.length > MAX_CACHE_ENTRIES) {
+    const index = commandCache.findIndex(entry => !entry.pinned);
+    if (index < 0) break;
+    commandCache.splice(index, 1);
+    cacheStats.evictions++;
+  }
+}
+
+// Get the live cache entries, most recently used first
+export function getCacheEntries(): CommandCacheEntry[] {
+  const now = Date.now();
+  return commandCache.filter(entry => isEntryLive(entry, now)).reverse();
+}
+
+// Delete one cache entry
+export async function deleteCacheEntry(key: string) {
+  commandCache = commandCache.filter(entry => entry.key !== key);
+  await saveCache();
+}
+
+// Replace an entry's parse with one the user approved, and keep it for good
+export async function pinCacheEntry(key: string, result: CommandIntent[]) {
+  const existing = commandCache.find(entry => entry.key === key);
+  if (!existing) {
+    throw new Error('Cache entry not found');
+  }
+  if (result.length === 0) {
+    throw new Error('A command needs at least one step');
+  }
+  
+  // A template keeps its slots so other inputs still get their own words.
+  // Corrected steps with the input's words written out are turned back into
+  // the same template when they fit it, and otherwise pinned for this exact
+  // input only, so "search for dogs" never gets the parse for "cats".
+  let pinned: CommandCacheEntry = { ...existing, result, pinned: true, lastUsedAt: Date.now() };
+  if (existing.shape && !hasTemplateSlots(result)) {
+    const template = toCommandTemplate(existing.input, result);
+    if (template && template.key === existing.key) {
+      pinned = { ...pinned, result: template.result };
+    } else {
+      const { shape, ...exact } = pinned;
+      pinned = { ...exact, key: getCacheKey(existing.input) };
+    }
+  }
+  commandCache = [...commandCache.filter(entry => entry !== existing && entry.key !== pinned.key), pinned];
+  await saveCache();
+  
+  return pinned;
+}
+
+// The cache as JSON for sharing
+export function exportCache(): string {
+  return cacheToJson(getCacheEntries().reverse());
+}
+
+// Add imported entries; an imported entry replaces one with the same key
+// unless that one is pinned and the imported one is not. Entries that would
+// not have been cached here (uncertain parses, snapshot ids) are skipped.
+export async function importCacheEntries(entries: CommandCacheFile['entries']) {
+  const now = Date.now();
+  let imported = 0;
+  
+  for (const entry of entries) {
+    const ttl = getPlanTtl(entry.result);
+    if (ttl <= 0) continue;
+    
+    const existing = commandCache.find(item => item.key === entry.key);
+    if (existing?.pinned && !entry.pinned) continue;
+    
+    commandCache = [
+      ...commandCache.filter(item => item !== existing),
+      { ...entry, createdAt: now, lastUsedAt: now, expiresAt: now + ttl, hits: 0 }
+    ];
+    imported++;
+  }
+  
+  evictEntries();
+  await saveCache();
+  return imported;
+}
+
+// Build a plan from parsed steps. Bookmarks are applied here rather than
+// cached, so renaming or deleting one takes effect straight away.
+function toCommandPlan(steps: CommandIntent[], fromCache: boolean, learned = false): CommandPlan {
+  const bookmarks = getBookmarks();
+  const processedSteps = steps.map(step => {
+    const resolved = applyBookmarks(step, bookmarks);
     return {
-      ...cachedEntry.result,
-      explanation: generateExplanation(cachedEntry.result),
-      fromCache: true
+      ...resolved,
+      explanation: generateExplanation(resolved)
     };
-  }
+  });
   
-  // Process with LLM if not in cache
+  return {
+    steps: processedSteps,
+    explanation: processedSteps.map(step => step.explanation).join(', then '),
+    confidence: Math.min(...processedSteps.map(step => step.confidence)),
+    fromCache,
+    learned
+  };
+}
+
+// Process a command with AI, using cache when possible
+export async function processCommand(input: string): Promise<CommandPlan> {
   try {
-    const result = await processWithLLM(input);
+    // The user's corrections come before the cache, which may still hold
+    // the parse they corrected
+    const examples = getExamples();
+    const clauses = splitCommandChain(input);
+    if (examples.length > 0 && clauses.some(clause => findLearnedIntent(examples, clause))) {
+      const result = await processCommandPlan(input, getSettings().llm, examples);
+      return toCommandPlan(result, false, true);
+    }
+    
+    // Check if we have this command in cache
+    const cached = await findCachedPlan(input);
+    
+    if (cached) {
+      cacheStats.hits++;
+      if (cached.entry.shape) {
+        cacheStats.templateHits++;
+      }
+      touchEntry(cached.entry);
+      saveCache();
+      
+      // Return cached result if we have it
+      return toCommandPlan(cached.result, true);
+    }
     
-    // Add to cache
-    commandCache.push({
-      input,
-      result,
-      timestamp: Date.now()
-    });
+    // Process with LLM if not in cache
+    cacheStats.misses++;
+    const result = await processCommandPlan(input, getSettings().llm);
     
-    // Limit cache size to 100 entries
-    if (commandCache.length > 100) {
-      commandCache = commandCache.slice(-100);
+    if (result.length === 0) {
+      saveCache();
+      return toCommandPlan([{ type: 'unknown', confidence: 0.3 }], false);
     }
     
+    await addToCache(input, result);
+    
     // Save updated cache
     saveCache();
     
-    return {
-      ...result,
-      explanation: generateExplanation(result),
-      fromCache: false
-    };
+    return toCommandPlan(result, false);
   } catch (error) {
     console.error('Error processing command with AI:', error);
     return {
-      type: 'error',
+      steps: [{
+        type: 'error',
+        confidence: 0,
+        error: 'Failed to process command',
+        explanation: 'Sorry, I had trouble understanding that command.'
+      }],
+      explanation: 'Sorry, I had trouble understanding that command.',
       confidence: 0,
-      error: 'Failed to process command',
-      explanation: 'Sorry, I had trouble understanding that command.'
+      fromCache: false,
+      learned: false
     };
   }
 }
@@ -102,7 +349,9 @@ export async function processCommand(input: string) {
 export async function clearCommandCache() {
   try {
     commandCache = [];
+    cacheStats = { hits: 0, templateHits: 0, misses: 0, evictions: 0 };
     await AsyncStorage.removeItem(COMMAND_CACHE_KEY);
+    await AsyncStorage.removeItem(CACHE_STATS_KEY);
   } catch (error) {
     console.error('Error clearing command cache:', error);
   }
@@ -0,0 +1,104 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Bookmark, BookmarksFile, findBookmarkByName } from '../utils/bookmarks';
+
+// Storage key for saved bookmarks
+const BOOKMARKS_KEY = 'web_agent_bookmarks';
+
+// In-memory copy of the bookmarks so callers can read them synchronously
+let bookmarks: Bookmark[] = [];
+
+// Load bookmarks from AsyncStorage
+export async function initializeBookmarks() {
+  try {
+    const storedData = await AsyncStorage.getItem(BOOKMARKS_KEY);
+    if (storedData) {
+      bookmarks = JSON.parse(storedData) as Bookmark[];
+    }
+  } catch (error) {
+    console.error('Error loading bookmarks:', error);
+    bookmarks = [];
+  }
+
+  return bookmarks;
+}
+
+async function persistBookmarks() {
+  try {
+    await AsyncStorage.setItem(BOOKMARKS_KEY, JSON.stringify(bookmarks));
+  } catch (error) {
+    console.error('Error saving bookmarks:', error);
+  }
+}
+
+// Get all bookmarks in name order
+export function getBookmarks(): Bookmark[] {
+  return [...bookmarks].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Find a bookmark by the name used in a command (case-insensitive)
+export function findBookmark(name: string): Bookmark | undefined {
+  return findBookmarkByName(bookmarks, name);
+}
+
+// Save a bookmark, replacing any existing bookmark with the same name
+export async function saveBookmark(name: string, url: string, title = '') {
+  if (!name.trim()) {
+    throw new Error('Bookmark name cannot be empty');
+  }
+
+  const now = Date.now();
+  const existing = findBookmark(name);
+
+  const bookmark: Bookmark = existing
+    ? { ...existing, url, title, updatedAt: now }
+    : { id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`, name: name.trim(), url, title, createdAt: now, updatedAt: now };
+
+  bookmarks = [...bookmarks.filter(entry => entry.id !== bookmark.id), bookmark];
+  await persistBookmarks();
+
+  return bookmark;
+}
+
+// Rename a bookmark or change its address
+export async function updateBookmark(id: string, changes: Partial<Pick<Bookmark, 'name' | 'url'>>) {
+  const existing = bookmarks.find(bookmark => bookmark.id === id);
+  if (!existing) {
+    throw new Error('Bookmark not found');
+  }
+
+  if (changes.name !== undefined) {
+    const clash = findBookmark(changes.name);
+    if (!changes.name.trim()) {
+      throw new Error('Bookmark name cannot be empty');
+    }
+    if (clash && clash.id !== id) {
+      throw new Error(`A bookmark named "${changes.name.trim()}" already exists`);
+    }
+  }
+
+  const updated: Bookmark = {
+    ...existing,
+    ...changes,
+    name: (changes.name ?? existing.name).trim(),
+    updatedAt: Date.now(),
+  };
+
+  bookmarks = bookmarks.map(bookmark => (bookmark.id === id ? updated : bookmark));
+  await persistBookmarks();
+
+  return updated;
+}
+
+// Delete a bookmark
+export async function deleteBookmark(id: string) {
+  bookmarks = bookmarks.filter(bookmark => bookmark.id !== id);
+  await persistBookmarks();
+}
+
+// Add imported bookmarks; an imported bookmark replaces one with the same name
+export async function importBookmarks(entries: BookmarksFile['bookmarks']) {
+  for (const entry of entries) {
+    await saveBookmark(entry.name, entry.url, entry.title);
+  }
+  return entries.length;
+}
@@ -0,0 +1,67 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CommandIntent } from '../utils/nlpProcessor';
+import { LabeledExample, examplesToDataset } from '../utils/intentExamples';
+import { getCacheKey } from '../utils/commandCache';
+
+// Storage key for the user's corrections
+const EXAMPLES_KEY = 'web_agent_labeled_examples';
+
+// In-memory copy of the examples so callers can read them synchronously
+let examples: LabeledExample[] = [];
+
+// Load examples from AsyncStorage
+export async function initializeExamples() {
+  try {
+    const storedData = await AsyncStorage.getItem(EXAMPLES_KEY);
+    if (storedData) {
+      examples = JSON.parse(storedData) as LabeledExample[];
+    }
+  } catch (error) {
+    console.error('Error loading corrections:', error);
+    examples = [];
+  }
+
+  return examples;
+}
+
+async function persistExamples() {
+  try {
+    await AsyncStorage.setItem(EXAMPLES_KEY, JSON.stringify(examples));
+  } catch (error) {
+    console.error('Error saving corrections:', error);
+  }
+}
+
+// Get all examples, newest first
+export function getExamples(): LabeledExample[] {
+  return [...examples].sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// Save a correction, replacing any earlier one for the same input
+export async function saveExample(input: string, intent: CommandIntent) {
+  const now = Date.now();
+  const key = getCacheKey(input);
+
+  const example: LabeledExample = {
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    input: input.trim(),
+    intent,
+    createdAt: now,
+  };
+
+  examples = [...examples.filter(entry => getCacheKey(entry.input) !== key), example];
+  await persistExamples();
+
+  return example;
+}
+
+// Delete a correction
+export async function deleteExample(id: string) {
+  examples = examples.filter(example => example.id !== id);
+  await persistExamples();
+}
+
+// The corrections as a labeled dataset, oldest first
+export function exportExamples(): string {
+  return examplesToDataset(getExamples().reverse());
+}
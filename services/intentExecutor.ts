@@ -0,0 +1,703 @@
+import { CommandIntent } from '../utils/nlpProcessor';
+import { PageSnapshot, SnapshotElement } from '../utils/pageSnapshot';
+import { PageBridge } from '../utils/webViewProtocol';
+import {
+  ClickResult,
+  TypeResult,
+  ScrollResult,
+  HoverResult,
+  PressKeyResult,
+  SelectOptionResult,
+  WaitForTextResult,
+  WaitForPageReadyResult,
+  ReadValueResult,
+  ExtractDataResult,
+  ReadArticleResult,
+  PageArticle,
+  ShowMarksResult
+} from '../utils/pageScripts';
+import { DataTable, MAX_EXTRACTED_ROWS, describeTableKind, pickColumns } from '../utils/dataTable';
+import { getAmbiguousMatches } from '../utils/elementMatching';
+import { checkValue, describeComparison } from '../utils/valueChecks';
+import { PageSummarizer, localSummarizer, MAX_ARTICLE_CHARS } from '../utils/pageSummarizer';
+import {
+  DEFAULT_SEARCH_SETTINGS,
+  SearchSettings,
+  buildSearchUrl,
+  findSearchEngine,
+  findSiteSearch,
+  getWebSearchEngine,
+  isWebSearchTarget
+} from '../utils/searchEngines';
+import { SiteAlias, resolveSite } from '../utils/siteResolver';
+import { DEFAULT_WAIT_TIMEOUT, MAX_WAIT_TIMEOUT } from '../utils/agentScript';
+import { MIN_EXECUTION_CONFIDENCE } from '../utils/intentSchema';
+import { findSnapshotElement, findSnapshotMatches } from './snapshotStore';
+
+// A "which one did you mean?" question for the user
+export interface ElementChoiceRequest {
+  target: string;
+  // Numbered 1..n on the page, in this order
+  candidates: SnapshotElement[];
+}
+
+// What the executor needs from whatever shows the page: the WebView in the
+// app, or a jsdom window in the headless runner
+export interface IntentExecutorHost {
+  callInPage: PageBridge['callInPage'];
+  // Each resolves once the resulting page has loaded (false if it failed)
+  loadUrl(url: string): Promise<boolean>;
+  goBack(): Promise<boolean>;
+  goForward(): Promise<boolean>;
+  reload(): Promise<boolean>;
+  refreshSnapshot(): Promise<PageSnapshot | null>;
+  addStatusUpdate(message: string): void;
+  addHistoryItem(message: string): void;
+  // App-level commands (help, macros); hosts without them reject system intents
+  handleSystemIntent?(intent: CommandIntent): Promise<boolean> | boolean;
+  // Opens, switches and closes tabs; open_tab intents arrive with a full URL.
+  // Hosts showing a single page reject tab intents.
+  handleTabIntent?(intent: CommandIntent): Promise<boolean> | boolean;
+  // Asks which element a target meant; resolves to null if the user cancels.
+  // Hosts that cannot ask get the best scoring match instead.
+  chooseElement?(request: ElementChoiceRequest): Promise<SnapshotElement | null>;
+  // How long waits without their own timeout may take
+  waitTimeoutMs?: number;
+  // Receives tables pulled out of the page by extraction intents
+  onDataExtracted?(table: DataTable): void;
+  // Summarizes pages for reading intents; the local summarizer is the default
+  summarizer?: PageSummarizer;
+  // Search engine and site searches; Google and the built-in sites by default
+  searchSettings?: SearchSettings;
+  // The user's names for sites, e.g. "wiki" -> https://wiki.example.org
+  siteAliases?: SiteAlias[];
+}
+
+export interface IntentExecutor {
+  // Waits stop early, and fail, once the signal aborts
+  execute(intent: CommandIntent, signal?: AbortSignal): Promise<boolean>;
+  waitFor(text: string, timeoutMs: number, signal?: AbortSignal): Promise<boolean>;
+  hasText(text: string): Promise<boolean>;
+  extract(selector: string): Promise<string[]>;
+}
+
+const describeError = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+// Resolves after the delay, or as soon as the signal aborts
+const pause = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const done = () => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', done);
+    resolve();
+  };
+  const timer = setTimeout(done, ms);
+  signal?.addEventListener('abort', done);
+  if (signal?.aborted) done();
+});
+
+// Settles like the promise, or resolves to null as soon as the signal aborts.
+// The page keeps waiting on its side, but nothing is listening any more.
+const unlessAborted = <T>(promise: Promise<T>, signal?: AbortSignal) => {
+  if (!signal) return promise;
+  return new Promise<T | null>((resolve, reject) => {
+    const stop = () => resolve(null);
+    signal.addEventListener('abort', stop);
+    if (signal.aborted) stop();
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', stop));
+  });
+};
+
+// Most paragraphs shown by "read this page", and links listed under a summary
+const MAX_READ_PARAGRAPHS = 15;
+const MAX_SOURCE_LINKS = 5;
+
+/**
+ * Creates the executor that turns intents into page actions
+ * @param host The page host and status callbacks
+ * @returns The executor; it also satisfies the script runner's ScriptExecutor
+ */
+export function createIntentExecutor(host: IntentExecutorHost): IntentExecutor {
+  const { callInPage, addStatusUpdate, addHistoryItem } = host;
+  const refreshSnapshot = () => {
+    host.refreshSnapshot();
+  };
+
+  const searchSettings = host.searchSettings || DEFAULT_SEARCH_SETTINGS;
+
+  // The address for a site name, or a web search for text that is not one
+  const toSiteUrl = (site: string) => {
+    const resolved = resolveSite(site, host.siteAliases);
+    return resolved.kind === 'url'
+      ? resolved.url
+      : buildSearchUrl(getWebSearchEngine(searchSettings).template, resolved.query);
+  };
+
+  const navigateToSite = (site: string) => {
+    addStatusUpdate(`Processing URL: "${site}"`);
+
+    const resolved = resolveSite(site, host.siteAliases);
+    if (resolved.kind === 'search') {
+      addStatusUpdate(`"${site}" is not a web address, searching for it instead`);
+      return searchWeb(resolved.query);
+    }
+
+    const processedUrl = resolved.url;
+    if (resolved.source === 'alias') {
+      addStatusUpdate(`Using your shortcut "${site}": ${processedUrl}`);
+    } else if (resolved.source === 'known') {
+      addStatusUpdate(`Resolved "${site}" to ${processedUrl}`);
+    } else if (processedUrl !== site) {
+      addStatusUpdate(`Completed the address: "${processedUrl}"`);
+    }
+
+    addStatusUpdate(`Initiating navigation to: ${processedUrl}`);
+    addHistoryItem(`Navigating to ${processedUrl}`);
+    return host.loadUrl(processedUrl);
+  };
+
+  const searchWeb = (query: string, target?: string) => {
+    // "the web" or "online" is no particular site
+    const site = target && !isWebSearchTarget(target) ? target : undefined;
+    addStatusUpdate(`Preparing search for: "${query}"${site ? ` on ${site}` : ''}`);
+
+    const siteSearch = site ? findSiteSearch(searchSettings.sites, site) : undefined;
+    if (siteSearch) {
+      const searchUrl = buildSearchUrl(siteSearch.template, query);
+      addStatusUpdate(`Encoded search URL: ${searchUrl}`);
+      addHistoryItem(`Searching ${siteSearch.name} for "${query}"`);
+      return host.loadUrl(searchUrl);
+    }
+
+    // "search bing for ..." uses that engine rather than the default one;
+    // any other site is left out, since the query alone is what was asked for
+    const namedEngine = site ? findSearchEngine(site) : undefined;
+    if (site && !namedEngine) {
+      addStatusUpdate(`No site search named "${site}", searching the web for "${query}"`);
+    }
+
+    const requested = namedEngine ? namedEngine.id : searchSettings.engine;
+    const engine = getWebSearchEngine({ ...searchSettings, engine: requested });
+    if (engine.id !== requested) {
+      addStatusUpdate(`No SearXNG URL is set, using ${engine.label}`);
+    }
+    const searchUrl = buildSearchUrl(engine.template, query);
+    addStatusUpdate(`Encoded search URL: ${searchUrl}`);
+    addHistoryItem(`Searching for "${query}"`);
+    addStatusUpdate(`Initiated ${engine.label} search for: "${query}"`);
+    return host.loadUrl(searchUrl);
+  };
+
+  // Resolve a target to a snapshot id, asking the user when several elements
+  // match about equally well. Null means the user cancelled.
+  const resolveClickTarget = async (element: string): Promise<string | undefined | null> => {
+    const matches = findSnapshotMatches(element);
+    const ambiguous = getAmbiguousMatches(matches);
+
+    if (ambiguous.length > 1 && host.chooseElement) {
+      const candidates = ambiguous.map(match => match.element);
+      addStatusUpdate(`"${element}" matches ${candidates.length} elements about equally well, asking which one`);
+
+      try {
+        await callInPage<ShowMarksResult>('showMarks', [
+          candidates.map((candidate, index) => ({ id: candidate.id, label: String(index + 1) })),
+        ]);
+      } catch (error) {
+        // The marks only help the user pick; the question still stands without them
+        addStatusUpdate(`Could not mark the candidates on the page: ${describeError(error)}`);
+      }
+
+      const choice = await host.chooseElement({ target: element, candidates });
+      callInPage('clearMarks').catch(() => undefined);
+
+      if (!choice) {
+        return null;
+      }
+      addStatusUpdate(`Using element #${choice.id} (${choice.role} "${choice.name}")`);
+      return choice.id;
+    }
+
+    const best = matches.find(match => match.element.visible);
+    if (best) {
+      if (ambiguous.length > 1) {
+        addStatusUpdate(`"${element}" matches ${ambiguous.length} elements about equally well, using the first`);
+      }
+      addStatusUpdate(`Matched snapshot element #${best.element.id} (${best.element.role} "${best.element.name}")`);
+    }
+    return best?.element.id;
+  };
+
+  const clickElement = async (element: string, elementId?: string) => {
+    // Prefer the snapshot id: either given explicitly or resolved from the text
+    let targetId = elementId && /^\d+$/.test(elementId) ? elementId : undefined;
+
+    if (targetId) {
+      const snapshotElement = findSnapshotElement(targetId);
+      addStatusUpdate(`Looking for element #${targetId}${snapshotElement ? ` (${snapshotElement.role} "${snapshotElement.name}")` : ''}`);
+    } else {
+      addStatusUpdate(`Looking for element containing text: "${element}"`);
+      const resolved = await resolveClickTarget(element);
+      if (resolved === null) {
+        addHistoryItem(`Cancelled clicking "${element}"`);
+        addStatusUpdate('Click cancelled by user');
+        return false;
+      }
+      targetId = resolved;
+    }
+
+    const description = element || `#${targetId}`;
+    addHistoryItem(`Attempting to click "${description}"`);
+
+    try {
+      const result = await callInPage<ClickResult>('clickElement', [element, targetId || null]);
+
+      if (!result.found) {
+        addStatusUpdate(`Error: Could not find any element containing "${description}"`);
+        return false;
+      }
+
+      addStatusUpdate(`Found element: <${result.tagName.toLowerCase()}> with text "${result.text}"`);
+      addStatusUpdate(`Clicking on element...`);
+      // The click fires after a short highlight, so wait before re-reading the page
+      setTimeout(refreshSnapshot, 1000);
+      return true;
+    } catch (error) {
+      addStatusUpdate(`Error: Click on "${description}" failed: ${describeError(error)}`);
+      return false;
+    }
+  };
+
+  const typeText = async (text: string, field?: string, submit?: boolean, elementId?: string) => {
+    const targetId = elementId && /^\d+$/.test(elementId) ? elementId : undefined;
+    const fieldDescription = field ? ` into the ${field} field` : targetId ? ` into element #${targetId}` : '';
+    addStatusUpdate(`Preparing to type text: "${text}"${fieldDescription}`);
+    addHistoryItem(`Typing "${text}"${fieldDescription}`);
+
+    try {
+      const result = await callInPage<TypeResult>('typeText', [text, field || null, !!submit, targetId || null]);
+
+      if (!result.typed) {
+        addStatusUpdate(result.reason === 'fieldNotFound'
+          ? `Error: Could not find a field matching "${field}"`
+          : `Error: There is no text field on this page to type into`);
+        return false;
+      }
+
+      addStatusUpdate(`Text entered into ${result.element}${result.submitted ? ' and submitted' : ''}`);
+      refreshSnapshot();
+      return true;
+    } catch (error) {
+      addStatusUpdate(`Error: Typing failed: ${describeError(error)}`);
+      return false;
+    }
+  };
+
+  const scrollPage = async (direction: string, target?: string) => {
+    const description = target ? `to "${target}"` : direction === 'top' || direction === 'bottom' ? `to the ${direction}` : direction;
+    addStatusUpdate(`Scrolling ${description}`);
+    addHistoryItem(`Scrolling ${description}`);
+
+    try {
+      const result = await callInPage<ScrollResult>('scrollPage', [direction, target || null]);
+
+      if (!result.scrolled) {
+        addStatusUpdate(result.reason === 'targetNotFound'
+          ? `Error: Could not find a section matching "${target}"`
+          : `Already at the ${direction === 'up' || direction === 'top' ? 'top' : 'bottom'} of the page`);
+        return result.reason === 'atEdge';
+      }
+
+      addStatusUpdate(`Scrolled ${result.target ? `to "${result.target}"` : 'page'} (position ${Math.round(result.y)}px)`);
+      setTimeout(refreshSnapshot, 500);
+      return true;
+    } catch (error) {
+      addStatusUpdate(`Error: Scrolling failed: ${describeError(error)}`);
+      return false;
+    }
+  };
+
+  const hoverElement = async (element: string, elementId?: string) => {
+    const targetId = elementId && /^\d+$/.test(elementId)
+      ? elementId
+      : findSnapshotMatches(element).find(match => match.element.visible)?.element.id;
+    const description = element || `#${targetId}`;
+    addStatusUpdate(`Looking for element to hover: "${description}"`);
+    addHistoryItem(`Hovering over "${description}"`);
+
+    try {
+      const result = await callInPage<HoverResult>('hoverElement', [element, targetId || null]);
+
+      if (!result.hovered) {
+        addStatusUpdate(`Error: Could not find any element containing "${description}"`);
+        return false;
+      }
+
+      addStatusUpdate(`Hovering over <${result.tagName.toLowerCase()}> with text "${result.text}"`);
+      setTimeout(refreshSnapshot, 500);
+      return true;
+    } catch (error) {
+      addStatusUpdate(`Error: Hover failed: ${describeError(error)}`);
+      return false;
+    }
+  };
+
+  const pressKey = async (key: string) => {
+    addStatusUpdate(`Pressing the ${key} key`);
+    addHistoryItem(`Pressing ${key}`);
+
+    try {
+      const result = await callInPage<PressKeyResult>('pressKey', [key]);
+      addStatusUpdate(`Pressed ${result.key} on ${result.element}${result.submitted ? ' and submitted the form' : ''}`);
+      refreshSnapshot();
+      return true;
+    } catch (error) {
+      addStatusUpdate(`Error: Key press failed: ${describeError(error)}`);
+      return false;
+    }
+  };
+
+  const selectOption = async (option: string, field: string) => {
+    addStatusUpdate(`Choosing "${option}" in the ${field} dropdown`);
+    addHistoryItem(`Choosing "${option}" in ${field}`);
+
+    try {
+      const result = await callInPage<SelectOptionResult>('selectOption', [option, field]);
+
+      if (!result.selected) {
+        if (result.reason === 'fieldNotFound') {
+          addStatusUpdate(`Error: Could not find a dropdown matching "${field}"`);
+        } else {
+          addStatusUpdate(`Error: "${option}" is not an option in ${result.field}. Options include: ${result.options.join(', ')}`);
+        }
+        return false;
+      }
+
+      addStatusUpdate(`Selected "${result.option}" in ${result.field}`);
+      refreshSnapshot();
+      return true;
+    } catch (error) {
+      addStatusUpdate(`Error: Selecting an option failed: ${describeError(error)}`);
+      return false;
+    }
+  };
+
+  const execute = async (intent: CommandIntent, signal?: AbortSignal): Promise<boolean> => {
+    if (intent.confidence < MIN_EXECUTION_CONFIDENCE) {
+      addHistoryItem(`I'm not confident I understood that correctly. Try rephrasing or type "help".`);
+      addStatusUpdate(`Low confidence (${Math.round(intent.confidence * 100)}%) - unable to execute command`);
+      return false;
+    }
+
+    switch (intent.type) {
+      case 'navigation':
+        return navigateToSite(intent.url || '');
+
+      case 'search':
+        return searchWeb(intent.query || '', intent.target);
+
+      case 'navigation_control':
+        switch (intent.action) {
+          case 'back':
+            addHistoryItem('Going back to previous page');
+            addStatusUpdate('Navigating to previous page in history');
+            return host.goBack();
+
+          case 'forward':
+            addHistoryItem('Going forward to next page');
+            addStatusUpdate('Navigating to next page in history');
+            return host.goForward();
+
+          case 'reload':
+            addHistoryItem('Reloading page');
+            addStatusUpdate('Refreshing current page content');
+            return host.reload();
+
+          default:
+            return false;
+        }
+
+      case 'interaction':
+        switch (intent.action) {
+          case 'click':
+            return clickElement(intent.target || '', intent.elementId);
+
+          case 'type':
+            return typeText(intent.text || '', intent.target, intent.submit, intent.elementId);
+
+          case 'scroll':
+            return scrollPage(intent.direction || 'down', intent.target);
+
+          case 'hover':
+            return hoverElement(intent.target || '', intent.elementId);
+
+          case 'press_key':
+            return pressKey(intent.key || 'Enter');
+
+          case 'select_option':
+            return selectOption(intent.text || '', intent.target || '');
+
+          default:
+            addStatusUpdate(`Unsupported interaction: ${intent.action}`);
+            return false;
+        }
+
+      case 'wait':
+        return runWait(intent, signal);
+
+      case 'assertion':
+        return runCheck(intent);
+
+      case 'extraction':
+        return extractData(intent.target || '');
+
+      case 'reading':
+        return readPage(intent.action !== 'read_page');
+
+      case 'system':
+        if (host.handleSystemIntent) {
+          return host.handleSystemIntent(intent);
+        }
+        addStatusUpdate(`System command "${intent.action}" is not available here`);
+        return false;
+
+      case 'tab':
+        if (host.handleTabIntent) {
+          return host.handleTabIntent(intent.url ? { ...intent, url: toSiteUrl(intent.url) } : intent);
+        }
+        addStatusUpdate(`Tab command "${intent.action}" is not available here`);
+        return false;
+
+      default:
+        addHistoryItem('I\'m not sure what you want me to do. Try rephrasing or type "help".');
+        addStatusUpdate('Command intent unclear or unsupported');
+        return false;
+    }
+  };
+
+  // Run a page-side wait, carrying on across page loads until the deadline.
+  // Resolves to null if no page answered in time or the signal aborted.
+  const waitInPage = async <T>(
+    name: 'waitForText' | 'waitForPageReady',
+    args: (remaining: number) => unknown[],
+    timeoutMs: number,
+    signal?: AbortSignal
+  ) => {
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline && !signal?.aborted) {
+      const remaining = deadline - Date.now();
+      try {
+        return await unlessAborted(callInPage<T>(name, args(remaining), remaining + 2000), signal);
+      } catch {
+        // The page navigated away mid-wait; give the next page a moment to start
+        await pause(500, signal);
+      }
+    }
+
+    return null;
+  };
+
+  const waitFor = async (text: string, timeoutMs: number, signal?: AbortSignal) => {
+    const result = await waitInPage<WaitForTextResult>('waitForText', remaining => [text, remaining], timeoutMs, signal);
+    return !!result?.found;
+  };
+
+  const waitForGone = async (text: string, timeoutMs: number, signal?: AbortSignal) => {
+    const result = await waitInPage<WaitForTextResult>('waitForText', remaining => [text, remaining, true], timeoutMs, signal);
+    return !!result && !result.found;
+  };
+
+  const waitForLoad = async (timeoutMs: number, signal?: AbortSignal) => {
+    const result = await waitInPage<WaitForPageReadyResult>('waitForPageReady', remaining => [remaining], timeoutMs, signal);
+    return !!result?.ready;
+  };
+
+  const runWait = async (intent: CommandIntent, signal?: AbortSignal) => {
+    const timeoutMs = Math.min(intent.timeoutMs || host.waitTimeoutMs || DEFAULT_WAIT_TIMEOUT, MAX_WAIT_TIMEOUT);
+    const seconds = `${Math.round(timeoutMs / 100) / 10}s`;
+    const started = Date.now();
+    const elapsed = () => `${Math.round((Date.now() - started) / 100) / 10}s`;
+
+    switch (intent.action) {
+      case 'wait_for_time':
+        addHistoryItem(`Waiting ${seconds}`);
+        await pause(timeoutMs, signal);
+        if (signal?.aborted) {
+          addStatusUpdate(`Stopped waiting after ${elapsed()}`);
+          return false;
+        }
+        addStatusUpdate(`Waited ${seconds}`);
+        return true;
+
+      case 'wait_for_load': {
+        addHistoryItem('Waiting for the page to load');
+        addStatusUpdate(`Waiting up to ${seconds} for the page to finish loading`);
+        const ready = await waitForLoad(timeoutMs, signal);
+        if (signal?.aborted) {
+          addStatusUpdate(`Stopped waiting after ${elapsed()}`);
+          return false;
+        }
+        addStatusUpdate(ready ? `PASS: Page ready after ${elapsed()}` : `FAIL: Page still loading after ${seconds}`);
+        if (ready) refreshSnapshot();
+        return ready;
+      }
+
+      case 'wait_for_text':
+      case 'wait_for_text_gone': {
+        const text = intent.text || '';
+        const gone = intent.action === 'wait_for_text_gone';
+        addHistoryItem(`Waiting for "${text}" to ${gone ? 'disappear' : 'appear'}`);
+        addStatusUpdate(`Waiting up to ${seconds} for "${text}" to ${gone ? 'disappear' : 'appear'}`);
+        const met = gone ? await waitForGone(text, timeoutMs, signal) : await waitFor(text, timeoutMs, signal);
+        if (signal?.aborted) {
+          addStatusUpdate(`Stopped waiting after ${elapsed()}`);
+          return false;
+        }
+        addStatusUpdate(met
+          ? `PASS: "${text}" ${gone ? 'disappeared' : 'appeared'} after ${elapsed()}`
+          : `FAIL: "${text}" ${gone ? 'was still shown' : 'did not appear'} within ${seconds}`);
+        if (met) refreshSnapshot();
+        return met;
+      }
+
+      default:
+        addStatusUpdate(`Unsupported wait: ${intent.action}`);
+        return false;
+    }
+  };
+
+  const runCheck = async (intent: CommandIntent) => {
+    try {
+      switch (intent.action) {
+        case 'check_text':
+        case 'check_text_absent': {
+          const text = intent.text || '';
+          const absent = intent.action === 'check_text_absent';
+          addHistoryItem(`Checking that the page ${absent ? 'does not show' : 'shows'} "${text}"`);
+          const shown = await callInPage<boolean>('hasText', [text]);
+          const passed = shown !== absent;
+          addStatusUpdate(`${passed ? 'PASS' : 'FAIL'}: "${text}" is ${shown ? '' : 'not '}on the page`);
+          return passed;
+        }
+
+        case 'check_value': {
+          const target = intent.target || '';
+          const comparison = intent.comparison || 'eq';
+          const expected = intent.text || '';
+          addHistoryItem(`Checking that the ${target} is ${describeComparison(comparison, expected)}`);
+          const value = await callInPage<ReadValueResult>('readValue', [target]);
+
+          if (!value.found) {
+            addStatusUpdate(`FAIL: Could not find a ${target} on the page`);
+            return false;
+          }
+
+          const check = checkValue(value.text, comparison, expected);
+          addStatusUpdate(`${check.passed ? 'PASS' : 'FAIL'}: ${target} ${check.detail} (read from "${value.source}")`);
+          return check.passed;
+        }
+
+        default:
+          addStatusUpdate(`Unsupported check: ${intent.action}`);
+          return false;
+      }
+    } catch (error) {
+      addStatusUpdate(`FAIL: Could not check the page: ${describeError(error)}`);
+      return false;
+    }
+  };
+
+  const extractData = async (request: string) => {
+    addStatusUpdate(`Looking for ${request ? `"${request}"` : 'tables, lists or repeated items'} on the page`);
+    addHistoryItem(`Extracting ${request || 'data'} from the page`);
+
+    try {
+      const result = await callInPage<ExtractDataResult>('extractData', [request, MAX_EXTRACTED_ROWS], 10000);
+
+      if (!result.found) {
+        addStatusUpdate('Error: Found no table, list or repeated items on this page');
+        addHistoryItem('I could not find any tables, lists or repeated items to extract here.');
+        return false;
+      }
+
+      const { found, ...extracted } = result;
+      const table = pickColumns(extracted, request);
+      const truncated = table.totalRows > table.rows.length ? ` (first ${table.rows.length} of ${table.totalRows})` : '';
+      addStatusUpdate(`Extracted ${table.rows.length} rows x ${table.columns.length} columns from ${describeTableKind(table.kind)} "${table.title}"${truncated}`);
+      addHistoryItem(`Extracted ${table.rows.length} rows with columns: ${table.columns.join(', ')}`);
+      host.onDataExtracted?.(table);
+      return true;
+    } catch (error) {
+      addStatusUpdate(`Error: Extraction failed: ${describeError(error)}`);
+      return false;
+    }
+  };
+
+  // Source line and the article's own links, shown under a summary or reading
+  const addSourceLinks = (article: PageArticle) => {
+    addHistoryItem(`Source: ${article.url}`);
+    if (article.links.length > 0) {
+      addHistoryItem('Links in the article:');
+      article.links.slice(0, MAX_SOURCE_LINKS).forEach(link => addHistoryItem(`- ${link.text}: ${link.href}`));
+    }
+  };
+
+  const readPage = async (summarize: boolean) => {
+    addStatusUpdate('Looking for the main content of the page');
+
+    let article: PageArticle;
+    try {
+      const result = await callInPage<ReadArticleResult>('readArticle', [MAX_ARTICLE_CHARS], 10000);
+      if (!result.found) {
+        addStatusUpdate('Error: Found no article text on this page');
+        addHistoryItem('I could not find the main text of this page.');
+        return false;
+      }
+      const { found, ...rest } = result;
+      article = rest;
+    } catch (error) {
+      addStatusUpdate(`Error: Reading the page failed: ${describeError(error)}`);
+      return false;
+    }
+
+    const byline = article.byline ? ` by ${article.byline}` : '';
+    addStatusUpdate(`Found "${article.title}"${byline}: ${article.paragraphs.length} paragraphs, about ${article.wordCount} words`);
+
+    if (!summarize) {
+      addHistoryItem(`${article.title}${byline}`);
+      article.paragraphs.slice(0, MAX_READ_PARAGRAPHS).forEach(paragraph => addHistoryItem(paragraph));
+      if (article.paragraphs.length > MAX_READ_PARAGRAPHS || article.truncated) {
+        addHistoryItem('(The article continues on the page)');
+      }
+      addSourceLinks(article);
+      return true;
+    }
+
+    const summarizer = host.summarizer || localSummarizer;
+    let summary;
+    try {
+      addStatusUpdate(`Summarizing with the ${summarizer.id === 'local' ? 'local summarizer' : `${summarizer.id} model`}`);
+      summary = await summarizer.summarize(article);
+    } catch (error) {
+      if (summarizer === localSummarizer) {
+        addStatusUpdate(`Error: Summarizing failed: ${describeError(error)}`);
+        return false;
+      }
+      addStatusUpdate(`Model summary failed (${describeError(error)}), using the local summarizer`);
+      summary = await localSummarizer.summarize(article);
+    }
+
+    addHistoryItem(`Summary of "${article.title}":`);
+    addHistoryItem(summary.summary);
+    summary.keyPoints.forEach(point => addHistoryItem(`- ${point}`));
+    addSourceLinks(article);
+    addStatusUpdate('Summary added to the history');
+    return true;
+  };
+
+  return {
+    execute,
+    waitFor,
+    hasText: text => callInPage<boolean>('hasText', [text]),
+    extract: selector => callInPage<string[]>('extractText', [selector]),
+  };
+}
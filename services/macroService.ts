@@ -0,0 +1,94 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CommandIntent } from '../utils/nlpProcessor';
+import { Macro } from '../utils/macros';
+
+// Storage key for recorded macros
+const MACROS_KEY = 'web_agent_macros';
+
+// In-memory copy of the macros so callers can read them synchronously
+let macros: Macro[] = [];
+
+// Load macros from AsyncStorage
+export async function initializeMacros() {
+  try {
+    const storedData = await AsyncStorage.getItem(MACROS_KEY);
+    if (storedData) {
+      macros = JSON.parse(storedData) as Macro[];
+    }
+  } catch (error) {
+    console.error('Error loading macros:', error);
+    macros = [];
+  }
+
+  return macros;
+}
+
+async function persistMacros() {
+  try {
+    await AsyncStorage.setItem(MACROS_KEY, JSON.stringify(macros));
+  } catch (error) {
+    console.error('Error saving macros:', error);
+  }
+}
+
+// Get all macros, most recently updated first
+export function getMacros(): Macro[] {
+  return [...macros].sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+// Find a macro by name (case-insensitive)
+export function findMacro(name: string): Macro | undefined {
+  const needle = name.toLowerCase().trim();
+  return macros.find(macro => macro.name.toLowerCase() === needle);
+}
+
+// Save a macro, replacing any existing macro with the same name
+export async function saveMacro(name: string, steps: CommandIntent[]) {
+  const now = Date.now();
+  const existing = findMacro(name);
+
+  const macro: Macro = existing
+    ? { ...existing, steps, updatedAt: now }
+    : { id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`, name: name.trim(), steps, createdAt: now, updatedAt: now };
+
+  macros = [...macros.filter(entry => entry.id !== macro.id), macro];
+  await persistMacros();
+
+  return macro;
+}
+
+// Update a macro's name or steps
+export async function updateMacro(id: string, changes: Partial<Pick<Macro, 'name' | 'steps'>>) {
+  const existing = macros.find(macro => macro.id === id);
+  if (!existing) {
+    throw new Error('Macro not found');
+  }
+
+  if (changes.name !== undefined) {
+    const clash = findMacro(changes.name);
+    if (!changes.name.trim()) {
+      throw new Error('Macro name cannot be empty');
+    }
+    if (clash && clash.id !== id) {
+      throw new Error(`A macro named "${changes.name.trim()}" already exists`);
+    }
+  }
+
+  const updated: Macro = {
+    ...existing,
+    ...changes,
+    name: (changes.name ?? existing.name).trim(),
+    updatedAt: Date.now(),
+  };
+
+  macros = macros.map(macro => (macro.id === id ? updated : macro));
+  await persistMacros();
+
+  return updated;
+}
+
+// Delete a macro
+export async function deleteMacro(id: string) {
+  macros = macros.filter(macro => macro.id !== id);
+  await persistMacros();
+}
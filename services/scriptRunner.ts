@@ -0,0 +1,164 @@
+import { CommandIntent, generateExplanation } from '../utils/nlpProcessor';
+import { AgentScript, ScriptStep, fillIntentVariables, fillVariables } from '../utils/agentScript';
+
+// Most items a "for each" step visits
+const MAX_LOOP_ITEMS = 50;
+
+// The page operations a script needs; WebAgent backs these with the WebView
+export interface ScriptExecutor {
+  // Runs a command intent exactly as a typed command would; waits give up
+  // early once the signal aborts
+  execute(intent: CommandIntent, signal?: AbortSignal): Promise<boolean>;
+  // Resolves true once the text or an element labelled with it appears
+  waitFor(text: string, timeoutMs: number, signal?: AbortSignal): Promise<boolean>;
+  // Whether the page currently shows the text
+  hasText(text: string): Promise<boolean>;
+  // Text of every element matching a CSS selector
+  extract(selector: string): Promise<string[]>;
+}
+
+export interface ScriptRunUpdate {
+  line: number;
+  description: string;
+  status: 'running' | 'done' | 'failed';
+}
+
+export interface ScriptRunResult {
+  succeeded: boolean;
+  cancelled: boolean;
+  // Extracted values by variable name
+  variables: Record<string, string>;
+  failedLine?: number;
+  message: string;
+}
+
+export interface ScriptRunOptions {
+  onUpdate?: (update: ScriptRunUpdate) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Describes a step with its variables filled, for status messages
+ * @param step The script step
+ * @param variables Current variable values
+ * @returns A short description
+ */
+export function describeScriptStep(step: ScriptStep, variables: Record<string, string>): string {
+  switch (step.kind) {
+    case 'command':
+      return generateExplanation(fillIntentVariables(step.intent, variables));
+    case 'wait':
+      return `Wait up to ${step.timeoutMs / 1000}s for "${fillVariables(step.text, variables)}"`;
+    case 'assert':
+      return `Check that the page shows "${fillVariables(step.text, variables)}"`;
+    case 'extract':
+      return `Extract "${fillVariables(step.selector, variables)}" as {${step.variable}}`;
+    case 'forEach':
+      return `For each "${fillVariables(step.selector, variables)}" as {${step.variable}}`;
+  }
+}
+
+// Where and why a run stopped
+interface StepFailure {
+  line: number;
+  message: string;
+}
+
+/**
+ * Runs a parsed script, stopping at the first step that fails
+ * @param script The script from parseAgentScript
+ * @param executor The page operations to run steps with
+ * @param options Progress callback and cancellation signal
+ * @returns Whether the script finished and the variables it extracted
+ */
+export async function runAgentScript(
+  script: AgentScript,
+  executor: ScriptExecutor,
+  options: ScriptRunOptions = {}
+): Promise<ScriptRunResult> {
+  const { onUpdate, signal } = options;
+  const variables: Record<string, string> = {};
+
+  // Runs steps in order; returns the first failure, or null if all succeeded
+  const runSteps = async (steps: ScriptStep[]): Promise<StepFailure | null> => {
+    for (const step of steps) {
+      if (signal?.aborted) {
+        return { line: step.line, message: 'Stopped by user' };
+      }
+
+      const description = describeScriptStep(step, variables);
+      onUpdate?.({ line: step.line, description, status: 'running' });
+
+      let failure: StepFailure | null;
+      try {
+        failure = await runStep(step);
+      } catch (error) {
+        failure = { line: step.line, message: error instanceof Error ? error.message : String(error) };
+      }
+
+      onUpdate?.({ line: step.line, description, status: failure ? 'failed' : 'done' });
+      if (failure) {
+        return failure;
+      }
+    }
+    return null;
+  };
+
+  const fail = (step: ScriptStep, message: string): StepFailure => ({ line: step.line, message });
+
+  const runStep = async (step: ScriptStep): Promise<StepFailure | null> => {
+    switch (step.kind) {
+      case 'command':
+        return (await executor.execute(fillIntentVariables(step.intent, variables), signal)) ? null : fail(step, 'Command failed');
+
+      case 'wait': {
+        const text = fillVariables(step.text, variables);
+        if (await executor.waitFor(text, step.timeoutMs, signal)) {
+          return null;
+        }
+        return fail(step, signal?.aborted ? 'Stopped by user' : `"${text}" did not appear within ${step.timeoutMs / 1000}s`);
+      }
+
+      case 'assert': {
+        const text = fillVariables(step.text, variables);
+        return (await executor.hasText(text)) ? null : fail(step, `Expected the page to show "${text}"`);
+      }
+
+      case 'extract': {
+        const selector = fillVariables(step.selector, variables);
+        const values = await executor.extract(selector);
+        if (values.length === 0) {
+          return fail(step, `Nothing matched "${selector}"`);
+        }
+        variables[step.variable] = values[0];
+        return null;
+      }
+
+      case 'forEach': {
+        const items = (await executor.extract(fillVariables(step.selector, variables))).slice(0, MAX_LOOP_ITEMS);
+        for (const item of items) {
+          variables[step.variable] = item;
+          const failure = await runSteps(step.steps);
+          if (failure) {
+            return failure;
+          }
+        }
+        delete variables[step.variable];
+        return null;
+      }
+    }
+  };
+
+  const failure = await runSteps(script.steps);
+  if (failure) {
+    return {
+      succeeded: false,
+      cancelled: Boolean(signal?.aborted),
+      variables,
+      failedLine: failure.line,
+      message: `Line ${failure.line}: ${failure.message}`,
+    };
+  }
+
+  return { succeeded: true, cancelled: false, variables, message: `Finished "${script.name}"` };
+}
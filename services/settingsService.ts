@@ -0,0 +1,72 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_LLM_CONFIG, LLMConfig } from '../utils/llmProviders';
+import { DEFAULT_SEARCH_SETTINGS, SearchSettings } from '../utils/searchEngines';
+import { SiteAlias } from '../utils/siteResolver';
+
+// Storage key for the agent settings
+const SETTINGS_KEY = 'web_agent_settings';
+
+// Interface for the persisted agent settings
+export interface AgentSettings {
+  llm: LLMConfig;
+  // Most actions a goal may take before the agent stops
+  maxAgentSteps: number;
+  // How long "wait until ..." commands wait when they do not say
+  waitTimeoutMs: number;
+  // Web search engine and the sites "search <site> for ..." can use
+  search: SearchSettings;
+  // The user's own site names for "go to ...", checked before the built-in ones
+  siteAliases: SiteAlias[];
+}
+
+const DEFAULT_SETTINGS: AgentSettings = {
+  llm: DEFAULT_LLM_CONFIG,
+  maxAgentSteps: 10,
+  waitTimeoutMs: 10000,
+  search: DEFAULT_SEARCH_SETTINGS,
+  siteAliases: [],
+};
+
+// In-memory copy of the settings so callers can read them synchronously
+let settings: AgentSettings = DEFAULT_SETTINGS;
+
+// Load settings from AsyncStorage
+export async function initializeSettings() {
+  try {
+    const storedData = await AsyncStorage.getItem(SETTINGS_KEY);
+    if (storedData) {
+      const parsed = JSON.parse(storedData) as Partial<AgentSettings>;
+
+      // Merge with defaults so settings added in newer versions get a value
+      settings = {
+        ...DEFAULT_SETTINGS,
+        ...parsed,
+        llm: { ...DEFAULT_SETTINGS.llm, ...parsed.llm },
+        search: { ...DEFAULT_SETTINGS.search, ...parsed.search },
+      };
+    }
+  } catch (error) {
+    console.error('Error loading settings:', error);
+    settings = DEFAULT_SETTINGS;
+  }
+
+  return settings;
+}
+
+// Get the current settings
+export function getSettings(): AgentSettings {
+  return settings;
+}
+
+// Update and persist settings
+export async function updateSettings(changes: Partial<AgentSettings>) {
+  settings = { ...settings, ...changes };
+
+  try {
+    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving settings:', error);
+  }
+
+  return settings;
+}
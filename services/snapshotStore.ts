@@ -0,0 +1,41 @@
+import { PageSnapshot, SnapshotElement } from '../utils/pageSnapshot';
+import { ElementMatch, rankElementMatches } from '../utils/elementMatching';
+
+type SnapshotListener = (snapshot: PageSnapshot | null) => void;
+
+// Latest snapshot of the page shown in the web agent
+let currentSnapshot: PageSnapshot | null = null;
+const listeners = new Set<SnapshotListener>();
+
+// Replace the current snapshot and notify subscribers
+export function setPageSnapshot(snapshot: PageSnapshot | null) {
+  currentSnapshot = snapshot;
+  listeners.forEach(listener => listener(snapshot));
+}
+
+// Get the latest snapshot, if one has been taken
+export function getPageSnapshot(): PageSnapshot | null {
+  return currentSnapshot;
+}
+
+// Subscribe to snapshot changes; returns an unsubscribe function
+export function subscribeToSnapshot(listener: SnapshotListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Look up an element by its snapshot id
+export function findSnapshotElement(id: string): SnapshotElement | undefined {
+  return currentSnapshot?.elements.find(element => element.id === id);
+}
+
+/**
+ * Finds snapshot elements whose name, label or value matches the given text
+ * @param text The target description, e.g. "sign in" or "the sign in button"
+ * @returns Scored matches, best first (see rankElementMatches)
+ */
+export function findSnapshotMatches(text: string): ElementMatch[] {
+  return currentSnapshot ? rankElementMatches(currentSnapshot.elements, text) : [];
+}
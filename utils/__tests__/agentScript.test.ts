@@ -0,0 +1,28 @@
+import { parseAgentScript } from '../agentScript';
+
+describe('parseAgentScript', () => {
+  it('runs every step of a chained command line, all on that line', async () => {
+    const { script, errors } = await parseAgentScript('name: Chain\ngo to example.com then click pricing\nassert "Plans"');
+
+    expect(errors).toEqual([]);
+    expect(script?.steps).toEqual([
+      { kind: 'command', line: 2, intent: expect.objectContaining({ action: 'navigate', url: 'example.com' }) },
+      { kind: 'command', line: 2, intent: expect.objectContaining({ action: 'click', target: 'pricing' }) },
+      { kind: 'assert', line: 3, text: 'Plans' },
+    ]);
+  });
+
+  it('expands chains in JSON command steps too', async () => {
+    const { script, errors } = await parseAgentScript('[\n  { "command": "go back and reload" }\n]');
+
+    expect(errors).toEqual([]);
+    expect(script?.steps.map(step => step.kind === 'command' && step.intent.action)).toEqual(['back', 'reload']);
+  });
+
+  it('reports the line of a clause it cannot run', async () => {
+    const { script, errors } = await parseAgentScript('go to example.com\ngo to example.com then click back');
+
+    expect(script).toBeNull();
+    expect(errors).toEqual([{ line: 2, message: expect.stringContaining('"click back" could mean more than one thing') }]);
+  });
+});
@@ -0,0 +1,62 @@
+import { AMBIGUOUS_CONFIDENCE, parseGrammar, tokenizeUtterance } from '../commandGrammar';
+
+describe('tokenizeUtterance', () => {
+  it('keeps quoted text as one token', () => {
+    const tokens = tokenizeUtterance(`type 'go back' and "Hi there" or “ok”`);
+
+    expect(tokens.map(token => [token.text, token.quoted])).toEqual([
+      ['type', false],
+      ['go back', true],
+      ['and', false],
+      ['Hi there', true],
+      ['or', false],
+      ['ok', true],
+    ]);
+  });
+
+  it('leaves apostrophes inside words alone', () => {
+    expect(tokenizeUtterance("type it's done.").map(token => token.text)).toEqual(['type', "it's", 'done']);
+  });
+});
+
+describe('parseGrammar', () => {
+  it('matches verbs as whole words', () => {
+    expect(parseGrammar('refine my results').intent).toBeNull();
+    expect(parseGrammar('enterprise pricing').intent).toBeNull();
+    expect(parseGrammar('click the backpack').intent).toMatchObject({ action: 'click', target: 'the backpack' });
+  });
+
+  it('types quoted text that reads like a command, without ambiguity', () => {
+    const parse = parseGrammar("type 'go back'");
+
+    expect(parse.intent).toMatchObject({ type: 'interaction', action: 'type', text: 'go back' });
+    expect(parse.ambiguous).toBe(false);
+  });
+
+  it('reports a slot that is a command on its own as ambiguous', () => {
+    const parse = parseGrammar('click back');
+
+    expect(parse.ambiguous).toBe(true);
+    expect(parse.intent).toMatchObject({ action: 'click', target: 'back', confidence: AMBIGUOUS_CONFIDENCE });
+    expect(parse.candidates.map(candidate => candidate.intent.action)).toEqual(['click', 'back']);
+  });
+
+  it('types a slot that is a command on its own, without ambiguity', () => {
+    for (const input of ['type back', 'type help', 'type go forward']) {
+      const parse = parseGrammar(input);
+      expect(parse.intent).toMatchObject({ action: 'type', text: input.slice(5) });
+      expect(parse.ambiguous).toBe(false);
+    }
+  });
+
+  it('prefers the most specific rule', () => {
+    expect(parseGrammar('go to the previous page').intent).toMatchObject({ action: 'back' });
+    expect(parseGrammar('open the pricing page').intent).toMatchObject({ action: 'click', target: 'pricing' });
+    expect(parseGrammar('open the new york times').intent).toMatchObject({ action: 'navigate', url: 'new york times' });
+  });
+
+  it('ignores politeness around the command but not inside a slot', () => {
+    expect(parseGrammar('could you go back please').intent).toMatchObject({ action: 'back' });
+    expect(parseGrammar('type thank you').intent).toMatchObject({ action: 'type', text: 'thank you' });
+  });
+});
@@ -0,0 +1,35 @@
+import { getAmbiguousMatches, rankElementMatches } from '../elementMatching';
+import { SnapshotElement } from '../pageSnapshot';
+
+const element = (id: string, name: string, overrides: Partial<SnapshotElement> = {}): SnapshotElement => ({
+  id,
+  role: 'button',
+  name,
+  tagName: 'button',
+  bounds: { x: 0, y: 0, width: 100, height: 30 },
+  visible: true,
+  inViewport: true,
+  ...overrides,
+});
+
+const ambiguousIds = (elements: SnapshotElement[], target: string) =>
+  getAmbiguousMatches(rankElementMatches(elements, target)).map(match => match.element.id);
+
+describe('getAmbiguousMatches', () => {
+  it('asks about exact ties', () => {
+    expect(ambiguousIds([element('1', 'Save'), element('2', 'Save')], 'save')).toEqual(['1', '2']);
+  });
+
+  it('asks about near ties', () => {
+    // The second button is scrolled out of view, one point behind
+    const elements = [element('1', 'Save'), element('2', 'Save', { inViewport: false })];
+
+    expect(ambiguousIds(elements, 'save')).toEqual(['1', '2']);
+  });
+
+  it('picks a clear winner without asking', () => {
+    // An exact name beats a partial one by more than the margin
+    expect(ambiguousIds([element('1', 'Save'), element('2', 'Save draft')], 'save')).toEqual([]);
+    expect(ambiguousIds([element('1', 'Save'), element('2', 'Save', { visible: false })], 'save')).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+import { parseCommandIntentJson, validateCommandIntent } from '../intentSchema';
+import { processWithLLM } from '../nlpProcessor';
+
+describe('validateCommandIntent', () => {
+  it('accepts an action its type knows', () => {
+    expect(validateCommandIntent({ type: 'interaction', action: 'click', target: 'sign in', confidence: 0.9 })).not.toBeNull();
+    expect(validateCommandIntent({ type: 'unknown', confidence: 0.3 })).not.toBeNull();
+  });
+
+  it('rejects an action that belongs to another type or to none', () => {
+    expect(validateCommandIntent({ type: 'navigation', action: 'click', url: 'example.com', confidence: 0.9 })).toBeNull();
+    expect(validateCommandIntent({ type: 'interaction', action: 'tap', target: 'sign in', confidence: 0.9 })).toBeNull();
+    expect(parseCommandIntentJson('{"type":"search","action":"find","query":"cats","confidence":0.9}')).toBeNull();
+  });
+});
+
+describe('processWithLLM', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  it('falls back to the regex parser when the model invents an action', async () => {
+    const content = JSON.stringify({ type: 'navigation_control', action: 'go_back', confidence: 0.9 });
+    global.fetch = jest.fn(async () => ({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content } }] }),
+    })) as unknown as typeof fetch;
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const intent = await processWithLLM('go back', {
+      provider: 'openai',
+      baseUrl: 'http://localhost:11435/v1',
+      model: 'test',
+      timeoutMs: 1000,
+    });
+
+    expect(global.fetch).toHaveBeenCalled();
+    expect(intent).toMatchObject({ type: 'navigation_control', action: 'back' });
+  });
+});
@@ -0,0 +1,35 @@
+import { applyMacroParameters, toMacroStep } from '../macros';
+import { CommandIntent } from '../nlpProcessor';
+import { SnapshotElement } from '../pageSnapshot';
+
+const element = (name: string, label?: string): SnapshotElement => ({
+  id: '7',
+  role: 'button',
+  name,
+  tagName: 'button',
+  ...(label ? { label } : {}),
+  bounds: { x: 0, y: 0, width: 80, height: 24 },
+  visible: true,
+  inViewport: true,
+});
+
+describe('toMacroStep', () => {
+  const clickById: CommandIntent = { type: 'interaction', action: 'click', elementId: '7', confidence: 0.9 };
+
+  it('records an id-only step by the element name, so it replays on a fresh page', () => {
+    const step = toMacroStep(clickById, element('Sign in'));
+
+    expect(step).toMatchObject({ action: 'click', target: 'Sign in' });
+    expect(applyMacroParameters([step], {})[0]).toEqual({ type: 'interaction', action: 'click', target: 'Sign in', confidence: 0.9 });
+  });
+
+  it('falls back to the label and keeps a target the step already has', () => {
+    expect(toMacroStep(clickById, element('', 'Search')).target).toBe('Search');
+    expect(toMacroStep({ ...clickById, target: 'log in' }, element('Sign in')).target).toBe('log in');
+  });
+
+  it('refuses an id-only step whose element has no name', () => {
+    expect(() => toMacroStep(clickById, element(''))).toThrow('Element #7 has no name');
+    expect(() => toMacroStep(clickById)).toThrow('Element #7 has no name');
+  });
+});
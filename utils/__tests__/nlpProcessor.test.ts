@@ -0,0 +1,94 @@
+import { getAmbiguousReadings, processCommandPlan, processNaturalLanguage, splitCommandChain } from '../nlpProcessor';
+import { MIN_EXECUTION_CONFIDENCE } from '../intentSchema';
+
+describe('splitCommandChain', () => {
+  it('splits on then, semicolons and "and" before a verb', () => {
+    expect(splitCommandChain('go to example.com then search for expo and click the first result')).toEqual([
+      'go to example.com',
+      'search for expo',
+      'click the first result',
+    ]);
+    expect(splitCommandChain('search for salt and pepper')).toEqual(['search for salt and pepper']);
+  });
+
+  it('keeps "and search" with the field it submits', async () => {
+    expect(splitCommandChain('type hello into the email field and search')).toEqual(['type hello into the email field and search']);
+    expect(splitCommandChain('type hi into q and submit then click next')).toEqual(['type hi into q and submit', 'click next']);
+    expect(splitCommandChain('click login and press enter')).toEqual(['click login', 'press enter']);
+    expect(await processCommandPlan('type hello into the email field and search')).toEqual([
+      expect.objectContaining({ action: 'type', text: 'hello', target: 'email', submit: true }),
+    ]);
+  });
+
+  it('keeps separators inside quoted text', () => {
+    expect(splitCommandChain('type "a then b"')).toEqual(['type "a then b"']);
+    expect(splitCommandChain("type 'salt; pepper' into search")).toEqual(["type 'salt; pepper' into search"]);
+    expect(splitCommandChain('type “x; y” then go back')).toEqual(['type “x; y”', 'go back']);
+  });
+});
+
+describe('ambiguous commands', () => {
+  it('lists one reading per meaning, best first', () => {
+    expect(getAmbiguousReadings('click back')).toEqual([
+      expect.objectContaining({ action: 'click', target: 'back' }),
+      expect.objectContaining({ action: 'back' }),
+    ]);
+    expect(getAmbiguousReadings("click 'back'")).toEqual([]);
+  });
+
+  it('parses them below the confidence the executor needs', async () => {
+    expect((await processNaturalLanguage('click back')).confidence).toBeLessThan(MIN_EXECUTION_CONFIDENCE);
+    expect((await processNaturalLanguage("click 'back'")).confidence).toBeGreaterThanOrEqual(MIN_EXECUTION_CONFIDENCE);
+  });
+});
+
+describe('processCommandPlan', () => {
+  it('uses a correction for its own step and parses the others', async () => {
+    const examples = [{
+      id: '1',
+      input: 'open the deals',
+      intent: { type: 'interaction', action: 'click', target: 'deals', confidence: 1 },
+      createdAt: 0,
+    }];
+
+    expect(await processCommandPlan('go to example.com then open the deals', undefined, examples)).toEqual([
+      expect.objectContaining({ action: 'navigate', url: 'example.com' }),
+      expect.objectContaining({ action: 'click', target: 'deals' }),
+    ]);
+  });
+});
+
+describe('site searches', () => {
+  it('keeps the site a search is for', async () => {
+    expect(await processNaturalLanguage('search wikipedia for octopus')).toMatchObject({ target: 'wikipedia', query: 'octopus' });
+    expect(await processNaturalLanguage('search google for expo')).toMatchObject({ target: 'google', query: 'expo' });
+  });
+
+  it('reads the web at large as a plain search', async () => {
+    for (const input of ['search the web for cats', 'search online for cats', 'search the internet for cats']) {
+      const intent = await processNaturalLanguage(input);
+      expect(intent).toMatchObject({ type: 'search', query: 'cats' });
+      expect(intent.target).toBeUndefined();
+    }
+  });
+
+  it('does not take the user\'s own things for a site', async () => {
+    expect((await processNaturalLanguage('search my inbox for invoices')).target).toBeUndefined();
+    expect((await processNaturalLanguage('search email for invoices')).target).toBeUndefined();
+  });
+});
+
+describe('typing into a field', () => {
+  it('only reads in/on as a field when a field word follows', async () => {
+    expect(await processNaturalLanguage('type meet me on monday')).toMatchObject({ action: 'type', text: 'meet me on monday' });
+    expect((await processNaturalLanguage('type meet me on monday')).target).toBeUndefined();
+    expect(await processNaturalLanguage('type hi on the comment box')).toMatchObject({ text: 'hi', target: 'comment' });
+  });
+
+  it('does not split quoted text', async () => {
+    const intent = await processNaturalLanguage("type 'meet me on monday'");
+    expect(intent).toMatchObject({ action: 'type', text: 'meet me on monday' });
+    expect(intent.target).toBeUndefined();
+    expect(await processNaturalLanguage("type 'a into b' into notes")).toMatchObject({ text: 'a into b', target: 'notes' });
+  });
+});
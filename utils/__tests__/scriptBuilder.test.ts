@@ -0,0 +1,59 @@
+import { buildPageInvocation, serializeScriptValue } from '../scriptBuilder';
+import { PAGE_LIBRARY_GLOBAL, PAGE_LIBRARY_VERSION } from '../pageLibrary';
+
+const HOSTILE_VALUES = [
+  `it's "quoted"`,
+  'C:\\path\\to\\file \\" \\\\',
+  'line one\nline two\r\n\ttabbed',
+  '</script><script>alert(1)</script>',
+  '<!-- comment --> & ]]>',
+  'separators \u2028 and \u2029 inside',
+  "'); alert(1); ('",
+  '${not a template}',
+];
+
+describe('serializeScriptValue', () => {
+  it.each(HOSTILE_VALUES)('round-trips %j', value => {
+    const literal = serializeScriptValue(value);
+
+    expect(new Function(`return ${literal};`)()).toBe(value);
+  });
+
+  it('leaves nothing that could end a script tag or a line', () => {
+    const literal = serializeScriptValue(HOSTILE_VALUES);
+
+    expect(literal).not.toMatch(/<\/script/i);
+    expect(literal).not.toMatch(/[\n\r\u2028\u2029]/);
+    expect(new Function(`return ${literal};`)()).toEqual(HOSTILE_VALUES);
+  });
+
+  it('sends undefined as null and rejects functions', () => {
+    expect(serializeScriptValue(undefined)).toBe('null');
+    expect(() => serializeScriptValue(() => 1)).toThrow('Cannot pass a function');
+  });
+});
+
+describe('buildPageInvocation', () => {
+  // A page where the current library is installed, with a function that
+  // hands back whatever it was called with
+  const runInPage = (script: string) => {
+    const window = {
+      [PAGE_LIBRARY_GLOBAL]: {
+        version: PAGE_LIBRARY_VERSION,
+        helpers: {},
+        functions: { typeText: (...args: unknown[]) => args },
+      },
+    };
+    return new Function('window', `return ${script};`)(window);
+  };
+
+  it('passes hostile arguments to the page function unchanged', () => {
+    const args = [...HOSTILE_VALUES, { nested: HOSTILE_VALUES[3] }, 42, null];
+
+    expect(runInPage(buildPageInvocation('typeText', args))).toEqual(args);
+  });
+
+  it('rejects names that are not page functions', () => {
+    expect(() => buildPageInvocation('alert(1)' as never)).toThrow('Unknown page function');
+  });
+});
@@ -0,0 +1,20 @@
+import { findSearchEngine, findSiteSearch, DEFAULT_SITE_SEARCHES, isWebSearchTarget } from '../searchEngines';
+
+describe('findSearchEngine', () => {
+  it('finds engines by id or label', () => {
+    expect(findSearchEngine('google')?.id).toBe('google');
+    expect(findSearchEngine('Duck Duck Go')?.id).toBe('duckduckgo');
+    expect(findSearchEngine('bing.com')?.id).toBe('bing');
+    expect(findSearchEngine('wikipedia')).toBeUndefined();
+  });
+});
+
+describe('search targets', () => {
+  it('tells the web at large from a site', () => {
+    expect(isWebSearchTarget('the web')).toBe(true);
+    expect(isWebSearchTarget('online')).toBe(true);
+    expect(isWebSearchTarget('the internet')).toBe(true);
+    expect(isWebSearchTarget('amazon')).toBe(false);
+    expect(findSiteSearch(DEFAULT_SITE_SEARCHES, 'You Tube')?.name).toBe('YouTube');
+  });
+});
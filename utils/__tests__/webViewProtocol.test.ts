@@ -0,0 +1,31 @@
+import { PROTOCOL_VERSION, createPageBridge, parsePageMessage } from '../webViewProtocol';
+
+describe('parsePageMessage', () => {
+  const message = (fields: Record<string, unknown>) => JSON.stringify({ v: PROTOCOL_VERSION, ...fields });
+
+  it('accepts a message with the fields its type needs', () => {
+    expect(parsePageMessage(message({ type: 'pdfText', text: 'Hello' }))).toEqual({ v: PROTOCOL_VERSION, type: 'pdfText', text: 'Hello' });
+    expect(parsePageMessage(message({ type: 'callResult', id: '1', ok: false, error: 'boom' }))).not.toBeNull();
+  });
+
+  it('rejects anything else', () => {
+    expect(parsePageMessage('not json')).toBeNull();
+    expect(parsePageMessage('null')).toBeNull();
+    expect(parsePageMessage(JSON.stringify({ v: PROTOCOL_VERSION + 1, type: 'pageReady' }))).toBeNull();
+    expect(parsePageMessage(message({ type: 'toString' }))).toBeNull();
+    expect(parsePageMessage(message({ type: 'pdfText', text: 42 }))).toBeNull();
+    expect(parsePageMessage(message({ type: 'callResult', id: '1', ok: false }))).toBeNull();
+  });
+});
+
+describe('createPageBridge', () => {
+  it('resolves a call with the value the page posts back', async () => {
+    const scripts: string[] = [];
+    const bridge = createPageBridge(script => scripts.push(script));
+    const call = bridge.callInPage<number>('scrollPage');
+    const id = scripts[0].match(/var id = "([^"]+)"/)?.[1];
+
+    expect(bridge.handleMessage({ v: PROTOCOL_VERSION, type: 'callResult', id: id!, ok: true, value: 3 })).toBe(true);
+    await expect(call).resolves.toBe(3);
+  });
+});
@@ -0,0 +1,62 @@
+import { processCommandPlan, CommandIntent } from './nlpProcessor';
+import { AgentDecision } from './intentSchema';
+import { LLMConfig, PlannerRequest, createLLMProvider } from './llmProviders';
+
+// Chooses the next action towards a goal from the current page and history.
+// Aborting the signal cancels a request to the model.
+export interface AgentPlanner {
+  id: string;
+  nextStep(request: PlannerRequest, signal?: AbortSignal): Promise<AgentDecision>;
+}
+
+/**
+ * Plans offline by parsing the goal as a command chain and replaying its steps
+ * in order. It cannot look at the page, so it only suits goals that spell out
+ * each step ("open github.com then click sign in").
+ */
+const chainPlanner: AgentPlanner = {
+  id: 'regex',
+
+  async nextStep(request: PlannerRequest) {
+    const last = request.history[request.history.length - 1];
+    if (last && !last.succeeded) {
+      return { status: 'fail', reasoning: 'The previous step failed and there is no model to plan around it' };
+    }
+
+    const steps: CommandIntent[] = await processCommandPlan(request.goal);
+    const next = steps[request.history.length];
+
+    if (!next) {
+      return { status: 'done', reasoning: `Completed all ${steps.length} step(s) of the goal` };
+    }
+
+    if (next.type === 'unknown') {
+      return { status: 'fail', reasoning: 'Could not understand the goal without a language model' };
+    }
+
+    return {
+      status: 'continue',
+      reasoning: `Step ${request.history.length + 1} of ${steps.length} from the goal`,
+      action: next,
+    };
+  },
+};
+
+/**
+ * Creates the planner for the configured provider
+ * @param config The LLM settings
+ * @returns A model-backed planner, or the offline chain planner for the regex provider
+ */
+export function createAgentPlanner(config: LLMConfig): AgentPlanner {
+  const provider = config.provider === 'regex' ? null : createLLMProvider(config);
+  const planNextStep = provider?.planNextStep;
+
+  if (!provider || !planNextStep) {
+    return chainPlanner;
+  }
+
+  return {
+    id: provider.id,
+    nextStep: (request, signal) => planNextStep.call(provider, request, signal),
+  };
+}
@@ -0,0 +1,540 @@
+// Human-writable agent scripts. A script is either plain text, one step per
+// line, or JSON. Both forms compile to the same ScriptStep tree, validated
+// up front so errors can point at the offending line before anything runs.
+//
+// Text form:
+//
+//   name: Daily report
+//   go to dashboard.example.com
+//   wait for "Sign in" within 10s
+//   type alice@example.com into email
+//   click sign in
+//   assert "Welcome back"
+//   extract ".total" as total
+//   for each ".report-row a" as report
+//     click {report}
+//   end
+//
+// Any line that is not a script keyword is parsed like a typed command, so
+// "extract all prices" without "as" pulls a table rather than one value, and
+// "go to example.com then click pricing" runs both steps.
+
+import { getAmbiguousReadings, processNaturalLanguage, splitCommandChain, CommandIntent } from './nlpProcessor';
+import { MIN_EXECUTION_CONFIDENCE, validateCommandIntent } from './intentSchema';
+
+export type ScriptStep =
+  | { kind: 'command'; line: number; intent: CommandIntent }
+  | { kind: 'wait'; line: number; text: string; timeoutMs: number }
+  | { kind: 'assert'; line: number; text: string }
+  | { kind: 'extract'; line: number; selector: string; variable: string }
+  | { kind: 'forEach'; line: number; selector: string; variable: string; steps: ScriptStep[] };
+
+export interface AgentScript {
+  name: string;
+  format: 'text' | 'json';
+  steps: ScriptStep[];
+}
+
+export interface ScriptError {
+  line: number;
+  message: string;
+}
+
+export interface ScriptParseResult {
+  script: AgentScript | null;
+  errors: ScriptError[];
+}
+
+// Default time a wait step gives the page
+export const DEFAULT_WAIT_TIMEOUT = 10000;
+
+// Longest a wait step may be configured to block
+export const MAX_WAIT_TIMEOUT = 120000;
+
+const VARIABLE_PATTERN = /\{(\w+)\}/g;
+
+// Waits that are commands rather than wait-for-text steps: page loads,
+// disappearing text and fixed pauses
+const INTENT_WAIT = /^wait\s+(?:(?:for|until)\s+(?:the\s+)?page\b|(?:for|until)\s+.+\s(?:disappears?|goes away|is gone|vanishes)\b|(?:for\s+)?\d)/i;
+
+// Intent fields that may reference script variables
+const VARIABLE_FIELDS = ['url', 'query', 'text', 'target', 'key'] as const;
+
+/**
+ * Replaces {name} references with variable values
+ * @param text The text to fill
+ * @param variables Values by lowercase variable name
+ * @returns The text with known variables replaced
+ */
+export function fillVariables(text: string, variables: Record<string, string>): string {
+  return text.replace(VARIABLE_PATTERN, (match, name: string) => variables[name.toLowerCase()] ?? match);
+}
+
+/**
+ * Fills variable references in every value field of an intent
+ * @param intent The intent from the script
+ * @param variables Values by lowercase variable name
+ * @returns A copy of the intent with variables filled
+ */
+export function fillIntentVariables(intent: CommandIntent, variables: Record<string, string>): CommandIntent {
+  const filled: CommandIntent = { ...intent };
+  VARIABLE_FIELDS.forEach(field => {
+    const value = intent[field];
+    if (typeof value === 'string') {
+      filled[field] = fillVariables(value, variables);
+    }
+  });
+  return filled;
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(["'])(.*)\1$/, '$2');
+}
+
+function parseTimeout(amount: string, unit: string | undefined): number {
+  const value = parseInt(amount, 10);
+  return unit && unit.toLowerCase() === 'ms' ? value : value * 1000;
+}
+
+// Lowercased {name} references in a piece of text
+function referencedVariables(text: string): string[] {
+  return Array.from(text.matchAll(VARIABLE_PATTERN), match => match[1].toLowerCase());
+}
+
+/**
+ * Checks that steps only reference variables defined before them
+ * @param steps The steps to check
+ * @param defined Variables in scope
+ * @param errors Collects any errors found
+ */
+function checkVariables(steps: ScriptStep[], defined: Set<string>, errors: ScriptError[]) {
+  const scope = new Set(defined);
+
+  const check = (line: number, text: string | undefined) => {
+    if (!text) return;
+    referencedVariables(text)
+      .filter(name => !scope.has(name))
+      .forEach(name => errors.push({ line, message: `Unknown variable {${name}}` }));
+  };
+
+  steps.forEach(step => {
+    switch (step.kind) {
+      case 'command':
+        VARIABLE_FIELDS.forEach(field => check(step.line, step.intent[field]));
+        break;
+      case 'wait':
+      case 'assert':
+        check(step.line, step.text);
+        break;
+      case 'extract':
+        check(step.line, step.selector);
+        scope.add(step.variable);
+        break;
+      case 'forEach':
+        check(step.line, step.selector);
+        checkVariables(step.steps, new Set([...scope, step.variable]), errors);
+        break;
+    }
+  });
+}
+
+// A command line becomes one step per command in its chain, all on that line
+async function parseCommandLine(command: string, line: number, errors: ScriptError[]): Promise<ScriptStep[]> {
+  const steps: ScriptStep[] = [];
+
+  for (const clause of splitCommandChain(command)) {
+    const intent = await processNaturalLanguage(clause);
+
+    if (intent.type === 'unknown' || intent.confidence < MIN_EXECUTION_CONFIDENCE) {
+      const readings = getAmbiguousReadings(clause);
+      errors.push({
+        line,
+        message: readings.length > 1
+          ? `"${clause}" could mean more than one thing; quote the text to settle it`
+          : `Could not understand "${clause}"`,
+      });
+      continue;
+    }
+
+    steps.push({ kind: 'command', line, intent });
+  }
+
+  return steps;
+}
+
+async function parseTextScript(source: string, errors: ScriptError[]): Promise<AgentScript> {
+  const script: AgentScript = { name: '', format: 'text', steps: [] };
+  // Open blocks; the innermost is last
+  const blocks: { line: number; steps: ScriptStep[] }[] = [{ line: 0, steps: script.steps }];
+
+  const lines = source.split(/\r?\n/);
+  for (let index = 0; index < lines.length; index++) {
+    const line = index + 1;
+    const text = lines[index].trim();
+    const steps = blocks[blocks.length - 1].steps;
+    let match;
+
+    if (!text || text.startsWith('#') || text.startsWith('//')) {
+      continue;
+    }
+
+    if ((match = text.match(/^name\s*:\s*(.+)$/i))) {
+      if (script.steps.length > 0 || script.name) {
+        errors.push({ line, message: 'The script name must come before the first step' });
+      }
+      script.name = unquote(match[1]);
+    } else if (!INTENT_WAIT.test(text) && (match = text.match(/^wait\s+(?:for|until)\s+(.+?)(?:\s+(?:within|timeout)\s+(\d+)\s*(ms|s|sec|secs|seconds?)?)?$/i))) {
+      const timeoutMs = match[2] ? parseTimeout(match[2], match[3]) : DEFAULT_WAIT_TIMEOUT;
+      if (timeoutMs <= 0 || timeoutMs > MAX_WAIT_TIMEOUT) {
+        errors.push({ line, message: `Wait timeout must be between 1ms and ${MAX_WAIT_TIMEOUT / 1000}s` });
+      }
+      steps.push({ kind: 'wait', line, text: unquote(match[1]), timeoutMs });
+    } else if ((match = text.match(/^assert(?:\s+text)?(?:\s+(?:present|contains))?\s+(.+)$/i))) {
+      steps.push({ kind: 'assert', line, text: unquote(match[1]) });
+    } else if ((match = text.match(/^extract\s+(.+?)\s+as\s+(\w+)$/i))) {
+      steps.push({ kind: 'extract', line, selector: unquote(match[1]), variable: match[2].toLowerCase() });
+    } else if ((match = text.match(/^for\s+each\s+(.+?)\s+as\s+(\w+)$/i))) {
+      const step: ScriptStep = { kind: 'forEach', line, selector: unquote(match[1]), variable: match[2].toLowerCase(), steps: [] };
+      steps.push(step);
+      blocks.push({ line, steps: step.steps });
+    } else if (/^for\s+each\b/i.test(text)) {
+      errors.push({ line, message: 'Expected: for each "<css selector>" as <name>' });
+    } else if (/^end$/i.test(text)) {
+      if (blocks.length === 1) {
+        errors.push({ line, message: '"end" without a matching "for each"' });
+      } else {
+        blocks.pop();
+      }
+    } else {
+      steps.push(...await parseCommandLine(text, line, errors));
+    }
+  }
+
+  blocks.slice(1).forEach(block => {
+    errors.push({ line: block.line, message: '"for each" is missing its "end"' });
+  });
+
+  return script;
+}
+
+interface LocatedJson {
+  value: unknown;
+  // Line each object or array starts on
+  lines: WeakMap<object, number>;
+}
+
+/**
+ * Parses JSON while remembering the line each object starts on, so
+ * validation errors can point at the step that caused them
+ * @param source The JSON text
+ * @returns The parsed value and the line of each object
+ */
+function parseLocatedJson(source: string): LocatedJson {
+  const lines = new WeakMap<object, number>();
+  let position = 0;
+  let line = 1;
+
+  const fail = (message: string): never => {
+    throw Object.assign(new Error(message), { line });
+  };
+
+  const skipWhitespace = () => {
+    while (position < source.length && /\s/.test(source[position])) {
+      if (source[position] === '\n') line++;
+      position++;
+    }
+  };
+
+  const expect = (token: string) => {
+    skipWhitespace();
+    if (!source.startsWith(token, position)) {
+      fail(`Expected "${token}"`);
+    }
+    position += token.length;
+  };
+
+  const parseString = (): string => {
+    const start = position;
+    position++;
+    while (position < source.length && source[position] !== '"') {
+      if (source[position] === '\\') position++;
+      if (source[position] === '\n') fail('Unterminated string');
+      position++;
+    }
+    if (position >= source.length) fail('Unterminated string');
+    position++;
+    return JSON.parse(source.slice(start, position));
+  };
+
+  const parseValue = (): unknown => {
+    skipWhitespace();
+    const char = source[position];
+
+    if (char === '{') {
+      const result: Record<string, unknown> = {};
+      lines.set(result, line);
+      position++;
+      skipWhitespace();
+      if (source[position] === '}') {
+        position++;
+        return result;
+      }
+      for (;;) {
+        skipWhitespace();
+        if (source[position] !== '"') fail('Expected a property name in double quotes');
+        const key = parseString();
+        expect(':');
+        result[key] = parseValue();
+        skipWhitespace();
+        if (source[position] === ',') {
+          position++;
+        } else if (source[position] === '}') {
+          position++;
+          return result;
+        } else {
+          fail('Expected "," or "}"');
+        }
+      }
+    }
+
+    if (char === '[') {
+      const result: unknown[] = [];
+      lines.set(result, line);
+      position++;
+      skipWhitespace();
+      if (source[position] === ']') {
+        position++;
+        return result;
+      }
+      for (;;) {
+        result.push(parseValue());
+        skipWhitespace();
+        if (source[position] === ',') {
+          position++;
+        } else if (source[position] === ']') {
+          position++;
+          return result;
+        } else {
+          fail('Expected "," or "]"');
+        }
+      }
+    }
+
+    if (char === '"') {
+      return parseString();
+    }
+
+    const literal = source.slice(position).match(/^(?:true|false|null|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)/);
+    if (!literal) {
+      fail(position >= source.length ? 'Unexpected end of file' : `Unexpected "${char}"`);
+    }
+    position += literal![0].length;
+    return JSON.parse(literal![0]);
+  };
+
+  const value = parseValue();
+  skipWhitespace();
+  if (position < source.length) {
+    fail('Unexpected text after the end of the script');
+  }
+
+  return { value, lines };
+}
+
+// Keys that name what a JSON step does; every step has exactly one
+const JSON_STEP_KEYS = ['navigate', 'click', 'type', 'press', 'command', 'intent', 'waitFor', 'assertText', 'extract', 'forEach'];
+
+async function parseJsonSteps(
+  items: unknown,
+  located: LocatedJson,
+  parentLine: number,
+  errors: ScriptError[]
+): Promise<ScriptStep[]> {
+  if (!Array.isArray(items)) {
+    errors.push({ line: parentLine, message: '"steps" must be an array' });
+    return [];
+  }
+
+  const steps: ScriptStep[] = [];
+  for (const item of items) {
+    const line = (item && typeof item === 'object' && located.lines.get(item)) || parentLine;
+
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      errors.push({ line, message: 'Each step must be an object' });
+      continue;
+    }
+
+    const step = item as Record<string, unknown>;
+    const actions = Object.keys(step).filter(key => JSON_STEP_KEYS.includes(key));
+    if (actions.length !== 1) {
+      errors.push({ line, message: `A step needs exactly one of: ${JSON_STEP_KEYS.join(', ')}` });
+      continue;
+    }
+
+    const action = actions[0];
+    const value = step[action];
+    const asVariable = typeof step.as === 'string' && /^\w+$/.test(step.as) ? step.as.toLowerCase() : null;
+
+    if (action !== 'intent' && action !== 'forEach' && (typeof value !== 'string' || !value.trim())) {
+      errors.push({ line, message: `"${action}" must be a non-empty string` });
+      continue;
+    }
+    const text = value as string;
+
+    switch (action) {
+      case 'navigate':
+        steps.push({ kind: 'command', line, intent: { type: 'navigation', action: 'navigate', url: text, confidence: 1 } });
+        break;
+
+      case 'click':
+        steps.push({ kind: 'command', line, intent: { type: 'interaction', action: 'click', target: text, confidence: 1 } });
+        break;
+
+      case 'type':
+        if (step.into !== undefined && typeof step.into !== 'string') {
+          errors.push({ line, message: '"into" must be a string' });
+          break;
+        }
+        steps.push({
+          kind: 'command',
+          line,
+          intent: {
+            type: 'interaction',
+            action: 'type',
+            text,
+            ...(step.into ? { target: step.into as string } : {}),
+            ...(step.submit === true ? { submit: true } : {}),
+            confidence: 1,
+          },
+        });
+        break;
+
+      case 'press':
+        steps.push({ kind: 'command', line, intent: { type: 'interaction', action: 'press_key', key: text, confidence: 1 } });
+        break;
+
+      case 'command': {
+        steps.push(...await parseCommandLine(text, line, errors));
+        break;
+      }
+
+      case 'intent': {
+        const intent = validateCommandIntent(value);
+        if (!intent) {
+          errors.push({ line, message: '"intent" does not match the command intent schema' });
+        } else {
+          steps.push({ kind: 'command', line, intent });
+        }
+        break;
+      }
+
+      case 'waitFor': {
+        const timeoutMs = step.timeout === undefined ? DEFAULT_WAIT_TIMEOUT : step.timeout;
+        if (typeof timeoutMs !== 'number' || timeoutMs <= 0 || timeoutMs > MAX_WAIT_TIMEOUT) {
+          errors.push({ line, message: `"timeout" must be a number of milliseconds up to ${MAX_WAIT_TIMEOUT}` });
+          break;
+        }
+        steps.push({ kind: 'wait', line, text, timeoutMs });
+        break;
+      }
+
+      case 'assertText':
+        steps.push({ kind: 'assert', line, text });
+        break;
+
+      case 'extract':
+        if (!asVariable) {
+          errors.push({ line, message: '"extract" needs an "as" variable name (letters, digits and _)' });
+          break;
+        }
+        steps.push({ kind: 'extract', line, selector: text, variable: asVariable });
+        break;
+
+      case 'forEach':
+        if (typeof value !== 'string' || !value.trim()) {
+          errors.push({ line, message: '"forEach" must be a CSS selector string' });
+          break;
+        }
+        if (!asVariable) {
+          errors.push({ line, message: '"forEach" needs an "as" variable name (letters, digits and _)' });
+          break;
+        }
+        steps.push({
+          kind: 'forEach',
+          line,
+          selector: value,
+          variable: asVariable,
+          steps: await parseJsonSteps(step.steps, located, line, errors),
+        });
+        break;
+    }
+  }
+
+  return steps;
+}
+
+async function parseJsonScript(source: string, errors: ScriptError[]): Promise<AgentScript> {
+  const script: AgentScript = { name: '', format: 'json', steps: [] };
+
+  let located: LocatedJson;
+  try {
+    located = parseLocatedJson(source);
+  } catch (error) {
+    errors.push({
+      line: (error as { line?: number }).line ?? 1,
+      message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    });
+    return script;
+  }
+
+  const root = located.value;
+  if (Array.isArray(root)) {
+    script.steps = await parseJsonSteps(root, located, 1, errors);
+  } else if (root && typeof root === 'object') {
+    const { name, steps } = root as Record<string, unknown>;
+    if (name !== undefined && typeof name !== 'string') {
+      errors.push({ line: located.lines.get(root) ?? 1, message: '"name" must be a string' });
+    }
+    script.name = typeof name === 'string' ? name : '';
+    script.steps = await parseJsonSteps(steps, located, located.lines.get(root) ?? 1, errors);
+  } else {
+    errors.push({ line: 1, message: 'A JSON script must be an array of steps or an object with "steps"' });
+  }
+
+  return script;
+}
+
+/**
+ * Parses and validates a script in text or JSON form
+ * @param source The script source
+ * @param fallbackName Name to use when the script does not declare one
+ * @returns The script, or null with line-numbered errors if it is invalid
+ */
+export async function parseAgentScript(source: string, fallbackName = 'Untitled script'): Promise<ScriptParseResult> {
+  const errors: ScriptError[] = [];
+  const trimmed = source.trim();
+  const isJson = trimmed.startsWith('{') || trimmed.startsWith('[');
+
+  const script = isJson ? await parseJsonScript(source, errors) : await parseTextScript(source, errors);
+
+  if (errors.length === 0 && script.steps.length === 0) {
+    errors.push({ line: 1, message: 'The script has no steps' });
+  }
+
+  checkVariables(script.steps, new Set(), errors);
+
+  if (errors.length > 0) {
+    return { script: null, errors: errors.sort((a, b) => a.line - b.line) };
+  }
+
+  return { script: { ...script, name: script.name || fallbackName }, errors };
+}
+
+/**
+ * Formats parse errors for display
+ * @param errors The errors from parseAgentScript
+ * @returns One "Line n: message" entry per error
+ */
+export function formatScriptErrors(errors: ScriptError[]): string[] {
+  return errors.map(error => `Line ${error.line}: ${error.message}`);
+}
@@ -0,0 +1,89 @@
+// A page saved under a name the user can say, e.g. "open standup board"
+export interface Bookmark {
+  id: string;
+  name: string;
+  url: string;
+  // The page title when the bookmark was made
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// The shape of an exported bookmarks file
+export interface BookmarksFile {
+  version: 1;
+  bookmarks: Array<Pick<Bookmark, 'name' | 'url' | 'title'>>;
+}
+
+// "the Standup Board" -> "standup board"
+export const bookmarkKey = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/["'\u201c\u201d\u2018\u2019]/g, '')
+    .replace(/^(?:(?:the|my)\s+)?(?:bookmark(?:ed)?\s+)?/, '')
+    .replace(/\s+(?:bookmark|page)$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Finds a bookmark by the name used in a command
+ * @param bookmarks The saved bookmarks
+ * @param name e.g. "standup board" or "my Standup Board bookmark"
+ * @returns The bookmark, or undefined if there is none by that name
+ */
+export function findBookmarkByName(bookmarks: Bookmark[], name: string): Bookmark | undefined {
+  const key = bookmarkKey(name);
+  return key ? bookmarks.find(bookmark => bookmarkKey(bookmark.name) === key) : undefined;
+}
+
+/**
+ * Serializes bookmarks for export
+ * @param bookmarks The bookmarks to export
+ * @returns Pretty-printed JSON in the BookmarksFile format
+ */
+export function bookmarksToJson(bookmarks: Bookmark[]): string {
+  const file: BookmarksFile = {
+    version: 1,
+    bookmarks: bookmarks.map(({ name, url, title }) => ({ name, url, title })),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Reads an exported bookmarks file; a bare array of { name, url } objects
+ * is accepted too
+ * @param text The file contents
+ * @returns The bookmarks to import
+ * @throws Error if the text is not JSON or holds no valid bookmarks
+ */
+export function parseBookmarksJson(text: string): BookmarksFile['bookmarks'] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const entries = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === 'object' && Array.isArray((parsed as BookmarksFile).bookmarks)
+      ? (parsed as BookmarksFile).bookmarks
+      : null;
+  if (!entries) {
+    throw new Error('The file does not contain a bookmarks list');
+  }
+
+  const bookmarks = entries
+    .filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object')
+    .filter(entry => typeof entry.name === 'string' && entry.name.trim() && typeof entry.url === 'string' && /^[a-z][a-z0-9+.-]*:\/\/\S+$/i.test(entry.url))
+    .map(entry => ({
+      name: (entry.name as string).trim(),
+      url: entry.url as string,
+      title: typeof entry.title === 'string' ? entry.title : '',
+    }));
+
+  if (bookmarks.length === 0) {
+    throw new Error('The file has no bookmarks with a name and an http(s) address');
+  }
+  return bookmarks;
+}
@@ -0,0 +1,99 @@
+// Tabs in the web agent. Each tab keeps its own WebView (and so its own
+// back/forward history) and its own status log; these helpers only deal with
+// the list of tabs.
+
+export interface BrowserTab {
+  id: string;
+  // The source URL given to the tab's WebView
+  url: string;
+  // Where the tab actually is after redirects and link clicks
+  currentUrl: string;
+  title: string;
+  isLoading: boolean;
+  statusUpdates: string[];
+}
+
+// Most tabs open at once; each one is a live WebView
+export const MAX_TABS = 8;
+
+// Where new tabs start when no URL is given
+export const NEW_TAB_URL = 'https://www.google.com';
+
+let nextTabNumber = 1;
+
+/**
+ * Creates a tab for a URL
+ * @param url The page to open
+ * @returns A new tab with an empty status log
+ */
+export function createTab(url: string = NEW_TAB_URL): BrowserTab {
+  return {
+    id: `tab-${nextTabNumber++}`,
+    url,
+    currentUrl: url,
+    title: '',
+    isLoading: true,
+    statusUpdates: [],
+  };
+}
+
+/**
+ * Short label for a tab strip or tab list
+ * @param tab The tab
+ * @returns The page title, or the host name while the title is unknown
+ */
+export function getTabLabel(tab: BrowserTab): string {
+  if (tab.title) {
+    return tab.title;
+  }
+  const host = tab.currentUrl.match(/^[a-z]+:\/\/(?:www\.)?([^/?#]+)/i);
+  return host ? host[1] : tab.currentUrl || 'New tab';
+}
+
+/**
+ * Finds the tab a spoken reference means
+ * @param tabs The open tabs, in strip order
+ * @param activeId The current tab
+ * @param target "2", "next", "previous", "first", "last", "this", or words
+ * from the tab's title or address such as "amazon"
+ * @returns The tab, or null if nothing matches
+ */
+export function findTab(tabs: BrowserTab[], activeId: string, target: string): BrowserTab | null {
+  const text = target.toLowerCase().trim().replace(/^(?:the\s+)?/, '').replace(/\s+tab$/, '');
+  const activeIndex = tabs.findIndex(tab => tab.id === activeId);
+
+  if (!text || /^(?:this|current|active)$/.test(text)) {
+    return tabs[activeIndex] || null;
+  }
+  if (/^\d+$/.test(text)) {
+    return tabs[parseInt(text, 10) - 1] || null;
+  }
+
+  switch (text) {
+    case 'next':
+      return tabs[(activeIndex + 1) % tabs.length] || null;
+    case 'previous':
+    case 'prev':
+      return tabs[(activeIndex - 1 + tabs.length) % tabs.length] || null;
+    case 'first':
+      return tabs[0] || null;
+    case 'last':
+      return tabs[tabs.length - 1] || null;
+  }
+
+  return tabs.find(tab => getTabLabel(tab).toLowerCase().includes(text))
+    || tabs.find(tab => tab.currentUrl.toLowerCase().includes(text.replace(/\s+/g, '')))
+    || null;
+}
+
+/**
+ * Picks the tab to show after closing one
+ * @param tabs The open tabs, including the one being closed
+ * @param closingId The tab being closed
+ * @returns The tab to its right, or to its left when it is the last one
+ */
+export function getTabAfterClose(tabs: BrowserTab[], closingId: string): BrowserTab | null {
+  const index = tabs.findIndex(tab => tab.id === closingId);
+  const rest = tabs.filter(tab => tab.id !== closingId);
+  return rest[Math.min(index, rest.length - 1)] || null;
+}
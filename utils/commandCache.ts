@@ -0,0 +1,309 @@
+import type { CommandIntent } from './nlpProcessor';
+import { MIN_EXECUTION_CONFIDENCE, validateCommandIntent } from './intentSchema';
+
+// Parsed commands are cached so repeated commands skip the model. Inputs are
+// compared after normalizing whitespace, quotes and end punctuation, and a
+// parse whose free text (search queries, typed text) appears in the input
+// is stored as a template: "search for cats" also answers "search for dogs".
+
+export interface CommandCacheEntry {
+  // Normalized input in lower case; templates have {1}, {2}... slots
+  key: string;
+  // The input that was parsed
+  input: string;
+  // The parse; template slot fields hold their {n} placeholder
+  result: CommandIntent[];
+  // For templates, the offline parser's reading of the input. A new input
+  // only fills the template when the offline parser reads it the same way,
+  // so "type hello into email" does not reuse the "type {1}" template.
+  shape?: string;
+  createdAt: number;
+  lastUsedAt: number;
+  expiresAt: number;
+  hits: number;
+  // Corrected by the user: never expires or gets evicted
+  pinned?: boolean;
+}
+
+// The shape of an exported cache file
+export interface CommandCacheFile {
+  version: 1;
+  entries: Array<Pick<CommandCacheEntry, 'key' | 'input' | 'result' | 'shape' | 'pinned'>>;
+}
+
+export interface CommandCacheStats {
+  hits: number;
+  // Hits answered by filling a template rather than an exact match
+  templateHits: number;
+  misses: number;
+  evictions: number;
+}
+
+// Most entries kept; the least recently used go first
+export const MAX_CACHE_ENTRIES = 100;
+
+const HOUR = 60 * 60 * 1000;
+
+// How long each intent type stays cached. Zero means never: "go back" and
+// friends depend on where the browser is, and unknown results are failures
+// that a retry, a reworded command or a better provider might fix.
+export const INTENT_TTL_MS: Record<string, number> = {
+  navigation: 24 * HOUR,
+  search: 24 * HOUR,
+  interaction: 6 * HOUR,
+  wait: 24 * HOUR,
+  assertion: 24 * HOUR,
+  extraction: 24 * HOUR,
+  reading: 24 * HOUR,
+  tab: 1 * HOUR,
+  system: 1 * HOUR,
+  navigation_control: 0,
+  unknown: 0,
+  error: 0,
+};
+
+const DEFAULT_TTL_MS = 6 * HOUR;
+
+// Intent fields that can hold text copied from the input
+export type SlotField = 'query' | 'text' | 'target' | 'url';
+
+// Fields the cache turns into slots: free text that never changes what
+// kind of command it is
+const SLOT_FIELDS: readonly SlotField[] = ['query', 'text'];
+
+/**
+ * Tidies an input for cache lookups: straight quotes, single spaces and no
+ * punctuation at either end. Casing is kept so template slots keep it.
+ * @param input The command as typed
+ * @returns The normalized command
+ */
+export function normalizeCommand(input: string): string {
+  return input
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s,.;:!?]+|[\s,.;:!?]+$/g, '');
+}
+
+/**
+ * The exact-match cache key for an input
+ * @param input The command as typed
+ * @returns The normalized command in lower case
+ */
+export function getCacheKey(input: string): string {
+  return normalizeCommand(input).toLowerCase();
+}
+
+/**
+ * How long a parse may stay cached
+ * @param steps The parsed steps
+ * @returns The shortest time-to-live of its steps; 0 if it must not be cached
+ */
+export function getPlanTtl(steps: CommandIntent[]): number {
+  // An uncertain parse is not reused; the user is asked again next time
+  if (steps.length === 0 || steps.some(step => step.confidence < MIN_EXECUTION_CONFIDENCE)) {
+    return 0;
+  }
+  // Snapshot ids only mean something on the page they were read from
+  return Math.min(...steps.map(step => (step.elementId ? 0 : INTENT_TTL_MS[step.type] ?? DEFAULT_TTL_MS)));
+}
+
+/**
+ * Whether an entry may still be used
+ * @param entry A cache entry
+ * @param now The current time
+ * @returns True if the entry is pinned or has not expired
+ */
+export function isEntryLive(entry: CommandCacheEntry, now: number): boolean {
+  return !!entry.pinned || entry.expiresAt > now;
+}
+
+/**
+ * Summarizes what kind of plan the steps are, for the template guard
+ * @param steps Parsed steps
+ * @returns Each step's type, action and which fields it sets
+ */
+export function describePlanShape(steps: CommandIntent[]): string {
+  return steps
+    .map(step => {
+      const fields = Object.keys(step).filter(field => !['type', 'action', 'confidence'].includes(field)).sort();
+      return `${step.type}:${step.action || ''}(${fields.join(',')})`;
+    })
+    .join(' > ');
+}
+
+const isWordChar = (char: string | undefined) => !!char && /[a-z0-9]/i.test(char);
+
+/**
+ * Turns a parse into a template by replacing the free text it copied from
+ * the input with numbered slots
+ * @param input The command as typed
+ * @param steps Its parse
+ * @param fields The fields that may become slots
+ * @returns The template key and steps, or null when the parse has no free
+ * text that appears exactly once, as whole words, in the input
+ */
+export function toCommandTemplate(
+  input: string,
+  steps: CommandIntent[],
+  fields: readonly SlotField[] = SLOT_FIELDS
+): { key: string; result: CommandIntent[] } | null {
+  const lower = normalizeCommand(input).toLowerCase();
+  const spans: Array<{ start: number; end: number; step: number; field: SlotField }> = [];
+
+  steps.forEach((step, stepIndex) => {
+    fields.forEach(field => {
+      const value = step[field]?.trim().toLowerCase();
+      if (!value) return;
+
+      const start = lower.indexOf(value);
+      const end = start + value.length;
+      const unique = start >= 0 && lower.indexOf(value, start + 1) < 0;
+      const wholeWords = unique && !isWordChar(lower[start - 1]) && !isWordChar(lower[end]);
+      const overlaps = spans.some(span => start < span.end && end > span.start);
+
+      if (wholeWords && !overlaps) {
+        spans.push({ start, end, step: stepIndex, field });
+      }
+    });
+  });
+
+  if (spans.length === 0) {
+    return null;
+  }
+
+  spans.sort((a, b) => a.start - b.start);
+  let key = '';
+  let position = 0;
+  const result = steps.map(step => ({ ...step }));
+  spans.forEach((span, index) => {
+    key += `${lower.slice(position, span.start)}{${index + 1}}`;
+    position = span.end;
+    result[span.step][span.field] = `{${index + 1}}`;
+  });
+  key += lower.slice(position);
+
+  return { key, result };
+}
+
+/**
+ * Whether template steps still hold their {n} slot placeholders
+ * @param steps A template's steps
+ * @param fields The fields that may hold slots
+ * @returns True if at least one slot field is a placeholder
+ */
+export function hasTemplateSlots(steps: CommandIntent[], fields: readonly SlotField[] = SLOT_FIELDS): boolean {
+  return steps.some(step => fields.some(field => /^\{\d+\}$/.test(step[field] || '')));
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Fills a template entry from a new input
+ * @param entry A cached template
+ * @param input The command as typed
+ * @param fields The fields that may hold slots
+ * @returns The steps with the input's text in the slots, or null if the
+ * input does not fit the template
+ */
+export function fillCommandTemplate(
+  entry: Pick<CommandCacheEntry, 'key' | 'result'>,
+  input: string,
+  fields: readonly SlotField[] = SLOT_FIELDS
+): CommandIntent[] | null {
+  const parts = entry.key.split(/\{(\d+)\}/);
+  if (parts.length < 2) {
+    return null;
+  }
+
+  const slotOrder: number[] = [];
+  const pattern = parts
+    .map((part, index) => {
+      if (index % 2 === 0) return escapeRegExp(part);
+      slotOrder.push(Number(part));
+      return '(.+?)';
+    })
+    .join('');
+
+  const match = normalizeCommand(input).match(new RegExp(`^${pattern}$`, 'i'));
+  if (!match) {
+    return null;
+  }
+
+  const values: Record<string, string> = {};
+  slotOrder.forEach((slot, index) => {
+    values[slot] = match[index + 1].trim();
+  });
+
+  return entry.result.map(step => {
+    const filled = { ...step };
+    fields.forEach(field => {
+      const slot = filled[field]?.match(/^\{(\d+)\}$/);
+      if (slot) {
+        filled[field] = values[slot[1]];
+      }
+    });
+    return filled;
+  });
+}
+
+/**
+ * Serializes cache entries for export
+ * @param entries The entries to export
+ * @returns Pretty-printed JSON in the CommandCacheFile format
+ */
+export function cacheToJson(entries: CommandCacheEntry[]): string {
+  const file: CommandCacheFile = {
+    version: 1,
+    entries: entries.map(({ key, input, result, shape, pinned }) => ({
+      key,
+      input,
+      result,
+      ...(shape ? { shape } : {}),
+      ...(pinned ? { pinned } : {}),
+    })),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Reads an exported cache file, keeping only entries whose steps are valid
+ * intents
+ * @param text The file contents
+ * @returns The entries to import
+ * @throws Error if the text is not JSON or holds no valid entries
+ */
+export function parseCacheJson(text: string): CommandCacheFile['entries'] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const entries = parsed && typeof parsed === 'object' ? (parsed as { entries?: unknown }).entries : undefined;
+  if (!Array.isArray(entries)) {
+    throw new Error('The file does not contain cache entries');
+  }
+
+  const valid = entries
+    .filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object')
+    .filter(entry =>
+      typeof entry.key === 'string' && entry.key.trim() &&
+      typeof entry.input === 'string' &&
+      Array.isArray(entry.result) && entry.result.length > 0 &&
+      entry.result.every(step => validateCommandIntent(step))
+    )
+    .map(entry => ({
+      key: entry.key as string,
+      input: entry.input as string,
+      result: entry.result as CommandIntent[],
+      ...(typeof entry.shape === 'string' ? { shape: entry.shape } : {}),
+      ...(entry.pinned === true ? { pinned: true } : {}),
+    }));
+
+  if (valid.length === 0) {
+    throw new Error('The file has no valid cache entries');
+  }
+  return valid;
+}
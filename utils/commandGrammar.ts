@@ -0,0 +1,325 @@
+import type { CommandIntent } from './nlpProcessor';
+
+// A small token-level grammar for the everyday commands: going somewhere,
+// searching, clicking, typing, back/forward/reload and help. A command is a
+// verb phrase followed by an object slot, matched word by word, so "refine"
+// is never read as "find" nor "enterprise" as "enter". Quoted text is a
+// single token that no verb can match: "type 'go back'" types the words.
+//
+// Every rule that fits is kept as a candidate. The most specific one wins,
+// and the parse is ambiguous when another reading is just as likely, e.g.
+// "click back" (a button called Back, or the browser's back?). Text to type
+// is never read as a command.
+
+export interface GrammarToken {
+  // The token as typed, without its quotes
+  text: string;
+  // Lower case, for matching verbs
+  lower: string;
+  // Position of the token (quotes included) in the input
+  start: number;
+  end: number;
+  quoted: boolean;
+}
+
+export interface GrammarCandidate {
+  intent: CommandIntent;
+  // The rule that produced this reading
+  rule: string;
+  // Fixed words the rule matched; the highest score wins
+  score: number;
+}
+
+export interface GrammarParse {
+  // The best reading, or null if no rule fits
+  intent: CommandIntent | null;
+  // Every reading, best first
+  candidates: GrammarCandidate[];
+  // Another reading with a different meaning is as likely as the best one
+  ambiguous: boolean;
+}
+
+// The text an object slot matched
+interface Slot {
+  // As typed, quotes removed when the whole slot was one quoted token
+  text: string;
+  tokens: GrammarToken[];
+  quoted: boolean;
+}
+
+interface GrammarRule {
+  name: string;
+  // Verb phrases the command starts with
+  verbs: string[];
+  // Whether words must follow the verb
+  object: 'none' | 'required';
+  // Words the object must start or end with; they are not part of the slot
+  prefix?: string[];
+  suffix?: string[];
+  build: (slot: Slot | null) => CommandIntent | null;
+}
+
+// Confidence of a parse with another reading just as likely. It is below
+// MIN_EXECUTION_CONFIDENCE, so the app asks which reading was meant rather
+// than running one.
+export const AMBIGUOUS_CONFIDENCE = 0.5;
+
+// Words around a command that do not change it. Commands are read with and
+// without them, so "type thank you" still has something to type.
+const LEADING_FILLER = ['please', 'can you', 'could you', 'would you', 'help me', 'now'];
+const TRAILING_FILLER = ['please', 'now', 'thanks', 'thank you'];
+
+const DOMAIN_LIKE = /^(?:[a-z][a-z0-9+.-]*:\/\/\S+|localhost(?::\d+)?(?:[/?#]\S*)?|[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}(?::\d+)?(?:[/?#]\S*)?)$/i;
+
+const QUOTED_OR_WORD = /"([^"]*)"|\u201c([^\u201d]*)\u201d|\u2018([^\u2019]*)\u2019|'([^']*)'(?=\s|$)|(\S+)/g;
+
+/**
+ * Splits a command into words and quoted strings
+ * @param input The command as typed
+ * @returns The tokens, with positions in the input; end-of-sentence
+ * punctuation is dropped
+ */
+export function tokenizeUtterance(input: string): GrammarToken[] {
+  const tokens: GrammarToken[] = [];
+
+  for (const match of Array.from(input.replace(/[.!?]+(\s*)$/, '$1').matchAll(QUOTED_OR_WORD))) {
+    const quotedText = match[1] ?? match[2] ?? match[3] ?? match[4];
+    const quoted = quotedText !== undefined;
+    const text = quoted ? quotedText : match[5].replace(/,$/, '');
+    if (!text && !quoted) continue;
+    tokens.push({
+      text,
+      lower: text.toLowerCase(),
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length,
+      quoted,
+    });
+  }
+
+  return tokens;
+}
+
+const words = (phrase: string) => phrase.split(' ');
+
+// The number of tokens a phrase matches at a position, or 0
+const matchPhrase = (tokens: GrammarToken[], at: number, phrase: string) => {
+  const parts = words(phrase);
+  return parts.every((part, index) => tokens[at + index] && !tokens[at + index].quoted && tokens[at + index].lower === part)
+    ? parts.length
+    : 0;
+};
+
+// The longest phrase that matches at a position
+const longestPhrase = (tokens: GrammarToken[], at: number, phrases: string[]) =>
+  Math.max(0, ...phrases.map(phrase => matchPhrase(tokens, at, phrase)));
+
+// The longest phrase that ends the tokens
+const longestEnding = (tokens: GrammarToken[], phrases: string[]) =>
+  Math.max(0, ...phrases
+    .filter(phrase => words(phrase).length <= tokens.length)
+    .map(phrase => matchPhrase(tokens, tokens.length - words(phrase).length, phrase)));
+
+// Drop politeness around the command itself
+const stripFiller = (tokens: GrammarToken[]) => {
+  let start = 0;
+  let end = tokens.length;
+  let length: number;
+  while ((length = longestPhrase(tokens, start, LEADING_FILLER)) > 0 && start + length < end) {
+    start += length;
+  }
+  while ((length = longestEnding(tokens.slice(start, end), TRAILING_FILLER)) > 0 && end - length > start) {
+    end -= length;
+  }
+  return tokens.slice(start, end);
+};
+
+// The slot's text as typed, keeping the spacing between its words
+const toSlot = (input: string, tokens: GrammarToken[]): Slot => {
+  const quoted = tokens.length === 1 && tokens[0].quoted;
+  return {
+    text: quoted ? tokens[0].text : input.slice(tokens[0].start, tokens[tokens.length - 1].end).replace(/[,.!?]+$/, ''),
+    tokens,
+    quoted,
+  };
+};
+
+// "click #12" or "click element 12" targets a page snapshot id
+const elementIdOf = (slot: Slot) => (slot.quoted ? null : slot.text.match(/^(?:element\s+)?#?(\d+)$/i));
+
+const RULES: GrammarRule[] = [
+  {
+    name: 'back',
+    verbs: ['back', 'go back', 'navigate back', 'previous page', 'go to the previous page', 'go to previous page'],
+    object: 'none',
+    build: () => ({ type: 'navigation_control', action: 'back', confidence: 0.95 }),
+  },
+  {
+    name: 'forward',
+    verbs: ['forward', 'go forward', 'navigate forward', 'next page', 'go to the next page', 'go to next page'],
+    object: 'none',
+    build: () => ({ type: 'navigation_control', action: 'forward', confidence: 0.95 }),
+  },
+  {
+    name: 'reload',
+    verbs: [
+      'reload', 'refresh', 'reload page', 'refresh page', 'reload the page', 'refresh the page',
+      'reload this page', 'refresh this page', 'update page', 'update the page',
+    ],
+    object: 'none',
+    build: () => ({ type: 'navigation_control', action: 'reload', confidence: 0.95 }),
+  },
+  {
+    name: 'help',
+    verbs: [
+      'help', 'help me', 'show help', 'show me help', 'what can you do', 'how to use', 'how do i use this',
+      'commands', 'show commands', 'list commands', 'what are the commands',
+    ],
+    object: 'none',
+    build: () => ({ type: 'system', action: 'help', confidence: 0.95 }),
+  },
+  {
+    // "open the pricing page" follows a link on the current site
+    name: 'open-page-link',
+    verbs: ['open', 'go to', 'show'],
+    object: 'required',
+    prefix: ['the'],
+    suffix: ['page', 'link'],
+    build: slot => (slot ? { type: 'interaction', action: 'click', target: slot.text.toLowerCase(), confidence: 0.75 } : null),
+  },
+  {
+    name: 'navigate',
+    verbs: ['go to', 'navigate to', 'open', 'visit', 'take me to', 'browse to', 'load'],
+    object: 'required',
+    build: slot => {
+      if (!slot) return null;
+      // An address anywhere in the object is the place to go
+      const addressIndex = slot.tokens.findIndex(token => !token.quoted && DOMAIN_LIKE.test(token.text));
+      if (addressIndex >= 0) {
+        return { type: 'navigation', action: 'navigate', url: slot.tokens[addressIndex].text, confidence: addressIndex === 0 ? 0.9 : 0.85 };
+      }
+      // Otherwise the whole object is the site: "twitter", "the new york times".
+      // The executor resolves it or searches for it.
+      const site = slot.quoted ? slot.text : slot.text.replace(/^the\s+/i, '').replace(/\s+for\s+me$/i, '').trim();
+      return site ? { type: 'navigation', action: 'navigate', url: site, confidence: 0.7 } : null;
+    },
+  },
+  {
+    name: 'search',
+    verbs: ['search for', 'search', 'find', 'look up', 'look for', 'google'],
+    object: 'required',
+    build: slot => (slot ? { type: 'search', action: 'search', query: slot.text, confidence: 0.85 } : null),
+  },
+  {
+    name: 'click',
+    verbs: ['click on', 'click', 'tap on', 'tap', 'press', 'select', 'choose'],
+    object: 'required',
+    build: slot => {
+      if (!slot) return null;
+      const id = elementIdOf(slot);
+      return id
+        ? { type: 'interaction', action: 'click', elementId: id[1], confidence: 0.9 }
+        : { type: 'interaction', action: 'click', target: slot.quoted ? slot.text : slot.text.toLowerCase(), confidence: 0.8 };
+    },
+  },
+  {
+    name: 'type',
+    verbs: ['type', 'enter', 'input', 'write'],
+    object: 'required',
+    build: slot => (slot ? { type: 'interaction', action: 'type', text: slot.text, confidence: 0.8 } : null),
+  },
+];
+
+// Commands that need nothing after the verb; a free-text slot that is one
+// of these on its own could have been meant as that command
+const OBJECTLESS_RULES = RULES.filter(rule => rule.object === 'none');
+
+// Rules whose slot names something on the page, so "click back" may mean
+// the browser's back. A typed slot is literal text: "type back" types it.
+const ELEMENT_SLOT_RULES = ['click'];
+
+const label = (intent: CommandIntent) => `${intent.type}:${intent.action || ''}`;
+
+// Every reading of the tokens by one rule
+function applyRule(rule: GrammarRule, input: string, tokens: GrammarToken[]): GrammarCandidate | null {
+  const verbLength = longestPhrase(tokens, 0, rule.verbs);
+  if (verbLength === 0) {
+    return null;
+  }
+
+  if (rule.object === 'none') {
+    const intent = verbLength === tokens.length ? rule.build(null) : null;
+    return intent ? { intent, rule: rule.name, score: verbLength } : null;
+  }
+
+  let objectTokens = tokens.slice(verbLength);
+  let score = verbLength;
+  if (rule.prefix) {
+    const length = longestPhrase(objectTokens, 0, rule.prefix);
+    if (length === 0) return null;
+    objectTokens = objectTokens.slice(length);
+    score += length;
+  }
+  if (rule.suffix) {
+    const length = longestEnding(objectTokens, rule.suffix);
+    if (length === 0) return null;
+    objectTokens = objectTokens.slice(0, objectTokens.length - length);
+    score += length;
+  }
+  if (objectTokens.length === 0) {
+    return null;
+  }
+
+  const intent = rule.build(toSlot(input, objectTokens));
+  return intent ? { intent, rule: rule.name, score } : null;
+}
+
+/**
+ * Parses a command with the grammar
+ * @param input The command as typed
+ * @returns The best reading, all readings, and whether the command is
+ * ambiguous
+ */
+export function parseGrammar(input: string): GrammarParse {
+  const allTokens = tokenizeUtterance(input);
+  const stripped = stripFiller(allTokens);
+  const readings = stripped.length < allTokens.length ? [stripped, allTokens] : [allTokens];
+
+  const candidates: GrammarCandidate[] = [];
+  readings.forEach(tokens => {
+    RULES.forEach(rule => {
+      const candidate = applyRule(rule, input, tokens);
+      if (!candidate) return;
+      candidates.push(candidate);
+
+      // "click back", "press reload": the unquoted slot is a whole command
+      // too. The verb reading still wins; quoting the slot settles it.
+      if (!ELEMENT_SLOT_RULES.includes(rule.name)) return;
+      const slotTokens = tokens.slice(longestPhrase(tokens, 0, rule.verbs));
+      if (slotTokens.some(token => token.quoted)) return;
+      OBJECTLESS_RULES.forEach(inner => {
+        const reading = applyRule(inner, input, slotTokens);
+        if (reading) {
+          candidates.push({ ...reading, rule: `${rule.name}>${inner.name}`, score: candidate.score });
+        }
+      });
+    });
+  });
+
+  // Most specific first; for equal scores, the rule listed first
+  const ranked = candidates
+    .map((candidate, index) => ({ candidate, index }))
+    .sort((a, b) => b.candidate.score - a.candidate.score || a.index - b.index)
+    .map(({ candidate }) => candidate);
+
+  const best = ranked[0];
+  if (!best) {
+    return { intent: null, candidates: [], ambiguous: false };
+  }
+
+  const ambiguous = ranked.some(candidate => candidate.score === best.score && label(candidate.intent) !== label(best.intent));
+  return {
+    intent: ambiguous ? { ...best.intent, confidence: Math.min(best.intent.confidence, AMBIGUOUS_CONFIDENCE) } : best.intent,
+    candidates: ranked,
+    ambiguous,
+  };
+}
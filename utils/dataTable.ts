@@ -0,0 +1,108 @@
+// Rows and columns pulled out of a page by the extractData page function,
+// plus the CSV/JSON conversions used to export them.
+
+export type DataTableKind = 'table' | 'list' | 'cards';
+
+export interface DataTable {
+  title: string;
+  kind: DataTableKind;
+  url: string;
+  columns: string[];
+  rows: string[][];
+  // Rows on the page; rows may hold fewer when the page had too many
+  totalRows: number;
+}
+
+// Most rows taken from one page
+export const MAX_EXTRACTED_ROWS = 500;
+
+/**
+ * Names where a table came from, for status lines
+ * @param kind The kind of page structure
+ * @returns A phrase such as "a table" or "repeated cards"
+ */
+export function describeTableKind(kind: DataTableKind): string {
+  return kind === 'cards' ? 'repeated cards' : `a ${kind}`;
+}
+
+// Good enough for matching "prices" to a "price" column
+function singular(word: string) {
+  if (/ies$/.test(word)) return `${word.slice(0, -3)}y`;
+  if (/(?:sses|xes|ches|shes)$/.test(word)) return word.slice(0, -2);
+  if (/[^su]s$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+const wordsOf = (text: string) =>
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 1).map(singular);
+
+/**
+ * Narrows a table to the columns a request names, e.g. "product names and
+ * prices" keeps the product and price columns in that order
+ * @param table The extracted table
+ * @param request What the user asked for
+ * @returns The narrowed table, or the whole table if not every requested
+ * column could be matched
+ */
+export function pickColumns(table: DataTable, request: string): DataTable {
+  const phrases = request
+    .toLowerCase()
+    .replace(/\b(?:all|the|every|each|of|on|from|in|this|page|table|list|data|rows?|columns?)\b/g, ' ')
+    .split(/\s*(?:,|\band\b|&|\bwith\b|\bplus\b)\s*/)
+    .map(phrase => wordsOf(phrase))
+    .filter(words => words.length > 0);
+
+  if (phrases.length < 2) {
+    return table;
+  }
+
+  const columnWords = table.columns.map(wordsOf);
+  const picked: number[] = [];
+
+  for (const words of phrases) {
+    // The column sharing the most words with the phrase, ignoring ones already picked
+    let best = -1;
+    let bestShared = 0;
+    columnWords.forEach((column, index) => {
+      const shared = words.filter(word => column.includes(word)).length;
+      if (shared > bestShared && !picked.includes(index)) {
+        best = index;
+        bestShared = shared;
+      }
+    });
+
+    if (best === -1) {
+      return table;
+    }
+    picked.push(best);
+  }
+
+  return {
+    ...table,
+    columns: picked.map(index => table.columns[index]),
+    rows: table.rows.map(row => picked.map(index => row[index] ?? '')),
+  };
+}
+
+const csvCell = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * Formats a table as CSV with a header row
+ * @param table The table to format
+ * @returns CSV text (RFC 4180 quoting, CRLF line endings)
+ */
+export function tableToCsv(table: DataTable): string {
+  return [table.columns, ...table.rows].map(row => row.map(cell => csvCell(cell ?? '')).join(',')).join('\r\n');
+}
+
+/**
+ * Formats a table as a JSON array with one object per row
+ * @param table The table to format
+ * @returns Pretty-printed JSON keyed by column name
+ */
+export function tableToJson(table: DataTable): string {
+  const records = table.rows.map(row =>
+    Object.fromEntries(table.columns.map((column, index) => [column, row[index] ?? '']))
+  );
+  return JSON.stringify(records, null, 2);
+}
@@ -0,0 +1,151 @@
+// Scores page snapshot elements against a spoken target such as "the sign in
+// button", so the agent can pick the best match or ask when several are close.
+
+import { SnapshotElement } from './pageSnapshot';
+
+export interface ElementMatch {
+  element: SnapshotElement;
+  score: number;
+}
+
+// Matches within this many points of the best one count as a tie, so a
+// button that only wins by being on screen or clickable is not picked blindly
+export const AMBIGUITY_MARGIN = 1;
+
+// Most candidates offered to the user at once
+export const MAX_CHOICES = 5;
+
+// Role words people add to a target, and the snapshot roles they refer to
+const ROLE_HINTS: Record<string, string[]> = {
+  button: ['button'],
+  link: ['link'],
+  tab: ['tab'],
+  checkbox: ['checkbox', 'switch'],
+  box: ['checkbox', 'textbox', 'searchbox', 'combobox'],
+  field: ['textbox', 'searchbox', 'combobox'],
+  menu: ['menuitem', 'button'],
+  option: ['option', 'radio'],
+};
+
+const CLICKABLE_ROLES = ['button', 'link', 'tab', 'menuitem', 'checkbox', 'radio', 'switch', 'option'];
+
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth'];
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9\u00c0-\uffff]+/g, ' ').trim();
+
+// Split "the sign in button" into the text to match and the roles it names
+function parseTarget(target: string) {
+  let text = normalize(target).replace(/^(?:the|a|an)\s+/, '');
+  let roles: string[] = [];
+
+  const hint = text.match(/\s+(button|link|tab|checkbox|box|field|menu|option)$/);
+  if (hint && hint.index) {
+    text = text.slice(0, hint.index);
+    roles = ROLE_HINTS[hint[1]];
+  }
+
+  return { text, roles };
+}
+
+// How well the element's own text matches, or 0 if it does not match at all
+function textScore(element: SnapshotElement, text: string) {
+  const name = normalize(element.name);
+  if (name === text) return 6;
+  if (name.startsWith(`${text} `) || name.endsWith(` ${text}`) || name.includes(` ${text} `)) return 4;
+  if (name.includes(text)) return 3;
+  if ([element.label, element.value].some(field => field && normalize(field).includes(text))) return 2;
+  return 0;
+}
+
+/**
+ * Scores elements against a target description
+ * @param elements The snapshot elements to consider
+ * @param target What the user asked for, e.g. "sign in" or "the sign in button"
+ * @returns Matching elements, best first. Exact text beats partial text,
+ * visible and on-screen elements beat hidden ones, and clickable roles (or
+ * the role the target names) beat the rest.
+ */
+export function rankElementMatches(elements: SnapshotElement[], target: string): ElementMatch[] {
+  const { text, roles } = parseTarget(target);
+  if (!text) {
+    return [];
+  }
+
+  return elements
+    .map(element => {
+      const base = textScore(element, text);
+      if (base === 0) {
+        return { element, score: 0 };
+      }
+
+      let score = base;
+      score += element.visible ? 2 : -4;
+      score += element.inViewport ? 1 : 0;
+      if (roles.length > 0) {
+        score += roles.includes(element.role) ? 2 : -1;
+      } else if (CLICKABLE_ROLES.includes(element.role)) {
+        score += 1;
+      }
+
+      return { element, score };
+    })
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Picks out the visible matches that score too close to the best one to
+ * choose between without asking
+ * @param matches Ranked matches from rankElementMatches
+ * @returns The tied matches, or an empty array when there is a clear winner
+ */
+export function getAmbiguousMatches(matches: ElementMatch[]): ElementMatch[] {
+  const visible = matches.filter(match => match.element.visible);
+  if (visible.length < 2) {
+    return [];
+  }
+
+  const close = visible.filter(match => visible[0].score - match.score <= AMBIGUITY_MARGIN);
+  return close.length > 1 ? close.slice(0, MAX_CHOICES) : [];
+}
+
+/**
+ * Describes where an element sits on screen, to tell similar candidates apart
+ * @param element The snapshot element
+ * @param viewportHeight Height of the visible area
+ * @returns A phrase such as "near the top" or "below the visible area"
+ */
+export function describeElementPosition(element: SnapshotElement, viewportHeight: number): string {
+  const { y, height } = element.bounds;
+  if (!element.inViewport) {
+    return y < 0 ? 'above the visible area' : 'below the visible area';
+  }
+
+  const middle = y + height / 2;
+  if (middle < viewportHeight / 3) return 'near the top';
+  if (middle < (viewportHeight * 2) / 3) return 'in the middle';
+  return 'near the bottom';
+}
+
+/**
+ * Reads the user's reply to a "which one?" question
+ * @param answer The reply, e.g. "2", "#2", "the second one" or "cancel"
+ * @param count How many options were offered
+ * @returns The chosen index (0-based), null to cancel, or undefined if the
+ * reply is not an answer
+ */
+export function parseChoiceAnswer(answer: string, count: number): number | null | undefined {
+  const text = normalize(answer).replace(/^(?:the|number|option)\s+/, '').replace(/\s+one$/, '');
+
+  if (/^(?:cancel|none|neither|no|stop|never mind|nevermind)$/.test(text)) {
+    return null;
+  }
+
+  const index = /^\d+$/.test(text)
+    ? parseInt(text, 10) - 1
+    : text === 'last'
+      ? count - 1
+      : ORDINALS.indexOf(text);
+
+  return index >= 0 && index < count ? index : undefined;
+}
@@ -0,0 +1,218 @@
+import type { CommandIntent } from './nlpProcessor';
+import type { LabeledDataset } from './intentExamples';
+import { MIN_EXECUTION_CONFIDENCE } from './intentSchema';
+
+// Scores a command parser against a labeled corpus. Each utterance's intent
+// is labeled "type:action"; a case passes when the labels agree and every
+// field the corpus gives (url, query, target...) has the expected value,
+// with enough confidence that the app would run it without asking (an
+// expected "unknown" is right when the app declines to run it).
+// Cases the corpus marks as known misparses are reported but do not count
+// as regressions, so a parser fix shows up as "now passing".
+
+// Anything that parses one utterance: a provider, processNaturalLanguage...
+export type IntentParser = (input: string) => Promise<CommandIntent>;
+
+export interface EvaluationCase {
+  input: string;
+  expected: CommandIntent;
+  actual: CommandIntent;
+  // The parser threw; actual is an error intent
+  error?: string;
+  labelMatch: boolean;
+  // Fields whose value differs from the corpus, when the labels match
+  wrongFields: Array<keyof CommandIntent>;
+  // Confident enough for the app to run it (MIN_EXECUTION_CONFIDENCE), or
+  // expected to be unknown, which is never run
+  executable: boolean;
+  passed: boolean;
+  // Why the corpus expects this case to fail, if it does
+  known?: string;
+}
+
+export interface IntentMetrics {
+  label: string;
+  // Cases labeled with this intent in the corpus
+  support: number;
+  // Cases the parser gave this label
+  predicted: number;
+  truePositives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface EvaluationReport {
+  cases: EvaluationCase[];
+  // Share of cases with the right label, and with the right label and fields
+  labelAccuracy: number;
+  accuracy: number;
+  perIntent: IntentMetrics[];
+  // confusion[expected][actual] = count
+  confusion: Record<string, Record<string, number>>;
+  // Failing cases that the corpus does not mark as known
+  regressions: EvaluationCase[];
+  // Known misparses the parser now gets right
+  fixed: EvaluationCase[];
+  // Right intent and fields, but too unsure to run; these fail too
+  notExecutable: EvaluationCase[];
+}
+
+/**
+ * The label an intent is scored under
+ * @param intent A parsed or expected intent
+ * @returns "type:action", or just the type when there is no action
+ */
+export function intentLabel(intent: CommandIntent): string {
+  return intent.action ? `${intent.type}:${intent.action}` : intent.type;
+}
+
+const normalizeValue = (value: unknown) =>
+  typeof value === 'string' ? value.trim().toLowerCase() : value;
+
+// Fields the corpus sets, other than the ones the label already covers
+const wrongFields = (expected: CommandIntent, actual: CommandIntent) =>
+  (Object.keys(expected) as Array<keyof CommandIntent>)
+    .filter(field => !['type', 'action', 'confidence'].includes(field))
+    .filter(field => normalizeValue(expected[field]) !== normalizeValue(actual[field]));
+
+const ratio = (part: number, whole: number) => (whole > 0 ? part / whole : 0);
+
+/**
+ * Runs a parser over a labeled corpus, one utterance at a time
+ * @param examples The labeled utterances
+ * @param parse The parser to evaluate
+ * @returns Per-case results, per-intent precision and recall, and the
+ * confusion matrix
+ */
+export async function evaluateParser(
+  examples: LabeledDataset['examples'],
+  parse: IntentParser
+): Promise<EvaluationReport> {
+  const cases: EvaluationCase[] = [];
+
+  for (const example of examples) {
+    let actual: CommandIntent;
+    let error: string | undefined;
+    try {
+      actual = await parse(example.input);
+    } catch (parseError) {
+      error = parseError instanceof Error ? parseError.message : String(parseError);
+      actual = { type: 'error', confidence: 0 };
+    }
+
+    const labelMatch = intentLabel(actual) === intentLabel(example.expected);
+    const wrong = labelMatch ? wrongFields(example.expected, actual) : [];
+    const executable = example.expected.type === 'unknown' || actual.confidence >= MIN_EXECUTION_CONFIDENCE;
+    cases.push({
+      input: example.input,
+      expected: example.expected,
+      actual,
+      ...(error ? { error } : {}),
+      labelMatch,
+      wrongFields: wrong,
+      executable,
+      passed: labelMatch && wrong.length === 0 && executable,
+      ...(example.known ? { known: example.known } : {}),
+    });
+  }
+
+  const confusion: EvaluationReport['confusion'] = {};
+  cases.forEach(({ expected, actual }) => {
+    const row = (confusion[intentLabel(expected)] = confusion[intentLabel(expected)] || {});
+    row[intentLabel(actual)] = (row[intentLabel(actual)] || 0) + 1;
+  });
+
+  const labels = Array.from(new Set(cases.map(({ expected }) => intentLabel(expected)))).sort();
+  const perIntent = labels.map(label => {
+    const support = cases.filter(({ expected }) => intentLabel(expected) === label).length;
+    const predicted = cases.filter(({ actual }) => intentLabel(actual) === label).length;
+    const truePositives = confusion[label]?.[label] || 0;
+    const precision = ratio(truePositives, predicted);
+    const recall = ratio(truePositives, support);
+    return {
+      label,
+      support,
+      predicted,
+      truePositives,
+      precision,
+      recall,
+      f1: ratio(2 * precision * recall, precision + recall),
+    };
+  });
+
+  return {
+    cases,
+    labelAccuracy: ratio(cases.filter(item => item.labelMatch).length, cases.length),
+    accuracy: ratio(cases.filter(item => item.passed).length, cases.length),
+    perIntent,
+    confusion,
+    regressions: cases.filter(item => !item.passed && !item.known),
+    fixed: cases.filter(item => item.passed && item.known),
+    notExecutable: cases.filter(item => item.labelMatch && item.wrongFields.length === 0 && !item.executable),
+  };
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const describeCase = (item: EvaluationCase) => {
+  const problem = item.error
+    ? `error: ${item.error}`
+    : !item.labelMatch
+      ? `got ${intentLabel(item.actual)}`
+      : item.wrongFields.length === 0
+        ? `confidence ${item.actual.confidence} is below ${MIN_EXECUTION_CONFIDENCE}`
+        : `wrong ${item.wrongFields.map(field => `${field} (${JSON.stringify(item.actual[field])})`).join(', ')}`;
+  return `  "${item.input}": expected ${intentLabel(item.expected)}, ${problem}${item.known ? ` [known: ${item.known}]` : ''}`;
+};
+
+/**
+ * Formats a report as plain text for the terminal
+ * @param report The evaluation result
+ * @param showKnown Also list known misparses that still fail
+ * @returns Accuracy, a per-intent table, the confusions and the failing cases
+ */
+export function formatEvaluationReport(report: EvaluationReport, showKnown = false): string {
+  const lines: string[] = [];
+  const passed = report.cases.filter(item => item.passed).length;
+  lines.push(`${passed}/${report.cases.length} passed (${percent(report.accuracy)}; ${percent(report.labelAccuracy)} with the right intent)`);
+  if (report.notExecutable.length > 0) {
+    lines.push(`${report.notExecutable.length} right but below confidence ${MIN_EXECUTION_CONFIDENCE}, so not executable`);
+  }
+
+  const width = Math.max(6, ...report.perIntent.map(metrics => metrics.label.length));
+  lines.push('', `${'intent'.padEnd(width)}  support  precision  recall    f1`);
+  report.perIntent.forEach(metrics => {
+    lines.push([
+      metrics.label.padEnd(width),
+      String(metrics.support).padStart(7),
+      percent(metrics.precision).padStart(9),
+      percent(metrics.recall).padStart(6),
+      percent(metrics.f1).padStart(5),
+    ].join('  '));
+  });
+
+  // The matrix is mostly zeros; list the off-diagonal cells instead
+  const confusions = Object.entries(report.confusion)
+    .flatMap(([expected, row]) => Object.entries(row)
+      .filter(([actual]) => actual !== expected)
+      .map(([actual, count]) => ({ expected, actual, count })))
+    .sort((a, b) => b.count - a.count);
+  if (confusions.length > 0) {
+    lines.push('', 'Confusions (expected -> parsed):');
+    confusions.forEach(({ expected, actual, count }) => lines.push(`  ${expected} -> ${actual}: ${count}`));
+  }
+
+  if (report.regressions.length > 0) {
+    lines.push('', `Failures (${report.regressions.length}):`, ...report.regressions.map(describeCase));
+  }
+  if (report.fixed.length > 0) {
+    lines.push('', `Known misparses now passing (${report.fixed.length}); remove their "known" note:`, ...report.fixed.map(describeCase));
+  }
+  const stillKnown = report.cases.filter(item => !item.passed && item.known);
+  if (showKnown && stillKnown.length > 0) {
+    lines.push('', `Known misparses (${stillKnown.length}):`, ...stillKnown.map(describeCase));
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,182 @@
+import type { CommandIntent } from './nlpProcessor';
+import { SlotField, fillCommandTemplate, getCacheKey, toCommandTemplate } from './commandCache';
+import { validateCommandIntent } from './intentSchema';
+
+// Commands the user corrected, kept as labeled examples. They are checked
+// before any parser: an input with the same words gets the corrected intent,
+// and one that only differs in a slot ("open the pricing page" after
+// correcting "open the search page") gets it with the new words filled in.
+
+// An utterance and the intent it should have been read as
+export interface LabeledExample {
+  id: string;
+  input: string;
+  intent: CommandIntent;
+  createdAt: number;
+}
+
+// A labeled corpus: exported corrections, or hand-written evaluation data
+export interface LabeledDataset {
+  version: 1;
+  examples: Array<{
+    input: string;
+    expected: CommandIntent;
+    // A misparse the built-in parser is known to make, and why
+    known?: string;
+  }>;
+}
+
+export interface LearnedMatch {
+  example: LabeledExample;
+  intent: CommandIntent;
+  // Share of content words the input and the example have in common
+  similarity: number;
+}
+
+// Corrections can name any of these; targets and URLs too, unlike the cache
+const EXAMPLE_SLOT_FIELDS: SlotField[] = ['query', 'text', 'target', 'url'];
+
+// Words that do not change what a command means
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'my', 'this', 'that', 'please', 'to', 'on', 'in', 'of', 'for', 'me', 'it', 'and',
+]);
+
+// An input with these content words in common reuses the example as is
+export const MIN_SIMILARITY = 0.75;
+
+// A template fits only inputs at least this close, so "go to the {1}" from
+// one correction does not take over every "go to" command
+const MIN_TEMPLATE_SIMILARITY = 0.5;
+
+/**
+ * Splits a command into content words
+ * @param input The command as typed
+ * @returns Lower-case words without punctuation or filler words
+ */
+export function tokenizeCommand(input: string): string[] {
+  return getCacheKey(input)
+    .split(/[^a-z0-9\u00c0-\uffff']+/)
+    .filter(token => token && !STOP_WORDS.has(token));
+}
+
+/**
+ * Jaccard similarity of two commands' content words
+ * @param a Words of one command
+ * @param b Words of the other
+ * @returns 1 for the same words, 0 for none in common
+ */
+export function tokenSimilarity(a: string[], b: string[]): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  if (setA.size === 0 && setB.size === 0) {
+    return 1;
+  }
+  const shared = Array.from(setA).filter(token => setB.has(token)).length;
+  return shared / (setA.size + setB.size - shared);
+}
+
+// The example's slot values that were copied from its input
+const copiedValues = (example: LabeledExample) => {
+  const input = example.input.toLowerCase();
+  return EXAMPLE_SLOT_FIELDS
+    .map(field => example.intent[field]?.toLowerCase())
+    .filter((value): value is string => !!value && input.includes(value));
+};
+
+/**
+ * Finds what a corrected example says an input means
+ * @param examples The labeled examples
+ * @param input The command as typed
+ * @returns The intent from the closest example that applies, or null
+ */
+export function findLearnedIntent(examples: LabeledExample[], input: string): LearnedMatch | null {
+  const key = getCacheKey(input);
+  const exact = examples.find(example => getCacheKey(example.input) === key);
+  if (exact) {
+    return { example: exact, intent: exact.intent, similarity: 1 };
+  }
+
+  const tokens = tokenizeCommand(input);
+  const ranked = examples
+    .map(example => ({ example, similarity: tokenSimilarity(tokens, tokenizeCommand(example.input)) }))
+    .sort((a, b) => b.similarity - a.similarity);
+
+  // Same frame, different words in the slots
+  for (const { example, similarity } of ranked) {
+    if (similarity < MIN_TEMPLATE_SIMILARITY) break;
+
+    const template = toCommandTemplate(example.input, [example.intent], EXAMPLE_SLOT_FIELDS);
+    // A template that is all slot would match anything
+    if (!template || !/[a-z0-9]/.test(template.key.replace(/\{\d+\}/g, ''))) continue;
+
+    const filled = fillCommandTemplate(template, input, EXAMPLE_SLOT_FIELDS);
+    if (filled) {
+      return { example, intent: filled[0], similarity };
+    }
+  }
+
+  // Nearly the same words: reuse the intent if its copied text is still there
+  const lower = input.toLowerCase();
+  const nearest = ranked[0];
+  if (nearest && nearest.similarity >= MIN_SIMILARITY &&
+      copiedValues(nearest.example).every(value => lower.includes(value))) {
+    return { example: nearest.example, intent: nearest.example.intent, similarity: nearest.similarity };
+  }
+
+  return null;
+}
+
+/**
+ * Serializes examples as a labeled dataset
+ * @param examples The examples to export
+ * @returns Pretty-printed JSON in the LabeledDataset format
+ */
+export function examplesToDataset(examples: LabeledExample[]): string {
+  const dataset: LabeledDataset = {
+    version: 1,
+    examples: examples.map(({ input, intent }) => ({ input, expected: intent })),
+  };
+  return JSON.stringify(dataset, null, 2);
+}
+
+/**
+ * Reads a labeled dataset, keeping only examples whose expected intent is
+ * valid. Hand-written examples may leave out the confidence.
+ * @param text The file contents
+ * @returns The labeled utterances
+ * @throws Error if the text is not JSON or holds no valid examples
+ */
+export function parseDataset(text: string): LabeledDataset['examples'] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The dataset is not valid JSON');
+  }
+
+  const entries = parsed && typeof parsed === 'object' ? (parsed as { examples?: unknown }).examples : undefined;
+  if (!Array.isArray(entries)) {
+    throw new Error('The dataset does not contain an examples list');
+  }
+
+  const examples = entries
+    .filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object')
+    .map(entry => ({
+      input: entry.input,
+      expected: entry.expected && typeof entry.expected === 'object'
+        ? validateCommandIntent({ confidence: 1, ...entry.expected })
+        : null,
+      known: entry.known,
+    }))
+    .filter(entry => typeof entry.input === 'string' && entry.input.trim() && entry.expected)
+    .map(entry => ({
+      input: entry.input as string,
+      expected: entry.expected as CommandIntent,
+      ...(typeof entry.known === 'string' ? { known: entry.known } : {}),
+    }));
+
+  if (examples.length === 0) {
+    throw new Error('The dataset has no examples with an input and a valid expected intent');
+  }
+  return examples;
+}
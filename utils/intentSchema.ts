@@ -0,0 +1,246 @@
+import type { CommandIntent } from './nlpProcessor';
+import { COMPARISONS } from './valueChecks';
+
+// Intent types the agent knows how to execute
+export const INTENT_TYPES = [
+  'navigation',
+  'search',
+  'navigation_control',
+  'interaction',
+  'wait',
+  'assertion',
+  'extraction',
+  'reading',
+  'tab',
+  'system',
+  'unknown',
+] as const;
+
+// The actions each intent type takes, as the executor understands them
+export const INTENT_ACTIONS: Record<typeof INTENT_TYPES[number], string[]> = {
+  navigation: ['navigate'],
+  search: ['search'],
+  navigation_control: ['back', 'forward', 'reload'],
+  interaction: ['click', 'type', 'scroll', 'hover', 'press_key', 'select_option'],
+  wait: ['wait_for_text', 'wait_for_text_gone', 'wait_for_load', 'wait_for_time'],
+  assertion: ['check_text', 'check_text_absent', 'check_value'],
+  extraction: ['extract_data'],
+  reading: ['summarize', 'read_page'],
+  tab: ['open_tab', 'switch_tab', 'close_tab', 'list_tabs'],
+  system: [
+    'help', 'record_macro', 'stop_recording', 'run_macro', 'list_macros',
+    'add_bookmark', 'list_bookmarks', 'delete_bookmark',
+  ],
+  unknown: [],
+};
+
+// Intents parsed with less confidence than this are not executed
+export const MIN_EXECUTION_CONFIDENCE = 0.6;
+
+// JSON schema describing a CommandIntent. It is sent to LLM providers that
+// support structured output and used to validate whatever comes back.
+export const COMMAND_INTENT_SCHEMA = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: INTENT_TYPES },
+    action: { type: 'string' },
+    target: { type: 'string' },
+    query: { type: 'string' },
+    url: { type: 'string' },
+    text: { type: 'string' },
+    elementId: { type: 'string' },
+    direction: { type: 'string', enum: ['up', 'down', 'top', 'bottom', 'to'] },
+    key: { type: 'string' },
+    submit: { type: 'boolean' },
+    timeoutMs: { type: 'number', minimum: 0 },
+    comparison: { type: 'string', enum: COMPARISONS },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+  },
+  required: ['type', 'confidence'],
+  additionalProperties: false,
+} as const;
+
+const OPTIONAL_STRING_FIELDS = [
+  'action', 'target', 'query', 'url', 'text', 'elementId', 'direction', 'key', 'comparison',
+] as const;
+
+/**
+ * Validates an unknown value against COMMAND_INTENT_SCHEMA
+ * @param value The value to validate (usually parsed LLM output)
+ * @returns The value as a CommandIntent, or null if it does not match the
+ * schema or its action is not one of INTENT_ACTIONS for its type
+ */
+export function validateCommandIntent(value: unknown): CommandIntent | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  const candidate = value as Record<string, unknown>;
+  const allowedKeys: string[] = Object.keys(COMMAND_INTENT_SCHEMA.properties);
+
+  if (Object.keys(candidate).some(key => !allowedKeys.includes(key))) {
+    return null;
+  }
+
+  if (typeof candidate.type !== 'string' || !(INTENT_TYPES as readonly string[]).includes(candidate.type)) {
+    return null;
+  }
+
+  // An action the executor does not know for this type would do nothing
+  if (candidate.action !== undefined &&
+      !INTENT_ACTIONS[candidate.type as typeof INTENT_TYPES[number]].includes(candidate.action as string)) {
+    return null;
+  }
+
+  if (typeof candidate.confidence !== 'number' ||
+      Number.isNaN(candidate.confidence) ||
+      candidate.confidence < 0 ||
+      candidate.confidence > 1) {
+    return null;
+  }
+
+  if (candidate.submit !== undefined && typeof candidate.submit !== 'boolean') {
+    return null;
+  }
+
+  if (candidate.timeoutMs !== undefined &&
+      (typeof candidate.timeoutMs !== 'number' || Number.isNaN(candidate.timeoutMs) || candidate.timeoutMs < 0)) {
+    return null;
+  }
+
+  for (const field of OPTIONAL_STRING_FIELDS) {
+    const fieldValue = candidate[field];
+    if (fieldValue === undefined) {
+      continue;
+    }
+    if (typeof fieldValue !== 'string') {
+      return null;
+    }
+
+    const spec = COMMAND_INTENT_SCHEMA.properties[field];
+    if ('enum' in spec && !(spec.enum as readonly string[]).includes(fieldValue)) {
+      return null;
+    }
+  }
+
+  return candidate as CommandIntent;
+}
+
+// Parse model output as JSON, tolerating a markdown code fence around it
+function parseJsonOutput(raw: string): unknown {
+  const trimmed = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parses raw LLM output text into a validated CommandIntent
+ * @param raw The text returned by the model
+ * @returns The validated intent, or null if the text is not valid JSON or fails validation
+ */
+export function parseCommandIntentJson(raw: string): CommandIntent | null {
+  return validateCommandIntent(parseJsonOutput(raw));
+}
+
+// One step of the goal-driven agent loop, as decided by the planner
+export interface AgentDecision {
+  status: 'continue' | 'done' | 'fail';
+  reasoning: string;
+  action?: CommandIntent;
+}
+
+// JSON schema for AgentDecision
+export const AGENT_DECISION_SCHEMA = {
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ['continue', 'done', 'fail'] },
+    reasoning: { type: 'string' },
+    action: COMMAND_INTENT_SCHEMA,
+  },
+  required: ['status', 'reasoning'],
+  additionalProperties: false,
+} as const;
+
+/**
+ * Validates an unknown value against AGENT_DECISION_SCHEMA
+ * @param value The value to validate
+ * @returns The value as an AgentDecision, or null if it does not match the schema
+ */
+export function validateAgentDecision(value: unknown): AgentDecision | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  const candidate = value as Record<string, unknown>;
+
+  if (!['continue', 'done', 'fail'].includes(candidate.status as string) ||
+      typeof candidate.reasoning !== 'string') {
+    return null;
+  }
+
+  if (candidate.action === undefined) {
+    // Continuing requires something to do
+    return candidate.status === 'continue' ? null : (candidate as unknown as AgentDecision);
+  }
+
+  const action = validateCommandIntent(candidate.action);
+  return action ? { status: candidate.status as AgentDecision['status'], reasoning: candidate.reasoning, action } : null;
+}
+
+/**
+ * Parses raw LLM output text into a validated AgentDecision
+ * @param raw The text returned by the model
+ * @returns The validated decision, or null if the text is not valid JSON or fails validation
+ */
+export function parseAgentDecisionJson(raw: string): AgentDecision | null {
+  return validateAgentDecision(parseJsonOutput(raw));
+}
+
+// A model's summary of a page
+export interface PageSummary {
+  summary: string;
+  keyPoints: string[];
+}
+
+// JSON schema for PageSummary
+export const PAGE_SUMMARY_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    keyPoints: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['summary', 'keyPoints'],
+  additionalProperties: false,
+} as const;
+
+/**
+ * Validates an unknown value against PAGE_SUMMARY_SCHEMA
+ * @param value The value to validate
+ * @returns The value as a PageSummary, or null if it does not match the schema
+ */
+export function validatePageSummary(value: unknown): PageSummary | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  const candidate = value as Record<string, unknown>;
+  if (typeof candidate.summary !== 'string' || !candidate.summary.trim() ||
+      !Array.isArray(candidate.keyPoints) || !candidate.keyPoints.every(point => typeof point === 'string')) {
+    return null;
+  }
+
+  return { summary: candidate.summary.trim(), keyPoints: candidate.keyPoints as string[] };
+}
+
+/**
+ * Parses raw LLM output text into a validated PageSummary
+ * @param raw The text returned by the model
+ * @returns The validated summary, or null if the text is not valid JSON or fails validation
+ */
+export function parsePageSummaryJson(raw: string): PageSummary | null {
+  return validatePageSummary(parseJsonOutput(raw));
+}
@@ -0,0 +1,309 @@
+import type { CommandIntent } from './nlpProcessor';
+import type { PageSnapshot } from './pageSnapshot';
+import type { PageArticle } from './pageScripts';
+import {
+  COMMAND_INTENT_SCHEMA,
+  AGENT_DECISION_SCHEMA,
+  PAGE_SUMMARY_SCHEMA,
+  AgentDecision,
+  PageSummary,
+  parseCommandIntentJson,
+  parseAgentDecisionJson,
+  parsePageSummaryJson,
+} from './intentSchema';
+
+export type LLMProviderId = 'regex' | 'openai' | 'ollama';
+
+// Connection settings for the LLM backend that parses commands
+export interface LLMConfig {
+  provider: LLMProviderId;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs: number;
+}
+
+// An action the agent already took while working towards a goal
+export interface PlannerHistoryEntry {
+  action: CommandIntent;
+  succeeded: boolean;
+}
+
+// What the planner sees when choosing the next step towards a goal
+export interface PlannerRequest {
+  goal: string;
+  snapshot: PageSnapshot | null;
+  history: PlannerHistoryEntry[];
+}
+
+// Anything that can turn a natural language command into a CommandIntent
+export interface LLMProvider {
+  id: LLMProviderId;
+  parseCommand(input: string): Promise<CommandIntent>;
+  // Only model-backed providers can plan steps towards a goal
+  planNextStep?(request: PlannerRequest, signal?: AbortSignal): Promise<AgentDecision>;
+  // Only model-backed providers can write abstractive summaries
+  summarizePage?(article: PageArticle): Promise<PageSummary>;
+}
+
+export const DEFAULT_LLM_CONFIG: LLMConfig = {
+  provider: 'regex',
+  baseUrl: '',
+  model: '',
+  timeoutMs: 8000,
+};
+
+// Default endpoints for each provider (the mock server answers on both paths)
+export const DEFAULT_PROVIDER_URLS: Record<LLMProviderId, string> = {
+  regex: '',
+  openai: 'http://localhost:11435/v1',
+  ollama: 'http://localhost:11434',
+};
+
+const SYSTEM_PROMPT = [
+  'You convert commands for a mobile web browsing agent into JSON.',
+  'Reply with a single JSON object matching the provided schema and nothing else.',
+  'Intent types:',
+  '- navigation (action "navigate", url): open a website; url may be an address or a site name such as "twitter"',
+  '- search (action "search", query): run a web search; add target = site name to search a site,',
+  '  e.g. "search wikipedia for octopus" -> target "wikipedia", query "octopus"',
+  '- navigation_control (action "back" | "forward" | "reload")',
+  '- interaction (action "click" with target, or action "type" with text, optional target field and submit)',
+  '- interaction (action "scroll" with direction up | down | top | bottom, or direction "to" with target)',
+  '- interaction (action "hover" with target, action "press_key" with key such as Enter or Escape)',
+  '- interaction (action "select_option" with text = option and target = dropdown label)',
+  '- wait (action "wait_for_text" | "wait_for_text_gone" with text, "wait_for_load", or "wait_for_time";',
+  '  timeoutMs is the longest to wait, or the pause for wait_for_time)',
+  '- assertion (action "check_text" | "check_text_absent" with text, or action "check_value" with',
+  '  target = what to read, e.g. "price", comparison lt | lte | gt | gte | eq and text = expected value)',
+  '- extraction (action "extract_data" with target = what to collect, e.g. "product names and prices" or "results table")',
+  '- reading (action "summarize" to summarize the page, or "read_page" to show its main text)',
+  '- tab (action "open_tab" with optional url, "switch_tab" | "close_tab" with target = tab number,',
+  '  "next", "previous", "this" or words from its title, or action "list_tabs")',
+  '- system (action "help")',
+  '- system (action "record_macro" | "run_macro" with target = macro name and optional text = "name=value" arguments,',
+  '  or action "stop_recording" | "list_macros")',
+  '- system (action "add_bookmark" with optional target = bookmark name, "delete_bookmark" with target,',
+  '  or "list_bookmarks"); "open <bookmark name>" is a navigation with url = the name',
+  '- unknown: when the command cannot be understood',
+  'Set confidence between 0 and 1.',
+].join('\n');
+
+const PLANNER_PROMPT = [
+  'You control a mobile web browser to achieve a goal for the user, one action at a time.',
+  'You see the current page as a list of interactive elements: #id role "name".',
+  'Reply with a single JSON object matching the provided schema and nothing else:',
+  '- status "continue" with the next action (a command intent; prefer elementId from the list)',
+  '- status "done" when the goal has been achieved',
+  '- status "fail" when the goal cannot be achieved',
+  'Explain your choice briefly in reasoning. Do not repeat an action that just failed.',
+  '',
+  SYSTEM_PROMPT,
+].join('\n');
+
+const SUMMARY_PROMPT = [
+  'You summarize web pages for someone browsing on a phone.',
+  'Reply with a single JSON object matching the provided schema and nothing else:',
+  '- summary: two to four plain sentences covering what the page says',
+  '- keyPoints: up to five short points with the most useful facts, or an empty list',
+  'Only use facts from the page text. Do not mention that you are summarizing.',
+].join('\n');
+
+// Most article characters sent for summarizing
+const MAX_SUMMARY_INPUT_CHARS = 12000;
+
+// Most elements listed in a planner prompt
+const MAX_PROMPT_ELEMENTS = 150;
+
+// Describe the page and progress so far for the planner
+function formatPlannerRequest(request: PlannerRequest): string {
+  const lines = [`Goal: ${request.goal}`, ''];
+
+  if (request.snapshot) {
+    lines.push(`Page: ${request.snapshot.title} (${request.snapshot.url})`, 'Elements:');
+    request.snapshot.elements
+      .filter(element => element.visible)
+      .slice(0, MAX_PROMPT_ELEMENTS)
+      .forEach(element => {
+        const value = element.value ? ` value="${element.value}"` : '';
+        const offscreen = element.inViewport ? '' : ' (offscreen)';
+        lines.push(`#${element.id} ${element.role} "${element.name}"${value}${offscreen}`);
+      });
+  } else {
+    lines.push('Page: (no page loaded)');
+  }
+
+  lines.push('', 'Steps taken:');
+  if (request.history.length === 0) {
+    lines.push('(none)');
+  }
+  request.history.forEach((entry, index) => {
+    lines.push(`${index + 1}. ${JSON.stringify(entry.action)} -> ${entry.succeeded ? 'succeeded' : 'FAILED'}`);
+  });
+
+  return lines.join('\n');
+}
+
+// Lay out an article for the summary prompt
+function formatArticle(article: PageArticle): string {
+  const lines = [`Title: ${article.title}`, `URL: ${article.url}`];
+  if (article.byline) {
+    lines.push(`By: ${article.byline}`);
+  }
+  lines.push('', article.paragraphs.join('\n\n').slice(0, MAX_SUMMARY_INPUT_CHARS));
+  return lines.join('\n');
+}
+
+/**
+ * Calls fetch with a timeout
+ * @param url The URL to request
+ * @param init The fetch options
+ * @param timeoutMs How long to wait before aborting
+ * @param signal Aborts the request early, e.g. when the user stops a goal
+ * @returns The fetch response
+ * @throws Error if the request times out, is cancelled or fails
+ */
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const cancel = () => controller.abort();
+  signal?.addEventListener('abort', cancel);
+  if (signal?.aborted) cancel();
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new Error('LLM request was cancelled');
+    }
+    if (controller.signal.aborted) {
+      throw new Error(`LLM request timed out after ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', cancel);
+  }
+}
+
+function stripTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+// Sends one system + user message pair and returns the model's reply text
+type ChatFunction = (system: string, user: string, schemaName: string, schema: object, signal?: AbortSignal) => Promise<unknown>;
+
+// Chat client for any server implementing the OpenAI chat completions API
+function createOpenAIChat(config: LLMConfig): ChatFunction {
+  return async (system, user, schemaName, schema, signal) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) {
+      headers.Authorization = `Bearer ${config.apiKey}`;
+    }
+
+    const response = await fetchWithTimeout(`${stripTrailingSlash(config.baseUrl)}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: config.model,
+        temperature: 0,
+        messages: [
+          { role: 'system', content: system },
+          { role: 'user', content: user },
+        ],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: schemaName, schema },
+        },
+      }),
+    }, config.timeoutMs, signal);
+
+    if (!response.ok) {
+      throw new Error(`LLM request failed with status ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data?.choices?.[0]?.message?.content;
+  };
+}
+
+// Chat client for an Ollama-style local endpoint
+function createOllamaChat(config: LLMConfig): ChatFunction {
+  return async (system, user, _schemaName, schema, signal) => {
+    const response = await fetchWithTimeout(`${stripTrailingSlash(config.baseUrl)}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: config.model,
+        stream: false,
+        format: schema,
+        options: { temperature: 0 },
+        messages: [
+          { role: 'system', content: system },
+          { role: 'user', content: user },
+        ],
+      }),
+    }, config.timeoutMs, signal);
+
+    if (!response.ok) {
+      throw new Error(`LLM request failed with status ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data?.message?.content;
+  };
+}
+
+// Provider that parses commands and plans steps through a chat client
+function createChatProvider(id: LLMProviderId, chat: ChatFunction): LLMProvider {
+  return {
+    id,
+
+    async parseCommand(input: string) {
+      const content = await chat(SYSTEM_PROMPT, input, 'command_intent', COMMAND_INTENT_SCHEMA);
+      const intent = typeof content === 'string' ? parseCommandIntentJson(content) : null;
+      if (!intent) {
+        throw new Error('LLM returned output that does not match the command intent schema');
+      }
+      return intent;
+    },
+
+    async planNextStep(request: PlannerRequest, signal?: AbortSignal) {
+      const content = await chat(PLANNER_PROMPT, formatPlannerRequest(request), 'agent_decision', AGENT_DECISION_SCHEMA, signal);
+      const decision = typeof content === 'string' ? parseAgentDecisionJson(content) : null;
+      if (!decision) {
+        throw new Error('LLM returned output that does not match the agent decision schema');
+      }
+      return decision;
+    },
+
+    async summarizePage(article: PageArticle) {
+      const content = await chat(SUMMARY_PROMPT, formatArticle(article), 'page_summary', PAGE_SUMMARY_SCHEMA);
+      const summary = typeof content === 'string' ? parsePageSummaryJson(content) : null;
+      if (!summary) {
+        throw new Error('LLM returned output that does not match the page summary schema');
+      }
+      return summary;
+    },
+  };
+}
+
+/**
+ * Creates an HTTP-backed LLM provider from the given settings
+ * @param config The LLM settings (provider must not be 'regex')
+ * @returns The provider, or null if the settings do not describe a remote provider
+ */
+export function createLLMProvider(config: LLMConfig): LLMProvider | null {
+  if (!config.baseUrl) {
+    return null;
+  }
+
+  switch (config.provider) {
+    case 'openai':
+      return createChatProvider('openai', createOpenAIChat(config));
+    case 'ollama':
+      return createChatProvider('ollama', createOllamaChat(config));
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,146 @@
+import type { CommandIntent } from './nlpProcessor';
+import type { SnapshotElement } from './pageSnapshot';
+
+// A named, replayable sequence of executed intents
+export interface Macro {
+  id: string;
+  name: string;
+  steps: CommandIntent[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type MacroStepStatus = 'pending' | 'running' | 'done' | 'failed' | 'skipped';
+
+// Progress of a macro replay, shown step by step in the status screen
+export interface MacroRun {
+  name: string;
+  steps: { explanation: string; status: MacroStepStatus }[];
+}
+
+// Placeholders such as {date} or {user_name} inside step values
+const PARAMETER_PATTERN = /\{(\w+)\}/g;
+
+// Step fields that may hold user values and therefore placeholders
+const VALUE_FIELDS = ['url', 'query', 'text', 'target', 'key'] as const;
+
+type ValueField = typeof VALUE_FIELDS[number];
+
+/**
+ * Picks the field a user would edit for a step (the URL of a navigation,
+ * the text of a type step, ...)
+ * @param step The macro step
+ * @returns The field name, or null for steps without a value (back, reload)
+ */
+export function getEditableField(step: CommandIntent): ValueField | null {
+  switch (step.action) {
+    case 'navigate':
+      return 'url';
+    case 'search':
+      return 'query';
+    case 'type':
+    case 'select_option':
+    case 'wait_for_text':
+    case 'wait_for_text_gone':
+    case 'check_text':
+    case 'check_text_absent':
+    case 'check_value':
+      return 'text';
+    case 'press_key':
+      return 'key';
+    case 'click':
+    case 'hover':
+      return 'target';
+    case 'scroll':
+      return step.direction === 'to' ? 'target' : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Lists the parameter names used by a macro's steps
+ * @param steps The macro steps
+ * @returns Unique parameter names in order of first use
+ */
+export function getMacroParameters(steps: CommandIntent[]): string[] {
+  const names: string[] = [];
+
+  steps.forEach(step => {
+    VALUE_FIELDS.forEach(field => {
+      const value = step[field];
+      if (typeof value !== 'string') return;
+
+      for (const match of value.matchAll(PARAMETER_PATTERN)) {
+        if (!names.includes(match[1])) {
+          names.push(match[1]);
+        }
+      }
+    });
+  });
+
+  return names;
+}
+
+/**
+ * Turns an executed intent into a macro step. Element ids are dropped on
+ * replay, so a step that names its element only by id ("click 7") gets the
+ * element's accessible name as its target instead.
+ * @param step The executed intent
+ * @param element The snapshot element the step's id referred to, if known
+ * @returns The step to record
+ * @throws Error if the step has only an id and the element has no name
+ */
+export function toMacroStep(step: CommandIntent, element?: SnapshotElement): CommandIntent {
+  if (!step.elementId || step.target?.trim()) {
+    return step;
+  }
+
+  const name = (element?.name || element?.label || '').trim();
+  if (!name) {
+    throw new Error(`Element #${step.elementId} has no name to find it by when the macro is replayed; use its text instead`);
+  }
+  return { ...step, target: name };
+}
+
+/**
+ * Fills parameter placeholders in a macro's steps
+ * @param steps The macro steps
+ * @param values Parameter values by name
+ * @returns New steps with every placeholder replaced
+ */
+export function applyMacroParameters(steps: CommandIntent[], values: Record<string, string>): CommandIntent[] {
+  const missing = getMacroParameters(steps).filter(name => values[name] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Missing value for ${missing.map(name => `{${name}}`).join(', ')}`);
+  }
+
+  return steps.map(step => {
+    const filled: CommandIntent = { ...step };
+    VALUE_FIELDS.forEach(field => {
+      const value = step[field];
+      if (typeof value === 'string') {
+        filled[field] = value.replace(PARAMETER_PATTERN, (_match, name: string) => values[name]);
+      }
+    });
+    // A recorded element id belongs to the page the macro was recorded on
+    delete filled.elementId;
+    return filled;
+  });
+}
+
+/**
+ * Parses "name=value" pairs given when running a macro
+ * @param text Arguments such as `date=2024-05-01 report="Weekly sales"`
+ * @returns Values by parameter name
+ */
+export function parseMacroArguments(text: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  const pattern = /(\w+)\s*=\s*(?:"([^"]*)"|'([^']*)'|(\S+))/g;
+
+  for (const match of text.matchAll(pattern)) {
+    values[match[1]] = match[2] ?? match[3] ?? match[4];
+  }
+
+  return values;
+}
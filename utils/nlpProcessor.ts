@@ -1,205 +1,409 @@
 // Simple NLP processor for web agent commands
-// This is a mock implementation that simulates LLM processing
+// The regex matcher below, with the grammar in commandGrammar.ts, is the
+// offline fallback for the LLM providers
 
-type CommandIntent = {
+import { createLLMProvider, DEFAULT_LLM_CONFIG, LLMConfig, LLMProvider } from './llmProviders';
+import { COMPARISON_PHRASES, Comparison, describeComparison } from './valueChecks';
+import { Bookmark, findBookmarkByName } from './bookmarks';
+import { LabeledExample, findLearnedIntent } from './intentExamples';
+import { parseGrammar, tokenizeUtterance } from './commandGrammar';
+import { isWebSearchTarget } from './searchEngines';
+
+export type CommandIntent = {
   type: string;
   action?: string;
   target?: string;
   query?: string;
   url?: string;
   text?: string;
+  // Snapshot id of the element to act on, when known
+  elementId?: string;
+  // Scroll direction: up, down, top, bottom or to (a target section)
+  direction?: string;
+  // Key name for key presses, e.g. Enter or ArrowDown
+  key?: string;
+  // Submit the form after typing
+  submit?: boolean;
+  // How long a wait may take, or how long to pause for
+  timeoutMs?: number;
+  // How check_value compares the page value with text
+  comparison?: Comparison;
   confidence: number;
 };
 
+// Spoken key names mapped to DOM key names
+const KEY_NAMES: Record<string, string> = {
+  'enter': 'Enter',
+  'return': 'Enter',
+  'tab': 'Tab',
+  'escape': 'Escape',
+  'esc': 'Escape',
+  'space': 'Space',
+  'spacebar': 'Space',
+  'backspace': 'Backspace',
+  'delete': 'Delete',
+  'up': 'ArrowUp',
+  'up arrow': 'ArrowUp',
+  'arrow up': 'ArrowUp',
+  'down': 'ArrowDown',
+  'down arrow': 'ArrowDown',
+  'arrow down': 'ArrowDown',
+  'left arrow': 'ArrowLeft',
+  'arrow left': 'ArrowLeft',
+  'right arrow': 'ArrowRight',
+  'arrow right': 'ArrowRight',
+  'page up': 'PageUp',
+  'page down': 'PageDown',
+  'home': 'Home',
+  'end': 'End',
+};
+
+// Convert "20", "seconds" to milliseconds
+function parseDuration(amount: string, unit = 's'): number {
+  const value = parseFloat(amount);
+  if (/^m(?:in|ins|inutes?)?$/i.test(unit)) return Math.round(value * 60000);
+  if (/^(?:ms|millis|milliseconds?)$/i.test(unit)) return Math.round(value);
+  return Math.round(value * 1000);
+}
+
+const DURATION = String.raw`(\d+(?:\.\d+)?)\s*(ms|milliseconds?|s|secs?|seconds?|m|mins?|minutes?)`;
+
+// Optional "within 20 seconds" after a wait
+const TIMEOUT_SUFFIX = new RegExp(String.raw`\s+(?:within|for up to|up to|for at most|timeout)\s+${DURATION}$`, 'i');
+
+const unquote = (value: string) => value.trim().replace(/^(["'])(.*)\1$/, '$2');
+
+// Quoted text is kept as is; "the spinner" loses the article
+const subject = (value: string) => /^["']/.test(value.trim()) ? unquote(value) : value.trim().replace(/^the\s+/i, '');
+
+// Wait and check commands ("wait until 'Order confirmed' appears",
+// "wait for the page to load", "check that the price is under $50")
+function parseWaitOrCheck(original: string): CommandIntent | null {
+  let match: RegExpMatchArray | null;
+
+  if ((match = original.match(new RegExp(String.raw`^(?:wait|pause|sleep)\s+(?:for\s+)?${DURATION}$`, 'i')))) {
+    return { type: 'wait', action: 'wait_for_time', timeoutMs: parseDuration(match[1], match[2]), confidence: 0.95 };
+  }
+
+  if (!/^wait\s+(?:for|until|till)\s+/i.test(original)) {
+    return parseCheck(original);
+  }
+
+  let rest = original.replace(/^wait\s+(?:for|until|till)\s+/i, '');
+  const timeout = rest.match(TIMEOUT_SUFFIX);
+  const timeoutMs = timeout ? { timeoutMs: parseDuration(timeout[1], timeout[2]) } : {};
+  rest = rest.replace(TIMEOUT_SUFFIX, '');
+
+  if (/^(?:the\s+)?page\s+(?:to\s+)?(?:(?:finish(?:es)?\s+)?load(?:s|ing)?|be\s+(?:loaded|ready)|is\s+(?:loaded|ready)|settle)$/i.test(rest) ||
+      /^(?:the\s+)?(?:page\s+)?load(?:ing)?\s+to\s+finish$/i.test(rest)) {
+    return { type: 'wait', action: 'wait_for_load', ...timeoutMs, confidence: 0.95 };
+  }
+
+  if ((match = rest.match(/^(.+?)\s+(?:disappears?|goes away|is gone|vanishes|is hidden|to disappear|to go away)$/i))) {
+    return { type: 'wait', action: 'wait_for_text_gone', text: subject(match[1]), ...timeoutMs, confidence: 0.9 };
+  }
+
+  match = rest.match(/^(?:the\s+text\s+)?(.+?)(?:\s+(?:appears?|shows? up|is shown|is visible|is displayed|to appear|to show up|to be shown))?$/i);
+  return match ? { type: 'wait', action: 'wait_for_text', text: subject(match[1]), ...timeoutMs, confidence: 0.9 } : null;
+}
+
+// "check that ..." claims about the page
+function parseCheck(original: string): CommandIntent | null {
+  const claimMatch = original.match(/^(?:check|verify|assert|make sure|ensure|confirm)\s+(?:that\s+)?(.+)$/i);
+  if (!claimMatch) {
+    return null;
+  }
+  const claim = claimMatch[1].trim();
+  let match: RegExpMatchArray | null;
+
+  if ((match = claim.match(/^(?:the\s+)?page\s+(?:does not|doesn't)\s+(?:say|show|contain|mention)\s+(.+)$/i)) ||
+      (match = claim.match(/^(.+?)\s+(?:is not|isn't|does not|doesn't)\s+(?:shown|visible|displayed|appear|exist|on the page)$/i))) {
+    return { type: 'assertion', action: 'check_text_absent', text: subject(match[1]), confidence: 0.9 };
+  }
+
+  if ((match = claim.match(/^(?:the\s+)?page\s+(?:says|shows|contains|mentions|has)\s+(.+)$/i)) ||
+      (match = claim.match(/^(.+?)\s+(?:is shown|is visible|is displayed|appears|exists|is on the page)$/i))) {
+    return { type: 'assertion', action: 'check_text', text: subject(match[1]), confidence: 0.9 };
+  }
+
+  const phrases = COMPARISON_PHRASES.map(([phrase]) => phrase).join('|');
+  if ((match = claim.match(new RegExp(`^(.+?)\\s+(?:is|are)\\s+(${phrases})\\s+(.+)$`, 'i')))) {
+    const comparison = COMPARISON_PHRASES.find(([phrase]) => phrase === match![2].toLowerCase())![1];
+    return { type: 'assertion', action: 'check_value', target: subject(match[1]).toLowerCase(), comparison, text: unquote(match[3]), confidence: 0.85 };
+  }
+
+  if ((match = claim.match(/^(.+?)\s+(?:is|are|equals|says)\s+(.+)$/i))) {
+    return { type: 'assertion', action: 'check_value', target: subject(match[1]).toLowerCase(), comparison: 'eq', text: unquote(match[2]), confidence: 0.8 };
+  }
+
+  return null;
+}
+
+// The input with quoted text blanked out, keeping every position, so
+// keywords inside quotes are not read as structure
+const maskQuoted = (input: string) => tokenizeUtterance(input)
+  .filter(token => token.quoted)
+  .reduce((text, token) => text.slice(0, token.start) + '_'.repeat(token.end - token.start) + text.slice(token.end), input);
+
+// The groups of a match on masked text, cut from the original text. The
+// pattern's groups must cover the whole input, in order.
+const originalGroups = (original: string, match: RegExpMatchArray) => {
+  let position = 0;
+  return match.slice(1).map(group => {
+    if (group === undefined) return undefined;
+    const part = original.slice(position, position + group.length);
+    position += group.length;
+    return part;
+  });
+};
+
+const FIELD_WORDS = String.raw`(?:field|box|input|textbox|text box|textarea|area)`;
+const SUBMIT_WORDS = String.raw`(?:submit|send|search|press enter|hit enter)`;
+
+// "type X into Y", or "type X in/on the Y field" when a field word makes
+// clear Y is a field: "type meet me on monday" types the whole phrase
+const INTO_FIELD = new RegExp(String.raw`^((?:type|enter|input|write|put)\s+)(.+?)(\s+into\s+(?:the\s+)?)(.+?)((?:\s+${FIELD_WORDS})?)((?:\s+and\s+${SUBMIT_WORDS})?)$`, 'i');
+const IN_FIELD = new RegExp(String.raw`^((?:type|enter|input|write|put)\s+)(.+?)(\s+(?:in|on)\s+(?:the\s+)?)(.+?)(\s+${FIELD_WORDS})((?:\s+and\s+${SUBMIT_WORDS})?)$`, 'i');
+const FILL_FIELD = new RegExp(String.raw`^fill(?:\s+in|\s+out)?\s+(?:the\s+)?(.+?)(?:\s+${FIELD_WORDS})?\s+with\s+(.+?)(\s+and\s+${SUBMIT_WORDS})?$`, 'i');
+
+// Things to search that are the user's own, not a website
+const PERSONAL_SEARCH_TARGET = /^(?:(?:my|our)\s.+|(?:the\s+)?(?:inbox|e-?mails?|mail|messages|files|documents|notes))$/i;
+
 // Mock LLM processing function
 export async function processNaturalLanguage(input: string): Promise<CommandIntent> {
   // Convert to lowercase for easier matching
   const text = input.toLowerCase().trim();
+  // Typed text keeps its original casing
+  const original = input.trim();
   
-  // Navigation intents
-  if (text.includes('go to') || 
-      text.includes('navigate to') || 
-      text.includes('open') || 
-      text.includes('visit') || 
-      text.includes('take me to') ||
-      text.includes('browse to')) {
-    
-    // Extract URL - look for words after the action verb
-    const urlMatches = text.match(/(go to|navigate to|open|visit|take me to|browse to)\s+([a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/);
-    const simpleUrlMatches = text.match(/([a-zA-Z0-9.-]+\.(com|org|net|io|gov|edu|co|app))/);
-    
-    if (urlMatches && urlMatches[2]) {
-      return {
-        type: 'navigation',
-        action: 'navigate',
-        url: urlMatches[2],
-        confidence: 0.9
-      };
-    } else if (simpleUrlMatches && simpleUrlMatches[1]) {
-      return {
-        type: 'navigation',
-        action: 'navigate',
-        url: simpleUrlMatches[1],
-        confidence: 0.85
-      };
-    } else {
-      // Try to extract any potential website name
-      const words = text.split(/\s+/);
-      const actionWords = ['go', 'to', 'navigate', 'open', 'visit', 'take', 'me', 'browse'];
-      const potentialSites = words.filter(word => 
-        !actionWords.includes(word) && 
-        word.length > 3 && 
-        !word.match(/^(the|and|or|but|if|then|when|how|what|why|who|where)$/)
-      );
-      
-      if (potentialSites.length > 0) {
-        return {
-          type: 'navigation',
-          action: 'navigate',
-          url: potentialSites[0],
-          confidence: 0.7
-        };
-      }
-    }
+  // Macro commands ("record macro daily report", "stop recording",
+  // "run macro daily report with date=2024-05-01", "list macros")
+  const recordMatch = original.match(/^(?:start\s+)?record(?:ing)?\s+(?:a\s+)?macro\s+(?:called\s+|named\s+)?(.+)$/i);
+  if (recordMatch) {
+    return {
+      type: 'system',
+      action: 'record_macro',
+      target: unquote(recordMatch[1].trim()),
+      confidence: 0.95
+    };
   }
   
-  // Search intents
-  if (text.includes('search for') || 
-      text.includes('find') || 
-      text.includes('look up') || 
-      text.includes('google') ||
-      text.includes('search')) {
-    
-    // Extract search query
-    let query = '';
-    
-    if (text.includes('search for')) {
-      query = text.split('search for')[1].trim();
-    } else if (text.includes('find')) {
-      query = text.split('find')[1].trim();
-    } else if (text.includes('look up')) {
-      query = text.split('look up')[1].trim();
-    } else if (text.includes('google')) {
-      query = text.split('google')[1].trim();
-    } else if (text.includes('search')) {
-      query = text.split('search')[1].trim();
-    }
-    
-    if (query) {
-      return {
-        type: 'search',
-        action: 'search',
-        query,
-        confidence: 0.85
-      };
-    }
+  if (/^(?:stop|finish|end)\s+recording$|^save\s+(?:the\s+)?macro$/.test(text)) {
+    return {
+      type: 'system',
+      action: 'stop_recording',
+      confidence: 0.95
+    };
   }
   
-  // Navigation controls
-  if (text.includes('back') || text === 'go back' || text === 'previous page') {
+  const runMacroMatch = original.match(/^(?:run|replay|play)\s+(?:the\s+)?macro\s+(.+?)(?:\s+with\s+(.+))?$/i);
+  if (runMacroMatch) {
     return {
-      type: 'navigation_control',
-      action: 'back',
+      type: 'system',
+      action: 'run_macro',
+      target: unquote(runMacroMatch[1].trim()),
+      ...(runMacroMatch[2] ? { text: runMacroMatch[2].trim() } : {}),
       confidence: 0.95
     };
   }
   
-  if (text.includes('forward') || text === 'go forward' || text === 'next page') {
+  if (/^(?:list|show)\s+(?:my\s+|all\s+)?macros$/.test(text)) {
     return {
-      type: 'navigation_control',
-      action: 'forward',
+      type: 'system',
+      action: 'list_macros',
       confidence: 0.95
     };
   }
   
-  if (text.includes('reload') || 
-      text.includes('refresh') || 
-      text.includes('update page') || 
-      text === 'reload page') {
+  // Bookmarks ("bookmark this page as standup board", "list bookmarks",
+  // "delete bookmark standup board"); "open standup board" is a navigation
+  // that applyBookmarks points at the saved page
+  const addBookmarkMatch = original.match(/^bookmark\s+(?:this|the\s+current)(?:\s+(?:page|site|tab))?(?:\s+(?:as|called|named)\s+(.+))?$/i) ||
+    original.match(/^(?:save|add)\s+(?:this\s+(?:page|site)\s+(?:as|to)\s+(?:a\s+|my\s+)?bookmarks?|a\s+bookmark(?:\s+for\s+this\s+(?:page|site))?)(?:\s+(?:as|called|named)\s+(.+))?$/i);
+  if (addBookmarkMatch) {
     return {
-      type: 'navigation_control',
-      action: 'reload',
+      type: 'system',
+      action: 'add_bookmark',
+      ...(addBookmarkMatch[1] ? { target: unquote(addBookmarkMatch[1].trim()) } : {}),
       confidence: 0.95
     };
   }
   
-  // Click intents
-  if (text.includes('click') || 
-      text.includes('press') || 
-      text.includes('select') || 
-      text.includes('choose') ||
-      text.includes('tap')) {
-    
-    // Extract target element
-    let target = '';
-    
-    if (text.includes('click on')) {
-      target = text.split('click on')[1].trim();
-    } else if (text.includes('click')) {
-      target = text.split('click')[1].trim();
-    } else if (text.includes('press')) {
-      target = text.split('press')[1].trim();
-    } else if (text.includes('select')) {
-      target = text.split('select')[1].trim();
-    } else if (text.includes('choose')) {
-      target = text.split('choose')[1].trim();
-    } else if (text.includes('tap')) {
-      target = text.split('tap')[1].trim();
-    }
-    
-    if (target) {
-      return {
-        type: 'interaction',
-        action: 'click',
-        target,
-        confidence: 0.8
-      };
-    }
+  if (/^(?:list|show)\s+(?:my\s+|all\s+)?bookmarks$/.test(text)) {
+    return {
+      type: 'system',
+      action: 'list_bookmarks',
+      confidence: 0.95
+    };
   }
   
-  // Type intents
-  if (text.includes('type') || 
-      text.includes('enter') || 
-      text.includes('input') || 
-      text.includes('write')) {
-    
-    // Extract text to type
-    let textToType = '';
+  const deleteBookmarkMatch = original.match(/^(?:delete|remove)\s+(?:the\s+)?bookmark\s+(?:called\s+|named\s+)?(.+)$/i) ||
+    original.match(/^(?:delete|remove)\s+(?:the\s+|my\s+)?(.+?)\s+bookmark$/i);
+  if (deleteBookmarkMatch) {
+    return {
+      type: 'system',
+      action: 'delete_bookmark',
+      target: unquote(deleteBookmarkMatch[1].trim()),
+      confidence: 0.95
+    };
+  }
+  
+  const waitOrCheck = parseWaitOrCheck(original);
+  if (waitOrCheck) {
+    return waitOrCheck;
+  }
+  
+  // Summaries and reader mode ("summarize this page", "read this article")
+  const PAGE_WORDS = String.raw`(?:\s+(?:this|the)\s+(?:page|article|post|story|site))?`;
+  if (new RegExp(String.raw`^(?:summari[sz]e|sum\s+up|tl;?dr|give\s+me\s+(?:a\s+)?summary\s+of)${PAGE_WORDS}(?:\s+for\s+me)?$`).test(text) ||
+      /^what(?:'s|\s+is)\s+(?:this|the)\s+(?:page|article|post|story|site)\s+about\??$/.test(text)) {
+    return { type: 'reading', action: 'summarize', confidence: 0.9 };
+  }
+  if (new RegExp(String.raw`^(?:read(?:\s+(?:me|out))?${PAGE_WORDS}(?:\s+(?:to\s+me|aloud))?|(?:open\s+|show\s+|switch\s+to\s+)?reader\s+(?:mode|view))$`).test(text)) {
+    return { type: 'reading', action: 'read_page', confidence: 0.9 };
+  }
+  
+  // Tabs ("open amazon.com in a new tab", "switch to tab 2", "close this tab")
+  const newTabMatch = text.match(/^(?:(?:open|go\s+to|visit|load)\s+)?(?:(?:the\s+)?(.+?)\s+in\s+)?(?:a\s+)?new\s+tab(?:\s+(?:with|for|to)\s+(\S+))?$/);
+  if (newTabMatch) {
+    const site = newTabMatch[1] || newTabMatch[2];
+    return { type: 'tab', action: 'open_tab', ...(site ? { url: site } : {}), confidence: 0.9 };
+  }
+  
+  const switchTabMatch = text.match(/^(?:switch|go|change|move|jump)\s+(?:back\s+)?to\s+(?:the\s+)?(?:tab\s+(\w+)|(.+?)\s+tab)$/) ||
+    text.match(/^(?:tab\s+(\d+)|(next|previous|prev|first|last)\s+tab)$/);
+  if (switchTabMatch) {
+    return { type: 'tab', action: 'switch_tab', target: switchTabMatch[1] || switchTabMatch[2], confidence: 0.9 };
+  }
+  
+  const closeTabMatch = text.match(/^close\s+(?:the\s+)?(?:tab(?:\s+(\w+))?|(.+?)\s+tab)$/);
+  if (closeTabMatch) {
+    const target = closeTabMatch[1] || closeTabMatch[2] || 'this';
+    return { type: 'tab', action: 'close_tab', target: target === 'current' ? 'this' : target, confidence: 0.9 };
+  }
+  
+  if (/^(?:list|show)\s+(?:all\s+|my\s+|the\s+|open\s+)*tabs$/.test(text)) {
+    return { type: 'tab', action: 'list_tabs', confidence: 0.95 };
+  }
+  
+  // Site searches ("search wikipedia for octopus", "search on amazon for usb hubs").
+  // "Search the web for ..." is a plain web search, and "search my inbox
+  // for ..." names no site at all.
+  const siteSearchMatch = original.match(/^search\s+(?:on\s+|in\s+)?(?!for\b)(.+?)\s+for\s+(.+)$/i);
+  if (siteSearchMatch && !PERSONAL_SEARCH_TARGET.test(siteSearchMatch[1])) {
+    const site = siteSearchMatch[1].toLowerCase();
+    return {
+      type: 'search',
+      action: 'search',
+      ...(isWebSearchTarget(site) ? {} : { target: site }),
+      query: siteSearchMatch[2].trim(),
+      confidence: 0.9
+    };
+  }
+  
+  // Structured data ("extract all product names and prices on this page",
+  // "get the table of results")
+  const onPage = String.raw`(?:\s+(?:on|from|in)\s+(?:this|the)\s+(?:page|site))?`;
+  const dataMatch =
+    original.match(new RegExp(String.raw`^(?:extract|scrape|collect|pull|grab)\s+(?:out\s+)?(.+?)${onPage}$`, 'i')) ||
+    original.match(new RegExp(String.raw`^(?:get|show|list|export)\s+(?:me\s+)?(.*\b(?:table|list|rows|results|data)\b.*?)${onPage}$`, 'i')) ||
+    original.match(/^(?:get|show|list|export)\s+(?:me\s+)?(all\s+.+?)\s+(?:on|from|in)\s+(?:this|the)\s+(?:page|site)$/i);
+  if (dataMatch) {
+    return {
+      type: 'extraction',
+      action: 'extract_data',
+      target: dataMatch[1].replace(/^(?:all\s+)?(?:of\s+)?(?:the\s+)?/i, '').trim(),
+      confidence: 0.85
+    };
+  }
+  
+  // Typing into a named field ("type john@example.com into the email field",
+  // "fill the email field with john@example.com and submit"). Only words
+  // outside quotes split the text from the field.
+  const masked = maskQuoted(original);
+  const fieldMatch = masked.match(INTO_FIELD) || masked.match(IN_FIELD);
+  const intoMatch = fieldMatch && originalGroups(original, fieldMatch);
+  const fillMatch = original.match(FILL_FIELD);
+  if (intoMatch || fillMatch) {
+    const [value, field, submit] = intoMatch
+      ? [intoMatch[1]!, intoMatch[3]!, intoMatch[5]]
+      : [fillMatch![2], fillMatch![1], fillMatch![3]];
+    // "type hello into 12" targets a page snapshot id
+    const fieldId = field.match(/^(?:element\s+)?#?(\d+)$/);
+    return {
+      type: 'interaction',
+      action: 'type',
+      text: unquote(value),
+      ...(fieldId ? { elementId: fieldId[1] } : { target: field.toLowerCase() }),
+      ...(submit ? { submit: true } : {}),
+      confidence: 0.85
+    };
+  }
+  
+  // Scroll intents
+  if (/^scroll\b/.test(text)) {
+    const rest = text.replace(/^scroll\s*/, '');
     
-    if (text.includes('type')) {
-      textToType = text.split('type')[1].trim();
-    } else if (text.includes('enter')) {
-      textToType = text.split('enter')[1].trim();
-    } else if (text.includes('input')) {
-      textToType = text.split('input')[1].trim();
-    } else if (text.includes('write')) {
-      textToType = text.split('write')[1].trim();
+    if (/^up\b/.test(rest)) {
+      return { type: 'interaction', action: 'scroll', direction: 'up', confidence: 0.95 };
+    }
+    if (/^(?:to\s+)?(?:the\s+)?(?:top|start)\b/.test(rest)) {
+      return { type: 'interaction', action: 'scroll', direction: 'top', confidence: 0.95 };
+    }
+    if (/^(?:to\s+)?(?:the\s+)?(?:bottom|end)\b/.test(rest)) {
+      return { type: 'interaction', action: 'scroll', direction: 'bottom', confidence: 0.95 };
     }
     
-    if (textToType) {
-      return {
-        type: 'interaction',
-        action: 'type',
-        text: textToType,
-        confidence: 0.8
-      };
+    const sectionMatch = rest.match(/^(?:down\s+)?(?:to|until)\s+(?:the\s+)?(.+?)(?:\s+(?:section|part|area|heading))?$/);
+    if (sectionMatch && sectionMatch[1]) {
+      return { type: 'interaction', action: 'scroll', direction: 'to', target: sectionMatch[1], confidence: 0.85 };
     }
+    
+    return { type: 'interaction', action: 'scroll', direction: 'down', confidence: 0.9 };
   }
   
-  // Help intent
-  if (text === 'help' || 
-      text.includes('help me') || 
-      text.includes('show help') || 
-      text.includes('what can you do') ||
-      text.includes('commands') ||
-      text.includes('how to use')) {
+  // Key press intents ("press enter", "hit escape")
+  const keyMatch = text.match(/^(?:press|hit|push)\s+(?:the\s+)?(.+?)(?:\s+(?:key|button))?$/);
+  if (keyMatch && KEY_NAMES[keyMatch[1]]) {
     return {
-      type: 'system',
-      action: 'help',
-      confidence: 0.95
+      type: 'interaction',
+      action: 'press_key',
+      key: KEY_NAMES[keyMatch[1]],
+      confidence: 0.9
+    };
+  }
+  
+  // Hover intents
+  const hoverMatch = text.match(/^(?:hover|mouse)(?:\s+(?:over|on))?\s+(?:the\s+)?(.+)$/);
+  if (hoverMatch && hoverMatch[1]) {
+    return {
+      type: 'interaction',
+      action: 'hover',
+      target: hoverMatch[1],
+      confidence: 0.85
+    };
+  }
+  
+  // Dropdown intents ("choose canada in the country dropdown", "set country to canada")
+  const selectMatch = text.match(/^(?:select|choose|pick)\s+(.+?)\s+(?:in|from|on)\s+(?:the\s+)?(.+?)(?:\s+(?:dropdown|drop-down|drop down|list|menu|select|selector|picker|field|box))?$/);
+  const setMatch = text.match(/^set\s+(?:the\s+)?(.+?)(?:\s+(?:dropdown|drop-down|field))?\s+to\s+(.+)$/);
+  if (selectMatch || setMatch) {
+    return {
+      type: 'interaction',
+      action: 'select_option',
+      text: selectMatch ? selectMatch[1] : setMatch![2],
+      target: selectMatch ? selectMatch[2] : setMatch![1],
+      confidence: 0.85
     };
   }
   
+  // Everyday commands (go to, search, back, click, type, help) are read by
+  // the grammar, word by word
+  const parsed = parseGrammar(original);
+  if (parsed.intent) {
+    return parsed.intent;
+  }
+  
   // If we can't determine the intent, return a low confidence result
   return {
     type: 'unknown',
@@ -207,21 +411,148 @@ export async function processNaturalLanguage(input: string): Promise<CommandInte
   };
 }
 
-// In a real implementation, this would connect to an actual LLM API
-// This is just a placeholder for the mock implementation
-export async function processWithLLM(input: string): Promise<CommandIntent> {
-  // For now, we'll just use our simple NLP processor
-  return processNaturalLanguage(input);
+// The built-in regex parser exposed through the provider interface
+export const regexProvider: LLMProvider = {
+  id: 'regex',
+  parseCommand: processNaturalLanguage,
+};
+
+// Parse a command with the configured LLM provider, falling back to the
+// regex parser when no provider is configured, the request times out or
+// the model returns something that is not a valid CommandIntent
+export async function processWithLLM(
+  input: string,
+  config: LLMConfig = DEFAULT_LLM_CONFIG
+): Promise<CommandIntent> {
+  const provider = config.provider === 'regex' ? null : createLLMProvider(config);
+  
+  if (!provider) {
+    return regexProvider.parseCommand(input);
+  }
+  
+  try {
+    return await provider.parseCommand(input);
+  } catch (error) {
+    console.warn(`LLM provider "${provider.id}" failed, using regex parser:`, error);
+    return regexProvider.parseCommand(input);
+  }
+}
+
+/**
+ * Points navigation at a saved bookmark when the site named is a bookmark,
+ * so "open standup board" opens the saved page instead of a guessed domain
+ * @param intent A parsed intent
+ * @param bookmarks The saved bookmarks
+ * @returns The intent with the bookmark's URL, or the intent unchanged
+ */
+export function applyBookmarks(intent: CommandIntent, bookmarks: Bookmark[]): CommandIntent {
+  const opensSite = (intent.type === 'navigation' && intent.action === 'navigate') ||
+    (intent.type === 'tab' && intent.action === 'open_tab');
+  const bookmark = opensSite && intent.url ? findBookmarkByName(bookmarks, intent.url) : undefined;
+  
+  return bookmark
+    ? { ...intent, url: bookmark.url, target: bookmark.name, confidence: Math.max(intent.confidence, 0.95) }
+    : intent;
+}
+
+// Verbs that can start a new step after a plain "and"
+const CHAIN_VERBS = [
+  'go', 'navigate', 'open', 'visit', 'browse', 'search', 'find', 'look', 'google',
+  'click', 'tap', 'press', 'select', 'choose', 'type', 'enter', 'write',
+  'reload', 'refresh', 'scroll', 'hover', 'hit', 'pick', 'set', 'wait', 'verify', 'extract', 'summarize',
+  'switch', 'close',
+];
+
+// Submit words that may end a step typing into a named field
+const SUBMIT_SUFFIX = new RegExp(String.raw`^${SUBMIT_WORDS}\s*(?:$|[;,]|\s+(?:and|then)\s)`, 'i');
+
+// Split an utterance like "go to github.com then search for expo and click
+// the first result" into one clause per step. A plain "and" only splits when
+// it is followed by an action verb, so "search for salt and pepper" stays whole,
+// and separators inside quotes are text: 'type "a then b"' is one step.
+// "type hello into email and search" keeps its "and search": it submits.
+export function splitCommandChain(input: string): string[] {
+  const separator = new RegExp(
+    `\\s*;\\s*|\\s*,?\\s+(?:and\\s+)?then\\s+|\\s*,?\\s+and\\s+(?=(?:${CHAIN_VERBS.join('|')})\\b)`,
+    'gi'
+  );
+  
+  // Look for separators with quoted text blanked out
+  const masked = maskQuoted(input);
+  
+  const clauses: string[] = [];
+  let position = 0;
+  for (const match of Array.from(masked.matchAll(separator))) {
+    const start = match.index ?? 0;
+    const rest = masked.slice(start + match[0].length);
+    const clause = input.slice(position, start);
+    // A field typing step's own "and submit" is not a step of its own
+    const typing = masked.slice(position, start).trim();
+    if (/^\s*,?\s+and\s/i.test(match[0]) && SUBMIT_SUFFIX.test(rest) &&
+        [INTO_FIELD, IN_FIELD, FILL_FIELD].some(pattern => pattern.test(typing))) {
+      continue;
+    }
+    clauses.push(clause);
+    position = start + match[0].length;
+  }
+  clauses.push(input.slice(position));
+  
+  return clauses
+    .map(clause => clause.trim())
+    .filter(clause => clause.length > 0);
+}
+
+// The readings of a command the grammar finds equally likely, one per
+// meaning and best first, e.g. "click back" could click a Back button or
+// go back. Empty when the command reads only one way.
+export function getAmbiguousReadings(input: string): CommandIntent[] {
+  const parsed = parseGrammar(input);
+  if (!parsed.ambiguous) {
+    return [];
+  }
+  
+  const best = parsed.candidates[0].score;
+  const seen = new Set<string>();
+  return parsed.candidates
+    .filter(candidate => candidate.score === best)
+    .map(candidate => candidate.intent)
+    .filter(intent => {
+      const label = `${intent.type}:${intent.action || ''}`;
+      if (seen.has(label)) return false;
+      seen.add(label);
+      return true;
+    });
+}
+
+// Parse an utterance into an ordered plan with one intent per step. The
+// user's corrections are saved per step and come first for each one.
+export async function processCommandPlan(
+  input: string,
+  config: LLMConfig = DEFAULT_LLM_CONFIG,
+  examples: LabeledExample[] = []
+): Promise<CommandIntent[]> {
+  const clauses = splitCommandChain(input);
+  const steps: CommandIntent[] = [];
+  
+  for (const clause of clauses) {
+    steps.push(findLearnedIntent(examples, clause)?.intent || await processWithLLM(clause, config));
+  }
+  
+  return steps;
 }
 
 // Function to generate a human-readable explanation of what the agent understood
 export function generateExplanation(intent: CommandIntent): string {
   switch (intent.type) {
     case 'navigation':
-      return `I'll navigate to ${intent.url}`;
+      return intent.target
+        ? `I'll open your bookmark "${intent.target}"`
+        : `I'll navigate to ${intent.url}`;
       
     case 'search':
-      return `I'll search for "${intent.query}"`;
+      return intent.target
+        ? `I'll search ${intent.target} for "${intent.query}"`
+        : `I'll search for "${intent.query}"`;
       
     case 'navigation_control':
       switch (intent.action) {
@@ -238,18 +569,107 @@ export function generateExplanation(intent: CommandIntent): string {
     case 'interaction':
       switch (intent.action) {
         case 'click':
-          return `I'll click on "${intent.target}"`;
+          return intent.elementId && !intent.target
+            ? `I'll click on element #${intent.elementId}`
+            : `I'll click on "${intent.target}"`;
         case 'type':
-          return `I'll type "${intent.text}"`;
+          return intent.target
+            ? `I'll type "${intent.text}" into the ${intent.target} field${intent.submit ? ' and submit' : ''}`
+            : intent.elementId
+              ? `I'll type "${intent.text}" into element #${intent.elementId}${intent.submit ? ' and submit' : ''}`
+              : `I'll type "${intent.text}"${intent.submit ? ' and submit' : ''}`;
+        case 'scroll':
+          switch (intent.direction) {
+            case 'up':
+              return "I'll scroll up the page";
+            case 'top':
+              return "I'll scroll to the top of the page";
+            case 'bottom':
+              return "I'll scroll to the bottom of the page";
+            case 'to':
+              return `I'll scroll to "${intent.target}"`;
+            default:
+              return "I'll scroll down the page";
+          }
+        case 'hover':
+          return `I'll hover over "${intent.target}"`;
+        case 'press_key':
+          return `I'll press the ${intent.key} key`;
+        case 'select_option':
+          return `I'll choose "${intent.text}" in the ${intent.target} dropdown`;
         default:
           return "I'll interact with the page";
       }
       
+    case 'wait': {
+      const within = intent.timeoutMs ? ` (up to ${intent.timeoutMs / 1000}s)` : '';
+      switch (intent.action) {
+        case 'wait_for_time':
+          return `I'll wait ${(intent.timeoutMs || 0) / 1000} seconds`;
+        case 'wait_for_load':
+          return `I'll wait for the page to finish loading${within}`;
+        case 'wait_for_text_gone':
+          return `I'll wait until "${intent.text}" disappears${within}`;
+        default:
+          return `I'll wait until "${intent.text}" appears${within}`;
+      }
+    }
+      
+    case 'assertion':
+      switch (intent.action) {
+        case 'check_text_absent':
+          return `I'll check that the page does not show "${intent.text}"`;
+        case 'check_value':
+          return `I'll check that the ${intent.target} is ${describeComparison(intent.comparison || 'eq', intent.text || '')}`;
+        default:
+          return `I'll check that the page shows "${intent.text}"`;
+      }
+      
+    case 'tab': {
+      const tab = /^\d+$/.test(intent.target || '') ? `tab ${intent.target}` : `the ${intent.target} tab`;
+      switch (intent.action) {
+        case 'open_tab':
+          return intent.url ? `I'll open ${intent.url} in a new tab` : "I'll open a new tab";
+        case 'switch_tab':
+          return `I'll switch to ${tab}`;
+        case 'close_tab':
+          return intent.target === 'this' ? "I'll close this tab" : `I'll close ${tab}`;
+        default:
+          return "I'll list the open tabs";
+      }
+    }
+      
+    case 'reading':
+      return intent.action === 'read_page'
+        ? "I'll show the main text of this page"
+        : "I'll summarize this page";
+      
+    case 'extraction':
+      return `I'll extract ${intent.target ? `the ${intent.target}` : 'the data'} from this page into a sheet`;
+      
     case 'system':
-      if (intent.action === 'help') {
-        return "I'll show you what commands I understand";
+      switch (intent.action) {
+        case 'help':
+          return "I'll show you what commands I understand";
+        case 'record_macro':
+          return `I'll record the following commands as the macro "${intent.target}"`;
+        case 'stop_recording':
+          return "I'll stop recording and save the macro";
+        case 'run_macro':
+          return `I'll replay the macro "${intent.target}"${intent.text ? ` with ${intent.text}` : ''}`;
+        case 'list_macros':
+          return "I'll list your saved macros";
+        case 'add_bookmark':
+          return intent.target
+            ? `I'll bookmark this page as "${intent.target}"`
+            : "I'll bookmark this page";
+        case 'list_bookmarks':
+          return "I'll list your bookmarks";
+        case 'delete_bookmark':
+          return `I'll delete the bookmark "${intent.target}"`;
+        default:
+          return "I'll perform a system action";
       }
-      return "I'll perform a system action";
       
     case 'unknown':
     default:
@@ -0,0 +1,76 @@
+// The fixed library of functions that React Native may call inside a page.
+// Scripts never carry caller-supplied code: a call names one of these
+// functions and passes its arguments as JSON (see scriptBuilder.ts).
+
+import { SNAPSHOT_FUNCTION } from './pageSnapshot';
+import {
+  PAGE_HELPERS,
+  CLICK_ELEMENT_FUNCTION,
+  TYPE_TEXT_FUNCTION,
+  SCROLL_PAGE_FUNCTION,
+  HOVER_ELEMENT_FUNCTION,
+  PRESS_KEY_FUNCTION,
+  SELECT_OPTION_FUNCTION,
+  WAIT_FOR_TEXT_FUNCTION,
+  WAIT_FOR_PAGE_READY_FUNCTION,
+  READ_VALUE_FUNCTION,
+  HAS_TEXT_FUNCTION,
+  EXTRACT_TEXT_FUNCTION,
+  EXTRACT_DATA_FUNCTION,
+  SHOW_MARKS_FUNCTION,
+  CLEAR_MARKS_FUNCTION,
+  WATCH_PAGE_CHANGES_FUNCTION,
+  READ_ARTICLE_FUNCTION,
+  LOAD_PDF_FUNCTION,
+} from './pageScripts';
+
+// Bump when a function changes so pages holding an older copy reinstall it
+export const PAGE_LIBRARY_VERSION = 9;
+
+// Global the library is installed under in the page
+export const PAGE_LIBRARY_GLOBAL = '__webAgent';
+
+export const PAGE_FUNCTIONS = {
+  takePageSnapshot: SNAPSHOT_FUNCTION,
+  clickElement: CLICK_ELEMENT_FUNCTION,
+  typeText: TYPE_TEXT_FUNCTION,
+  scrollPage: SCROLL_PAGE_FUNCTION,
+  hoverElement: HOVER_ELEMENT_FUNCTION,
+  pressKey: PRESS_KEY_FUNCTION,
+  selectOption: SELECT_OPTION_FUNCTION,
+  waitForText: WAIT_FOR_TEXT_FUNCTION,
+  waitForPageReady: WAIT_FOR_PAGE_READY_FUNCTION,
+  readValue: READ_VALUE_FUNCTION,
+  hasText: HAS_TEXT_FUNCTION,
+  extractText: EXTRACT_TEXT_FUNCTION,
+  extractData: EXTRACT_DATA_FUNCTION,
+  readArticle: READ_ARTICLE_FUNCTION,
+  showMarks: SHOW_MARKS_FUNCTION,
+  clearMarks: CLEAR_MARKS_FUNCTION,
+  watchPageChanges: WATCH_PAGE_CHANGES_FUNCTION,
+  loadPdf: LOAD_PDF_FUNCTION,
+};
+
+export type PageFunctionName = keyof typeof PAGE_FUNCTIONS;
+
+/**
+ * Checks whether a name refers to a registered page function
+ * @param name The name to check
+ * @returns True if the name is in PAGE_FUNCTIONS
+ */
+export function isPageFunctionName(name: string): name is PageFunctionName {
+  return Object.prototype.hasOwnProperty.call(PAGE_FUNCTIONS, name);
+}
+
+// Installs the library unless the page already has the current version
+export const PAGE_LIBRARY_SCRIPT = `
+  if (!window.${PAGE_LIBRARY_GLOBAL} || window.${PAGE_LIBRARY_GLOBAL}.version !== ${PAGE_LIBRARY_VERSION}) {
+    window.${PAGE_LIBRARY_GLOBAL} = {
+      version: ${PAGE_LIBRARY_VERSION},
+      helpers: ${PAGE_HELPERS.trim()},
+      functions: {
+        ${Object.entries(PAGE_FUNCTIONS).map(([name, source]) => `${name}: (${source.trim()})`).join(',\n')}
+      }
+    };
+  }
+`;
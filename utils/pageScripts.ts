@@ -0,0 +1,1061 @@
+// Page-side functions registered in the page library (see pageLibrary.ts).
+// Each is the source of a function; arguments arrive as JSON and the return
+// value is posted back as the call result. Functions are called with the
+// PAGE_HELPERS object as `this`.
+
+import { AGENT_ID_ATTRIBUTE } from './pageSnapshot';
+
+// Id of the layer that holds numbered marks drawn over elements
+export const MARKS_LAYER_ID = '__agent-marks';
+
+// Result of CLICK_ELEMENT_FUNCTION
+export type ClickResult =
+  | { found: true; text: string; tagName: string }
+  | { found: false };
+
+// Result of TYPE_TEXT_FUNCTION
+export type TypeResult =
+  | { typed: true; element: string; submitted: boolean }
+  | { typed: false; reason: 'fieldNotFound' | 'noEditableField' };
+
+// Result of SCROLL_PAGE_FUNCTION
+export type ScrollResult =
+  | { scrolled: true; y: number; target?: string }
+  | { scrolled: false; reason: 'targetNotFound' | 'atEdge'; y: number };
+
+// Result of HOVER_ELEMENT_FUNCTION
+export type HoverResult =
+  | { hovered: true; text: string; tagName: string }
+  | { hovered: false };
+
+// Result of PRESS_KEY_FUNCTION
+export type PressKeyResult = {
+  pressed: true;
+  key: string;
+  element: string;
+  submitted: boolean;
+};
+
+// Result of WAIT_FOR_TEXT_FUNCTION
+export type WaitForTextResult = {
+  // Whether the text is on the page when the wait ends
+  found: boolean;
+  waitedMs: number;
+};
+
+// Result of WAIT_FOR_PAGE_READY_FUNCTION
+export type WaitForPageReadyResult = {
+  ready: boolean;
+  waitedMs: number;
+};
+
+// Result of EXTRACT_DATA_FUNCTION
+export type ExtractDataResult =
+  | { found: true; title: string; url: string; kind: 'table' | 'list' | 'cards'; columns: string[]; rows: string[][]; totalRows: number }
+  | { found: false };
+
+// A link found inside an article
+export type ArticleLink = {
+  text: string;
+  href: string;
+};
+
+// The main content of a page, as found by READ_ARTICLE_FUNCTION
+export type PageArticle = {
+  title: string;
+  byline: string;
+  url: string;
+  paragraphs: string[];
+  links: ArticleLink[];
+  wordCount: number;
+  // Whether paragraphs stop short of the whole article
+  truncated: boolean;
+};
+
+// Result of READ_ARTICLE_FUNCTION
+export type ReadArticleResult = ({ found: true } & PageArticle) | { found: false };
+
+// Result of READ_VALUE_FUNCTION
+export type ReadValueResult =
+  | { found: true; text: string; source: string }
+  | { found: false };
+
+// A numbered badge to draw over the element with a snapshot id
+export type ElementMark = {
+  id: string;
+  label: string;
+};
+
+// Result of SHOW_MARKS_FUNCTION
+export type ShowMarksResult = {
+  shown: number;
+};
+
+// Result of SELECT_OPTION_FUNCTION
+export type SelectOptionResult =
+  | { selected: true; option: string; field: string }
+  | { selected: false; reason: 'fieldNotFound' }
+  | { selected: false; reason: 'optionNotFound'; field: string; options: string[] };
+
+// Helpers shared by the page functions
+export const PAGE_HELPERS = `
+  {
+    clickableSelector: 'a, button, [role="button"], input[type="submit"], input[type="button"]',
+
+    hoverableSelector: 'a, button, [role], [aria-haspopup], [aria-expanded], li, nav *, summary, label',
+
+    textOf: function(el) {
+      return ((el.innerText || el.textContent || '') + '').replace(/\\s+/g, ' ').trim();
+    },
+
+    byAgentId: function(elementId) {
+      if (!elementId) return null;
+      return document.querySelector('[${AGENT_ID_ATTRIBUTE}="' + String(elementId).replace(/[^0-9]/g, '') + '"]');
+    },
+
+    findByText: function(text, selector) {
+      const needle = (text || '').toLowerCase().trim();
+      if (!needle) return null;
+      const self = this;
+      return Array.from(document.querySelectorAll(selector)).find(function(el) {
+        return self.textOf(el).toLowerCase().includes(needle);
+      }) || Array.from(document.querySelectorAll('[aria-label], [title]')).find(function(el) {
+        const label = el.getAttribute('aria-label') || el.getAttribute('title') || '';
+        return label.toLowerCase().includes(needle);
+      }) || null;
+    },
+
+    findTarget: function(text, elementId, selector) {
+      return this.byAgentId(elementId) || this.findByText(text, selector);
+    },
+
+    describe: function(el) {
+      return {
+        text: this.textOf(el).slice(0, 80) || el.value || el.getAttribute('aria-label') || 'element',
+        tagName: el.tagName
+      };
+    },
+
+    describeField: function(el) {
+      return el.getAttribute('aria-label') || el.name || el.id || el.tagName.toLowerCase();
+    },
+
+    highlight: function(el, then) {
+      const originalBackground = el.style.backgroundColor;
+      const originalTransition = el.style.transition;
+      el.style.transition = 'background-color 0.3s';
+      el.style.backgroundColor = '#ffcc00';
+
+      setTimeout(function() {
+        el.style.backgroundColor = originalBackground;
+        el.style.transition = originalTransition;
+        if (then) then();
+      }, 300);
+    },
+
+    clearMarks: function() {
+      const layer = document.getElementById('${MARKS_LAYER_ID}');
+      if (layer) layer.remove();
+    },
+
+    hasText: function(text) {
+      const needle = (text || '').toLowerCase().replace(/\\s+/g, ' ').trim();
+      if (!needle) return false;
+      if (this.textOf(document.body).toLowerCase().includes(needle)) return true;
+      // Also match labels and values that are not part of the visible text
+      return Array.from(document.querySelectorAll('[aria-label], [title], [placeholder], input, textarea')).some(function(el) {
+        const label = [el.getAttribute('aria-label'), el.getAttribute('title'), el.getAttribute('placeholder'), el.value]
+          .filter(Boolean).join(' ').toLowerCase();
+        return label.includes(needle);
+      });
+    }
+  }
+`;
+
+// Finds an element by snapshot id or text, highlights it and clicks it
+export const CLICK_ELEMENT_FUNCTION = `
+  function clickElement(text, elementId) {
+    const found = this.findTarget(text, elementId, this.clickableSelector);
+
+    if (!found) {
+      return { found: false };
+    }
+
+    this.highlight(found, function() {
+      found.click();
+    });
+
+    const description = this.describe(found);
+    return { found: true, text: description.text, tagName: description.tagName };
+  }
+`;
+
+// Writes text into the field matching a description (label, placeholder,
+// name, aria-label or nearby text), the focused field, or the first visible
+// text field, then optionally submits
+export const TYPE_TEXT_FUNCTION = `
+  function typeText(text, field, submit, elementId) {
+    const self = this;
+    const EDITABLE = 'input:not([type="hidden"]):not([type="checkbox"]):not([type="radio"]):not([type="submit"]):not([type="button"]):not([type="reset"]):not([type="file"]):not([type="image"]), textarea, [contenteditable=""], [contenteditable="true"], [role="textbox"], [role="searchbox"], [role="combobox"]';
+
+    function isEditable(el) {
+      return el && !el.disabled && !el.readOnly && el.matches && el.matches(EDITABLE);
+    }
+
+    function isVisible(el) {
+      const rect = el.getBoundingClientRect();
+      return rect.width > 0 && rect.height > 0 && window.getComputedStyle(el).visibility !== 'hidden';
+    }
+
+    function norm(value) {
+      return (value || '').toLowerCase().replace(/[-_*:]/g, ' ').replace(/\\s+/g, ' ').trim();
+    }
+
+    // Own descriptions of a field, strongest first
+    function descriptions(el) {
+      const labels = el.labels ? Array.from(el.labels).map(function(label) { return self.textOf(label); }) : [];
+      const labelledBy = (el.getAttribute('aria-labelledby') || '').split(/\\s+/).map(function(id) {
+        const ref = id && document.getElementById(id);
+        return ref ? self.textOf(ref) : '';
+      });
+      return labels.concat(labelledBy, [
+        el.getAttribute('aria-label'),
+        el.getAttribute('placeholder'),
+        el.getAttribute('name'),
+        el.id,
+        el.getAttribute('title'),
+        el.getAttribute('type') === 'email' ? 'email' : '',
+        el.getAttribute('type') === 'password' ? 'password' : '',
+        el.getAttribute('type') === 'search' ? 'search' : ''
+      ]).map(norm).filter(Boolean);
+    }
+
+    // Short text just before the field, e.g. an unlabelled caption
+    function nearbyText(el) {
+      const previous = el.previousElementSibling;
+      const parent = el.parentElement;
+      return [previous ? self.textOf(previous) : '', parent ? self.textOf(parent) : '']
+        .filter(function(value) { return value.length > 0 && value.length < 60; })
+        .map(norm);
+    }
+
+    function score(el, needle) {
+      const own = descriptions(el);
+      let best = 0;
+      if (own.indexOf(needle) !== -1) best = 4;
+      else if (own.some(function(value) { return value.includes(needle); })) best = 3;
+      else if (nearbyText(el).some(function(value) { return value.includes(needle); })) best = 1;
+      return best ? best + (isVisible(el) ? 0.5 : 0) : 0;
+    }
+
+    let input = this.byAgentId(elementId);
+
+    if (!input && field) {
+      const needle = norm(field);
+      let bestScore = 0;
+      Array.from(document.querySelectorAll(EDITABLE)).forEach(function(el) {
+        if (!isEditable(el)) return;
+        const value = score(el, needle);
+        if (value > bestScore) {
+          bestScore = value;
+          input = el;
+        }
+      });
+
+      if (!input) {
+        return { typed: false, reason: 'fieldNotFound' };
+      }
+    }
+
+    if (!input && isEditable(document.activeElement)) {
+      input = document.activeElement;
+    }
+
+    if (!input) {
+      input = Array.from(document.querySelectorAll(EDITABLE)).find(function(el) {
+        return isEditable(el) && isVisible(el);
+      });
+    }
+
+    if (!input) {
+      return { typed: false, reason: 'noEditableField' };
+    }
+
+    input.focus();
+
+    if (input.tagName !== 'INPUT' && input.tagName !== 'TEXTAREA') {
+      const selection = window.getSelection();
+      const range = document.createRange();
+      range.selectNodeContents(input);
+      selection.removeAllRanges();
+      selection.addRange(range);
+      const inserted = document.execCommand && document.execCommand('insertText', false, text);
+      if (!inserted) {
+        input.textContent = text;
+        input.dispatchEvent(new InputEvent('input', { bubbles: true, inputType: 'insertText', data: text }));
+      }
+    } else {
+      // Use the native setter so React-controlled inputs register the change
+      const prototype = input.tagName === 'TEXTAREA' ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype;
+      const descriptor = Object.getOwnPropertyDescriptor(prototype, 'value');
+      if (descriptor && descriptor.set) {
+        descriptor.set.call(input, text);
+      } else {
+        input.value = text;
+      }
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+      input.dispatchEvent(new Event('change', { bubbles: true }));
+    }
+
+    let submitted = false;
+    if (submit) {
+      const init = { key: 'Enter', code: 'Enter', keyCode: 13, which: 13, bubbles: true, cancelable: true };
+      const notCancelled = input.dispatchEvent(new KeyboardEvent('keydown', init));
+      input.dispatchEvent(new KeyboardEvent('keypress', init));
+      input.dispatchEvent(new KeyboardEvent('keyup', init));
+      if (notCancelled && input.form) {
+        if (input.form.requestSubmit) input.form.requestSubmit();
+        else input.form.submit();
+      }
+      submitted = true;
+    }
+
+    return {
+      typed: true,
+      element: descriptions(input)[0] || this.describeField(input),
+      submitted: submitted
+    };
+  }
+`;
+
+// Scrolls by a screen, to the top/bottom, or to the section matching a text
+export const SCROLL_PAGE_FUNCTION = `
+  function scrollPage(direction, target) {
+    const startY = window.scrollY;
+
+    if (target) {
+      const needle = target.toLowerCase();
+      const candidates = Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6, section, [id], [aria-label], a[name]'));
+      const section = candidates.find(function(el) {
+        return (el.id || '').toLowerCase().replace(/[-_]/g, ' ') === needle;
+      }) || candidates.find(function(el) {
+        return /^H[1-6]$/.test(el.tagName) && (el.innerText || '').toLowerCase().includes(needle);
+      }) || candidates.find(function(el) {
+        return (el.getAttribute('aria-label') || el.id || '').toLowerCase().includes(needle);
+      }) || this.findByText(target, 'p, li, span, div');
+
+      if (!section) {
+        return { scrolled: false, reason: 'targetNotFound', y: startY };
+      }
+
+      section.scrollIntoView({ behavior: 'smooth', block: 'start' });
+      return { scrolled: true, y: section.getBoundingClientRect().top + startY, target: this.textOf(section).slice(0, 80) || target };
+    }
+
+    const maxY = document.documentElement.scrollHeight - window.innerHeight;
+    let nextY = startY;
+    if (direction === 'up') nextY = startY - window.innerHeight * 0.8;
+    else if (direction === 'top') nextY = 0;
+    else if (direction === 'bottom') nextY = maxY;
+    else nextY = startY + window.innerHeight * 0.8;
+    nextY = Math.max(0, Math.min(maxY, Math.round(nextY)));
+
+    if (nextY === Math.round(startY)) {
+      return { scrolled: false, reason: 'atEdge', y: startY };
+    }
+
+    window.scrollTo({ top: nextY, behavior: 'smooth' });
+    return { scrolled: true, y: nextY };
+  }
+`;
+
+// Moves the pointer over an element so hover menus open
+export const HOVER_ELEMENT_FUNCTION = `
+  function hoverElement(text, elementId) {
+    const found = this.findTarget(text, elementId, this.hoverableSelector);
+
+    if (!found) {
+      return { hovered: false };
+    }
+
+    const rect = found.getBoundingClientRect();
+    const init = {
+      bubbles: true,
+      cancelable: true,
+      view: window,
+      clientX: rect.left + rect.width / 2,
+      clientY: rect.top + rect.height / 2
+    };
+
+    ['pointerover', 'pointerenter', 'mouseover', 'mouseenter', 'pointermove', 'mousemove'].forEach(function(type) {
+      const EventType = type.indexOf('pointer') === 0 && window.PointerEvent ? window.PointerEvent : MouseEvent;
+      found.dispatchEvent(new EventType(type, init));
+    });
+
+    const description = this.describe(found);
+    return { hovered: true, text: description.text, tagName: description.tagName };
+  }
+`;
+
+// Sends a key press to the focused element
+export const PRESS_KEY_FUNCTION = `
+  function pressKey(key) {
+    const CODES = {
+      Enter: ['Enter', 13], Tab: ['Tab', 9], Escape: ['Escape', 27], Space: ['Space', 32],
+      Backspace: ['Backspace', 8], Delete: ['Delete', 46], ArrowUp: ['ArrowUp', 38],
+      ArrowDown: ['ArrowDown', 40], ArrowLeft: ['ArrowLeft', 37], ArrowRight: ['ArrowRight', 39],
+      PageUp: ['PageUp', 33], PageDown: ['PageDown', 34], Home: ['Home', 36], End: ['End', 35]
+    };
+    const code = CODES[key] || [key, 0];
+    const eventKey = key === 'Space' ? ' ' : key;
+    const target = document.activeElement && document.activeElement !== document.body
+      ? document.activeElement
+      : document.body;
+    const init = { key: eventKey, code: code[0], keyCode: code[1], which: code[1], bubbles: true, cancelable: true };
+
+    const notCancelled = target.dispatchEvent(new KeyboardEvent('keydown', init));
+    target.dispatchEvent(new KeyboardEvent('keypress', init));
+    target.dispatchEvent(new KeyboardEvent('keyup', init));
+
+    // Synthetic key events have no default action, so perform the common ones
+    let submitted = false;
+    if (notCancelled) {
+      if (key === 'Enter' && target.form && target.tagName !== 'TEXTAREA') {
+        if (target.form.requestSubmit) target.form.requestSubmit();
+        else target.form.submit();
+        submitted = true;
+      } else if (key === 'Tab') {
+        const focusable = Array.from(document.querySelectorAll('a[href], button, input, select, textarea, [tabindex]:not([tabindex="-1"])'))
+          .filter(function(el) { return !el.disabled && el.offsetParent !== null; });
+        const next = focusable[(focusable.indexOf(target) + 1) % focusable.length];
+        if (next) next.focus();
+      } else if (key === 'PageDown' || key === 'PageUp') {
+        window.scrollBy(0, (key === 'PageDown' ? 1 : -1) * window.innerHeight * 0.8);
+      } else if (key === 'Home' && target === document.body) {
+        window.scrollTo(0, 0);
+      } else if (key === 'End' && target === document.body) {
+        window.scrollTo(0, document.documentElement.scrollHeight);
+      }
+    }
+
+    return {
+      pressed: true,
+      key: key,
+      element: target === document.body ? 'page' : this.describeField(target),
+      submitted: submitted
+    };
+  }
+`;
+
+// Chooses an option in the dropdown matching a field description
+export const SELECT_OPTION_FUNCTION = `
+  function selectOption(option, field) {
+    const self = this;
+    const optionNeedle = (option || '').toLowerCase().trim();
+    const fieldNeedle = (field || '').toLowerCase().trim();
+    const selects = Array.from(document.querySelectorAll('select'));
+
+    function fieldText(select) {
+      const labels = select.labels ? Array.from(select.labels).map(function(label) { return self.textOf(label); }) : [];
+      return labels.concat([
+        select.getAttribute('aria-label') || '',
+        select.name || '',
+        select.id || '',
+        select.getAttribute('title') || ''
+      ]).join(' ').toLowerCase().replace(/[-_]/g, ' ');
+    }
+
+    function findOption(select) {
+      const options = Array.from(select.options);
+      return options.find(function(opt) {
+        return opt.text.trim().toLowerCase() === optionNeedle || opt.value.toLowerCase() === optionNeedle;
+      }) || options.find(function(opt) {
+        return opt.text.toLowerCase().includes(optionNeedle);
+      });
+    }
+
+    const select = fieldNeedle
+      ? selects.find(function(s) { return fieldText(s).includes(fieldNeedle); })
+      : selects.find(function(s) { return findOption(s); });
+
+    if (!select) {
+      return { selected: false, reason: 'fieldNotFound' };
+    }
+
+    const match = findOption(select);
+    if (!match) {
+      return {
+        selected: false,
+        reason: 'optionNotFound',
+        field: this.describeField(select),
+        options: Array.from(select.options).slice(0, 10).map(function(opt) { return opt.text.trim(); })
+      };
+    }
+
+    // Use the native setter so frameworks that track the value see the change
+    const setter = Object.getOwnPropertyDescriptor(HTMLSelectElement.prototype, 'value').set;
+    setter.call(select, match.value);
+    select.dispatchEvent(new Event('input', { bubbles: true }));
+    select.dispatchEvent(new Event('change', { bubbles: true }));
+
+    return { selected: true, option: match.text.trim(), field: this.describeField(select) };
+  }
+`;
+
+// Resolves once the page shows the text (or, with gone, no longer shows it),
+// watching DOM changes until the timeout
+export const WAIT_FOR_TEXT_FUNCTION = `
+  function waitForText(text, timeoutMs, gone) {
+    const self = this;
+    const started = Date.now();
+
+    function met() {
+      return self.hasText(text) !== !!gone;
+    }
+
+    if (met()) {
+      return { found: !gone, waitedMs: 0 };
+    }
+
+    return new Promise(function(resolve) {
+      let pending = false;
+      const observer = new MutationObserver(function() {
+        // Coalesce bursts of mutations into one check per frame
+        if (pending) return;
+        pending = true;
+        setTimeout(function() {
+          pending = false;
+          if (met()) finish();
+        }, 50);
+      });
+      const timer = setTimeout(finish, timeoutMs);
+
+      function finish() {
+        observer.disconnect();
+        clearTimeout(timer);
+        resolve({ found: self.hasText(text), waitedMs: Date.now() - started });
+      }
+
+      observer.observe(document.documentElement, { childList: true, subtree: true, characterData: true, attributes: true });
+    });
+  }
+`;
+
+// Resolves once the document has loaded and the DOM has stopped changing for
+// quietMs, so content rendered after load (spinners, client routing) settles
+export const WAIT_FOR_PAGE_READY_FUNCTION = `
+  function waitForPageReady(timeoutMs, quietMs) {
+    const started = Date.now();
+    const quiet = quietMs || 500;
+    let lastChange = started;
+
+    return new Promise(function(resolve) {
+      const observer = new MutationObserver(function() {
+        lastChange = Date.now();
+      });
+      observer.observe(document.documentElement, { childList: true, subtree: true, characterData: true, attributes: true });
+
+      const timer = setInterval(function() {
+        const now = Date.now();
+        const ready = document.readyState === 'complete' && now - lastChange >= quiet;
+        if (ready || now - started >= timeoutMs) {
+          clearInterval(timer);
+          observer.disconnect();
+          resolve({ ready: ready, waitedMs: now - started });
+        }
+      }, 100);
+    });
+  }
+`;
+
+// Finds the value the page shows for a label such as "price" or "total":
+// an element named after it (itemprop, id, class, aria-label, name), or text
+// like "Price: $42" / <dt>Price</dt><dd>$42</dd>
+export const READ_VALUE_FUNCTION = `
+  function readValue(label) {
+    const self = this;
+    const needle = (label || '').toLowerCase().replace(/[-_]/g, ' ').trim();
+    if (!needle) return { found: false };
+
+    function isShown(el) {
+      const rect = el.getBoundingClientRect();
+      return rect.width > 0 && rect.height > 0;
+    }
+
+    function valueOf(el) {
+      return self.textOf(el) || el.value || el.getAttribute('content') || '';
+    }
+
+    function words(el) {
+      return [
+        el.getAttribute('itemprop'), el.id, typeof el.className === 'string' ? el.className : '',
+        el.getAttribute('aria-label'), el.getAttribute('name'), el.getAttribute('data-testid')
+      ].join(' ').toLowerCase().replace(/[-_]/g, ' ');
+    }
+
+    // Values with a number in them, and not whole blocks of text, are the
+    // likely answers; otherwise the first on the page wins
+    function rank(text) {
+      return (/\\d/.test(text) ? 0 : 2) + (text.length > 20 ? 1 : 0);
+    }
+
+    function sourceOf(el) {
+      const className = typeof el.className === 'string' ? el.className.trim().split(/\\s+/)[0] : '';
+      return el.tagName.toLowerCase() + (el.id ? '#' + el.id : '') + (className ? '.' + className : '');
+    }
+
+    const named = Array.from(document.querySelectorAll('[itemprop], [id], [class], [aria-label], [name], [data-testid]'))
+      .filter(function(el) {
+        const value = valueOf(el);
+        return isShown(el) && value.length > 0 && value.length <= 60 && words(el).includes(needle);
+      })
+      .sort(function(a, b) { return rank(valueOf(a)) - rank(valueOf(b)); });
+
+    if (named.length > 0) {
+      return { found: true, text: valueOf(named[0]), source: sourceOf(named[0]) };
+    }
+
+    const labelled = Array.from(document.querySelectorAll('body *')).filter(function(el) {
+      const text = self.textOf(el).toLowerCase();
+      return isShown(el) && text.length <= 80 && text.indexOf(needle) === 0;
+    });
+
+    for (let i = labelled.length - 1; i >= 0; i--) {
+      const el = labelled[i];
+      const rest = self.textOf(el).slice(needle.length).replace(/^\\s*[:=-]?\\s*/, '');
+      if (rest) {
+        return { found: true, text: rest, source: self.textOf(el) };
+      }
+      const next = el.nextElementSibling;
+      if (next && valueOf(next)) {
+        return { found: true, text: valueOf(next).slice(0, 60), source: self.textOf(el) };
+      }
+    }
+
+    return { found: false };
+  }
+`;
+
+// Whether the page shows the text right now
+export const HAS_TEXT_FUNCTION = `
+  function hasText(text) {
+    return this.hasText(text);
+  }
+`;
+
+// Text of every element matching a CSS selector, in document order
+export const EXTRACT_TEXT_FUNCTION = `
+  function extractText(selector, limit) {
+    const self = this;
+    return Array.from(document.querySelectorAll(selector))
+      .map(function(el) {
+        return self.textOf(el) || el.value || el.getAttribute('aria-label') || el.getAttribute('href') || '';
+      })
+      .filter(Boolean)
+      .slice(0, limit || 200);
+  }
+`;
+
+// Outlines elements and draws a numbered badge on each, replacing any
+// marks already shown. Marks sit in document coordinates so they follow
+// the page as it scrolls.
+export const SHOW_MARKS_FUNCTION = `
+  function showMarks(marks) {
+    const self = this;
+    this.clearMarks();
+
+    const layer = document.createElement('div');
+    layer.id = '${MARKS_LAYER_ID}';
+    layer.setAttribute('aria-hidden', 'true');
+    layer.style.cssText = 'position:absolute;left:0;top:0;width:0;height:0;overflow:visible;z-index:2147483647;pointer-events:none;';
+
+    let shown = 0;
+    marks.forEach(function(mark) {
+      const el = self.byAgentId(mark.id);
+      if (!el) return;
+      const rect = el.getBoundingClientRect();
+      if (rect.width === 0 && rect.height === 0) return;
+
+      const left = rect.left + window.scrollX;
+      const top = rect.top + window.scrollY;
+
+      const outline = document.createElement('div');
+      outline.style.cssText = 'position:absolute;box-sizing:border-box;border:2px solid #ff4d4d;border-radius:3px;' +
+        'left:' + left + 'px;top:' + top + 'px;width:' + rect.width + 'px;height:' + rect.height + 'px;';
+
+      const badge = document.createElement('div');
+      badge.textContent = mark.label;
+      badge.style.cssText = 'position:absolute;min-width:12px;padding:1px 4px;border-radius:9px;background:#ff4d4d;color:#fff;' +
+        'font:bold 11px/14px sans-serif;text-align:center;box-shadow:0 1px 2px rgba(0,0,0,0.4);' +
+        'left:' + Math.max(0, left - 6) + 'px;top:' + Math.max(0, top - 8) + 'px;';
+
+      layer.appendChild(outline);
+      layer.appendChild(badge);
+      shown++;
+    });
+
+    document.documentElement.appendChild(layer);
+    return { shown: shown };
+  }
+`;
+
+// Posts `message` to React Native shortly after the page's DOM or size
+// changes, ignoring changes to the marks themselves. Call with false to stop.
+export const WATCH_PAGE_CHANGES_FUNCTION = `
+  function watchPageChanges(enabled, message) {
+    if (window.__agentChangeWatcher) {
+      window.__agentChangeWatcher.stop();
+      window.__agentChangeWatcher = null;
+    }
+
+    if (!enabled) {
+      return { watching: false };
+    }
+
+    function isMark(node) {
+      const el = node.nodeType === 1 ? node : node.parentElement;
+      return !!el && (el.id === '${MARKS_LAYER_ID}' || !!(el.closest && el.closest('#${MARKS_LAYER_ID}')));
+    }
+
+    function isRelevant(record) {
+      if (record.attributeName === '${AGENT_ID_ATTRIBUTE}' || isMark(record.target)) return false;
+      if (record.type !== 'childList') return true;
+      const nodes = Array.from(record.addedNodes).concat(Array.from(record.removedNodes));
+      return nodes.some(function(node) { return !isMark(node); });
+    }
+
+    // Coalesce bursts of changes into one notice
+    let timer = null;
+    function notify() {
+      clearTimeout(timer);
+      timer = setTimeout(function() {
+        if (window.ReactNativeWebView) {
+          window.ReactNativeWebView.postMessage(JSON.stringify(message));
+        }
+      }, 400);
+    }
+
+    const observer = new MutationObserver(function(records) {
+      if (records.some(isRelevant)) notify();
+    });
+    observer.observe(document.documentElement, { childList: true, subtree: true, characterData: true, attributes: true });
+    window.addEventListener('resize', notify);
+
+    window.__agentChangeWatcher = {
+      stop: function() {
+        observer.disconnect();
+        window.removeEventListener('resize', notify);
+        clearTimeout(timer);
+      }
+    };
+    return { watching: true };
+  }
+`;
+
+// Removes the marks drawn by showMarks
+export const CLEAR_MARKS_FUNCTION = `
+  function clearMarks() {
+    this.clearMarks();
+  }
+`;
+
+// Pulls the most relevant table, list or group of repeated cards out of the
+// page as rows and columns. Words in the hint (e.g. "product names and
+// prices") favour candidates whose headers or field names mention them.
+export const EXTRACT_DATA_FUNCTION = `
+  function extractData(hint, maxRows) {
+    const self = this;
+    const limit = maxRows || 500;
+    const request = (hint || '').toLowerCase();
+    const words = request.split(/[^a-z0-9]+/)
+      .filter(function(word) { return word.length > 2 && ['all', 'the', 'and', 'this', 'page', 'get', 'from'].indexOf(word) === -1; })
+      .map(function(word) { return word.replace(/(?:es|s)$/, ''); });
+    const prefer = /\\btables?\\b/.test(request) ? 'table' : /\\blists?\\b/.test(request) ? 'list' : '';
+
+    function isShown(el) {
+      const rect = el.getBoundingClientRect();
+      return rect.width > 0 && rect.height > 0;
+    }
+
+    function relevance(text) {
+      const haystack = text.toLowerCase();
+      return words.filter(function(word) { return haystack.includes(word); }).length;
+    }
+
+    // "product-name" -> "Product name"
+    function humanize(key) {
+      const text = key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[-_]+/g, ' ').trim().toLowerCase();
+      return text.charAt(0).toUpperCase() + text.slice(1);
+    }
+
+    function titleFor(el) {
+      const labelled = el.getAttribute('aria-label') || (el.caption ? self.textOf(el.caption) : '');
+      if (labelled) return labelled;
+      // The nearest heading before the element
+      const headings = Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6'));
+      for (let i = headings.length - 1; i >= 0; i--) {
+        if (headings[i].compareDocumentPosition(el) & Node.DOCUMENT_POSITION_FOLLOWING) {
+          return self.textOf(headings[i]);
+        }
+      }
+      return document.title;
+    }
+
+    function inChrome(el) {
+      return !!el.closest('nav, header, footer, [role="navigation"], [role="banner"], [role="contentinfo"]');
+    }
+
+    const candidates = [];
+
+    Array.from(document.querySelectorAll('table')).forEach(function(table) {
+      if (!isShown(table)) return;
+      const allRows = Array.from(table.rows).filter(function(row) { return row.cells.length > 0; });
+      let header = table.tHead && table.tHead.rows.length > 0 ? table.tHead.rows[0] : null;
+      if (!header && allRows.length > 0 && Array.from(allRows[0].cells).every(function(cell) { return cell.tagName === 'TH'; })) {
+        header = allRows[0];
+      }
+      const body = allRows.filter(function(row) { return row !== header && row.parentElement !== table.tHead; });
+      if (body.length === 0) return;
+
+      const width = Math.max.apply(null, body.map(function(row) { return row.cells.length; }));
+      const columns = header ? Array.from(header.cells).map(function(cell, index) { return self.textOf(cell) || 'Column ' + (index + 1); }) : [];
+      while (columns.length < width) columns.push('Column ' + (columns.length + 1));
+
+      candidates.push({
+        el: table,
+        kind: 'table',
+        columns: columns,
+        rows: body.slice(0, limit).map(function(row) {
+          return columns.map(function(column, index) { return row.cells[index] ? self.textOf(row.cells[index]) : ''; });
+        }),
+        totalRows: body.length
+      });
+    });
+
+    // Named fields of one repeated item: leaf elements keyed by itemprop or
+    // class, loose text as "Text", and the item's link
+    function fieldsOf(item) {
+      const fields = [];
+      const ownText = Array.from(item.childNodes)
+        .filter(function(node) { return node.nodeType === 3; })
+        .map(function(node) { return node.textContent; }).join(' ').replace(/\\s+/g, ' ').trim();
+      if (ownText) fields.push(['text', ownText]);
+
+      Array.from(item.querySelectorAll('*')).forEach(function(el) {
+        if (el.children.length > 0 || /^(SCRIPT|STYLE|svg|BUTTON)$/.test(el.tagName)) return;
+        const text = self.textOf(el);
+        if (!text) return;
+        const className = typeof el.className === 'string' ? el.className.trim().split(/\\s+/)[0] : '';
+        fields.push([el.getAttribute('itemprop') || className || 'text', text]);
+      });
+
+      if (fields.length === 0 && self.textOf(item)) fields.push(['text', self.textOf(item)]);
+
+      const link = item.matches('a[href]') ? item : item.querySelector('a[href]');
+      if (link) fields.push(['link', link.href]);
+      return fields;
+    }
+
+    // Groups of three or more siblings that look alike
+    Array.from(document.querySelectorAll('body *')).forEach(function(parent) {
+      if (parent.children.length < 3 || parent.tagName === 'TABLE' || parent.tagName === 'TBODY' || parent.tagName === 'TR' || !isShown(parent)) return;
+
+      const groups = {};
+      Array.from(parent.children).forEach(function(child) {
+        const signature = child.tagName + '.' + (typeof child.className === 'string' ? child.className.trim() : '');
+        (groups[signature] = groups[signature] || []).push(child);
+      });
+
+      Object.keys(groups).forEach(function(signature) {
+        const items = groups[signature].filter(function(item) { return isShown(item) && self.textOf(item); });
+        if (items.length < 3) return;
+
+        const keys = [];
+        const records = items.map(function(item) {
+          const record = {};
+          fieldsOf(item).forEach(function(field) {
+            let key = field[0];
+            for (let n = 2; record[key] !== undefined; n++) key = field[0] + ' ' + n;
+            record[key] = field[1];
+            if (keys.indexOf(key) === -1) keys.push(key);
+          });
+          return record;
+        });
+
+        // Keep fields most items have
+        const kept = keys.filter(function(key) {
+          return records.filter(function(record) { return record[key] !== undefined; }).length * 2 >= records.length;
+        });
+        if (kept.length === 0) return;
+
+        candidates.push({
+          el: parent,
+          kind: parent.tagName === 'UL' || parent.tagName === 'OL' ? 'list' : 'cards',
+          columns: kept.map(humanize),
+          rows: records.slice(0, limit).map(function(record) {
+            return kept.map(function(key) { return record[key] || ''; });
+          }),
+          totalRows: records.length
+        });
+      });
+    });
+
+    if (candidates.length === 0) {
+      return { found: false };
+    }
+
+    function score(candidate) {
+      const sample = candidate.columns.join(' ') + ' ' + candidate.rows.slice(0, 3).map(function(row) { return row.join(' '); }).join(' ');
+      let value = Math.min(candidate.totalRows, 50) * Math.min(candidate.columns.length, 6);
+      value += relevance(candidate.columns.join(' ')) * 100 + relevance(sample) * 20;
+      if (prefer && candidate.kind === prefer) value *= 3;
+      if (inChrome(candidate.el)) value *= 0.3;
+      return value;
+    }
+
+    const best = candidates
+      .map(function(candidate) { return { candidate: candidate, score: score(candidate) }; })
+      .sort(function(a, b) { return b.score - a.score; })[0].candidate;
+
+    return {
+      found: true,
+      title: titleFor(best.el),
+      url: window.location.href,
+      kind: best.kind,
+      columns: best.columns,
+      rows: best.rows,
+      totalRows: best.totalRows
+    };
+  }
+`;
+
+// Finds the main article on the page, Readability-style: paragraphs score
+// their parent and grandparent by length and commas, class names like
+// "content" or "sidebar" nudge the score, and link-heavy blocks lose out.
+// Returns the article's paragraphs (up to maxChars of text) and its links.
+export const READ_ARTICLE_FUNCTION = `
+  function readArticle(maxChars) {
+    const self = this;
+    const SKIPPED_TAGS = /^(SCRIPT|STYLE|NOSCRIPT|TEMPLATE|NAV|ASIDE|FOOTER|FORM|BUTTON|SELECT|IFRAME|svg)$/;
+    const SKIPPED_ROLES = /^(navigation|complementary|contentinfo|banner|dialog|menu)$/;
+    const POSITIVE = /article|body|content|entry|main|page|post|story|text|blog/i;
+    const NEGATIVE = /comment|footer|nav|sidebar|menu|masthead|share|social|related|promo|banner|cookie|popup|subscribe|widget|advert/i;
+
+    const nameOf = function(el) {
+      return (typeof el.className === 'string' ? el.className : '') + ' ' + (el.id || '');
+    };
+
+    const isSkipped = function(el) {
+      for (let node = el; node && node !== document.body; node = node.parentElement) {
+        if (SKIPPED_TAGS.test(node.tagName) || SKIPPED_ROLES.test(node.getAttribute('role') || '')) return true;
+        if (node.hidden || node.getAttribute('aria-hidden') === 'true') return true;
+        if (node !== el && NEGATIVE.test(nameOf(node)) && !POSITIVE.test(nameOf(node))) return true;
+      }
+      const style = window.getComputedStyle(el);
+      return style.display === 'none' || style.visibility === 'hidden';
+    };
+
+    const linkDensity = function(el) {
+      const length = self.textOf(el).length;
+      if (!length) return 1;
+      let linked = 0;
+      el.querySelectorAll('a').forEach(function(link) { linked += self.textOf(link).length; });
+      return linked / length;
+    };
+
+    const weightOf = function(el) {
+      let weight = 0;
+      if (POSITIVE.test(nameOf(el))) weight += 25;
+      if (NEGATIVE.test(nameOf(el))) weight -= 25;
+      if (el.tagName === 'ARTICLE' || el.tagName === 'MAIN' || el.getAttribute('role') === 'main') weight += 30;
+      return weight;
+    };
+
+    const candidates = [];
+    const scoreOf = function(el, points) {
+      if (!el || el === document.documentElement) return;
+      if (el.__agentScore === undefined) {
+        el.__agentScore = weightOf(el);
+        candidates.push(el);
+      }
+      el.__agentScore += points;
+    };
+
+    document.querySelectorAll('p, pre, td, blockquote').forEach(function(el) {
+      const text = self.textOf(el);
+      if (text.length < 25 || isSkipped(el)) return;
+      const points = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+      scoreOf(el.parentElement, points);
+      if (el.parentElement) scoreOf(el.parentElement.parentElement, points / 2);
+    });
+
+    let best = null;
+    let bestScore = 0;
+    candidates.forEach(function(el) {
+      const score = el.__agentScore * (1 - linkDensity(el));
+      delete el.__agentScore;
+      if (score > bestScore) {
+        best = el;
+        bestScore = score;
+      }
+    });
+
+    if (!best) {
+      return { found: false };
+    }
+
+    // The h1 is returned as the title
+    const BLOCKS = 'h2, h3, h4, p, li, pre, blockquote, figcaption';
+    const paragraphs = [];
+    let length = 0;
+    let truncated = false;
+    let wordCount = 0;
+    best.querySelectorAll(BLOCKS).forEach(function(el) {
+      // Nested blocks (a p inside an li) are read with their container
+      if (el.parentElement && el.parentElement.closest(BLOCKS) && best.contains(el.parentElement.closest(BLOCKS))) return;
+      if (isSkipped(el)) return;
+      const text = self.textOf(el);
+      if (text.length < 2 || (text.length < 200 && linkDensity(el) > 0.5)) return;
+      wordCount += text.split(' ').length;
+      if (truncated || length + text.length > maxChars) {
+        truncated = true;
+        return;
+      }
+      paragraphs.push(text);
+      length += text.length;
+    });
+
+    const links = [];
+    best.querySelectorAll('a[href]').forEach(function(link) {
+      const text = self.textOf(link);
+      if (links.length >= 10 || text.length < 3 || !/^https?:/.test(link.href) || isSkipped(link)) return;
+      if (links.some(function(existing) { return existing.href === link.href; })) return;
+      links.push({ text: text.slice(0, 80), href: link.href });
+    });
+
+    const heading = best.querySelector('h1') || document.querySelector('h1');
+    const author = document.querySelector('[rel="author"], [itemprop="author"], .byline, .author');
+    const authorMeta = document.querySelector('meta[name="author"]');
+
+    return {
+      found: paragraphs.length > 0,
+      title: (heading && self.textOf(heading)) || document.title || '',
+      byline: (author && self.textOf(author).slice(0, 100)) || (authorMeta && authorMeta.getAttribute('content')) || '',
+      url: window.location.href,
+      paragraphs: paragraphs,
+      links: links,
+      wordCount: wordCount,
+      truncated: truncated
+    };
+  }
+`;
+
+// Starts extraction on the PDF extractor page
+export const LOAD_PDF_FUNCTION = `
+  function loadPdf(uri) {
+    if (!window.loadPdfFromUrl) {
+      throw new Error('PDF loading function not available');
+    }
+    window.loadPdfFromUrl(uri);
+  }
+`;
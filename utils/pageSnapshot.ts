@@ -0,0 +1,160 @@
+// Accessibility-tree style snapshot of the interactive elements on a page.
+// SNAPSHOT_FUNCTION runs inside the WebView through callInPage and returns
+// a PageSnapshot.
+
+export interface SnapshotBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SnapshotElement {
+  // Stable id, also written to the element as a data-agent-id attribute
+  id: string;
+  role: string;
+  name: string;
+  tagName: string;
+  label?: string;
+  value?: string;
+  bounds: SnapshotBounds;
+  visible: boolean;
+  inViewport: boolean;
+}
+
+export interface PageSnapshot {
+  url: string;
+  title: string;
+  timestamp: number;
+  viewport: { width: number; height: number };
+  elements: SnapshotElement[];
+}
+
+// Attribute used to tag snapshot elements in the page
+export const AGENT_ID_ATTRIBUTE = 'data-agent-id';
+
+// Upper bounds that keep the snapshot small enough to send over the bridge
+export const MAX_SNAPSHOT_ELEMENTS = 300;
+export const MAX_NAME_LENGTH = 80;
+
+// Page-side function that builds the snapshot. Ids are kept on the element,
+// so the same element gets the same id across snapshots of one page.
+export const SNAPSHOT_FUNCTION = `
+  function takePageSnapshot() {
+    const SELECTOR = [
+      'a[href]', 'button', 'input:not([type="hidden"])', 'select', 'textarea', 'summary',
+      '[role="button"]', '[role="link"]', '[role="checkbox"]', '[role="radio"]', '[role="tab"]',
+      '[role="menuitem"]', '[role="option"]', '[role="switch"]', '[role="textbox"]',
+      '[role="combobox"]', '[contenteditable=""]', '[contenteditable="true"]',
+      '[tabindex]:not([tabindex="-1"])'
+    ].join(',');
+
+    function clip(text) {
+      const clean = (text || '').replace(/\\s+/g, ' ').trim();
+      return clean.length > ${MAX_NAME_LENGTH} ? clean.slice(0, ${MAX_NAME_LENGTH - 1}) + '…' : clean;
+    }
+
+    function implicitRole(el) {
+      const tag = el.tagName.toLowerCase();
+      const type = (el.getAttribute('type') || '').toLowerCase();
+      if (tag === 'a') return 'link';
+      if (tag === 'button' || tag === 'summary') return 'button';
+      if (tag === 'select') return el.multiple ? 'listbox' : 'combobox';
+      if (tag === 'textarea') return 'textbox';
+      if (tag === 'input') {
+        if (type === 'checkbox') return 'checkbox';
+        if (type === 'radio') return 'radio';
+        if (type === 'range') return 'slider';
+        if (['submit', 'button', 'reset', 'image'].indexOf(type) !== -1) return 'button';
+        if (type === 'search') return 'searchbox';
+        return 'textbox';
+      }
+      if (el.isContentEditable) return 'textbox';
+      return 'generic';
+    }
+
+    function labelText(el) {
+      if (el.labels && el.labels.length > 0) {
+        return Array.from(el.labels).map(function(label) { return label.innerText || label.textContent; }).join(' ');
+      }
+      const labelledBy = el.getAttribute('aria-labelledby');
+      if (labelledBy) {
+        return labelledBy.split(/\\s+/).map(function(id) {
+          const ref = document.getElementById(id);
+          return ref ? ref.innerText || ref.textContent : '';
+        }).join(' ');
+      }
+      return '';
+    }
+
+    function accessibleName(el, label) {
+      return clip(
+        el.getAttribute('aria-label') ||
+        label ||
+        el.getAttribute('alt') ||
+        el.getAttribute('title') ||
+        el.innerText ||
+        el.getAttribute('placeholder') ||
+        (el.tagName === 'INPUT' && ['submit', 'button', 'reset'].indexOf(el.type) !== -1 ? el.value : '') ||
+        el.getAttribute('name') ||
+        ''
+      );
+    }
+
+    function isVisible(el, rect) {
+      if (rect.width === 0 || rect.height === 0) return false;
+      const style = window.getComputedStyle(el);
+      return style.visibility !== 'hidden' && style.display !== 'none' && parseFloat(style.opacity || '1') > 0;
+    }
+
+    let nextId = window.__agentNextId || 1;
+    const viewport = { width: window.innerWidth, height: window.innerHeight };
+    const elements = [];
+    const nodes = Array.from(document.querySelectorAll(SELECTOR));
+
+    for (let i = 0; i < nodes.length && elements.length < ${MAX_SNAPSHOT_ELEMENTS}; i++) {
+      const el = nodes[i];
+      if (el.disabled) continue;
+
+      let id = el.getAttribute('${AGENT_ID_ATTRIBUTE}');
+      if (!id) {
+        id = String(nextId++);
+        el.setAttribute('${AGENT_ID_ATTRIBUTE}', id);
+      }
+
+      const rect = el.getBoundingClientRect();
+      const label = clip(labelText(el));
+      const entry = {
+        id: id,
+        role: el.getAttribute('role') || implicitRole(el),
+        name: accessibleName(el, label),
+        tagName: el.tagName.toLowerCase(),
+        bounds: {
+          x: Math.round(rect.left),
+          y: Math.round(rect.top),
+          width: Math.round(rect.width),
+          height: Math.round(rect.height)
+        },
+        visible: isVisible(el, rect),
+        inViewport: rect.bottom > 0 && rect.right > 0 && rect.top < viewport.height && rect.left < viewport.width
+      };
+
+      if (label) entry.label = label;
+      if ('value' in el && typeof el.value === 'string' && el.type !== 'password' && el.value) {
+        entry.value = clip(el.value);
+      }
+
+      elements.push(entry);
+    }
+
+    window.__agentNextId = nextId;
+
+    return {
+      url: window.location.href,
+      title: document.title,
+      timestamp: Date.now(),
+      viewport: viewport,
+      elements: elements
+    };
+  }
+`;
@@ -0,0 +1,102 @@
+import { PageSummary } from './intentSchema';
+import { LLMConfig, createLLMProvider } from './llmProviders';
+import { PageArticle } from './pageScripts';
+
+// Turns the main content of a page into a short summary
+export interface PageSummarizer {
+  id: string;
+  summarize(article: PageArticle): Promise<PageSummary>;
+}
+
+// Most article text read from a page, in characters
+export const MAX_ARTICLE_CHARS = 20000;
+
+// Words too common to say anything about what a page is about
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'he', 'her', 'his', 'how',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'more', 'most', 'my', 'no', 'not', 'of', 'on',
+  'one', 'or', 'other', 'our', 'out', 'she', 'so', 'some', 'than', 'that', 'the', 'their', 'them',
+  'then', 'there', 'these', 'they', 'this', 'to', 'up', 'was', 'we', 'were', 'what', 'when', 'which',
+  'who', 'will', 'with', 'would', 'you', 'your',
+]);
+
+const wordsOf = (text: string) =>
+  text.toLowerCase().split(/[^a-z0-9\u00c0-\uffff']+/).filter(word => word.length > 1 && !STOP_WORDS.has(word));
+
+// Split a paragraph into sentences at end punctuation followed by a capital
+// or digit, so "$3.50" and "e.g. this" stay whole
+const sentencesOf = (paragraph: string) =>
+  paragraph
+    .replace(/([.!?]+["')\]]*)\s+(?=["'(]?[A-Z0-9\u00c0-\u00de])/g, '$1\n')
+    .split('\n')
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+
+/**
+ * Summarizes offline by picking the sentences that use the article's most
+ * frequent words, with a bonus for sentences near the start. The picked
+ * sentences keep their original order.
+ */
+export const localSummarizer: PageSummarizer = {
+  id: 'local',
+
+  async summarize(article: PageArticle) {
+    const sentences = article.paragraphs.flatMap((paragraph, index) =>
+      sentencesOf(paragraph).map(text => ({
+        text,
+        paragraph: index,
+        words: wordsOf(text),
+        // Headings and list fragments do not end like sentences
+        complete: /[.!?]["')\]]*$/.test(text),
+      }))
+    );
+
+    const frequency = new Map<string, number>();
+    sentences.forEach(sentence => sentence.words.forEach(word => frequency.set(word, (frequency.get(word) || 0) + 1)));
+    const topFrequency = Math.max(1, ...Array.from(frequency.values()));
+
+    const scored = sentences
+      .map((sentence, index) => {
+        // Very short and very long sentences are usually captions or lists
+        if (!sentence.complete || sentence.words.length < 4 || sentence.words.length > 45) {
+          return { index, score: 0 };
+        }
+        const weight = sentence.words.reduce((sum, word) => sum + (frequency.get(word) || 0) / topFrequency, 0);
+        const lead = sentence.paragraph === 0 ? 1.5 : sentence.paragraph < 3 ? 1.2 : 1;
+        return { index, score: (weight / Math.sqrt(sentence.words.length)) * lead };
+      })
+      .filter(candidate => candidate.score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    const count = article.wordCount > 1500 ? 5 : article.wordCount > 400 ? 4 : 3;
+    const picked = scored.slice(0, count).map(candidate => candidate.index).sort((a, b) => a - b);
+
+    if (picked.length === 0) {
+      // Nothing sentence-like (a list or table page); fall back to the opening text
+      const opening = article.paragraphs.slice(0, 3).join(' ');
+      return { summary: opening.length > 400 ? `${opening.slice(0, 400)}...` : opening, keyPoints: [] };
+    }
+
+    return { summary: picked.map(index => sentences[index].text).join(' '), keyPoints: [] };
+  },
+};
+
+/**
+ * Creates the summarizer for the configured provider
+ * @param config The LLM settings
+ * @returns A model-backed summarizer, or the offline extractive one for the regex provider
+ */
+export function createPageSummarizer(config: LLMConfig): PageSummarizer {
+  const provider = config.provider === 'regex' ? null : createLLMProvider(config);
+  const summarizePage = provider?.summarizePage;
+
+  if (!provider || !summarizePage) {
+    return localSummarizer;
+  }
+
+  return {
+    id: provider.id,
+    summarize: article => summarizePage.call(provider, article),
+  };
+}
@@ -0,0 +1,45 @@
+import { PAGE_LIBRARY_GLOBAL, PAGE_LIBRARY_SCRIPT, PageFunctionName, isPageFunctionName } from './pageLibrary';
+
+/**
+ * Serializes a value as a JavaScript literal that is safe to splice into a script
+ * @param value The value to serialize (anything JSON can represent)
+ * @returns A JSON literal with characters that could end a script or string escaped
+ */
+export function serializeScriptValue(value: unknown): string {
+  const json = JSON.stringify(value === undefined ? null : value);
+
+  if (json === undefined) {
+    throw new Error(`Cannot pass a ${typeof value} to a page function`);
+  }
+
+  // JSON escapes quotes, backslashes and newlines already. Also escape angle
+  // brackets (so "</script>" cannot close a script tag) and the line/paragraph
+  // separators that older JavaScript engines reject inside string literals.
+  return json
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+/**
+ * Builds an expression that calls a registered page function
+ * @param name The page library function to call
+ * @param args Arguments for the function; they are serialized, never interpolated as code
+ * @returns A JavaScript expression evaluating to the function's return value
+ */
+export function buildPageInvocation(name: PageFunctionName, args: unknown[] = []): string {
+  if (!isPageFunctionName(name)) {
+    throw new Error(`Unknown page function "${name}"`);
+  }
+
+  if (!Array.isArray(args)) {
+    throw new Error('Page function arguments must be an array');
+  }
+
+  return `(function() {
+    ${PAGE_LIBRARY_SCRIPT}
+    var library = window.${PAGE_LIBRARY_GLOBAL};
+    return library.functions[${serializeScriptValue(name)}].apply(library.helpers, ${serializeScriptValue(args)});
+  })()`;
+}
@@ -0,0 +1,132 @@
+// Where "search for ..." commands go. Web searches use the engine chosen in
+// settings; "search wikipedia for octopus" uses a site search template.
+// Templates are URLs with a {query} placeholder.
+
+export type SearchEngineId = 'google' | 'duckduckgo' | 'bing' | 'searxng';
+
+export interface SearchEngine {
+  id: SearchEngineId;
+  label: string;
+  // Empty for SearXNG, whose instance URL comes from settings
+  template: string;
+}
+
+// A site the user can search by name, e.g. "search amazon for usb hubs"
+export interface SiteSearch {
+  name: string;
+  template: string;
+}
+
+export interface SearchSettings {
+  engine: SearchEngineId;
+  // SearXNG instance, either a full template or just its base URL
+  searxngUrl: string;
+  sites: SiteSearch[];
+}
+
+export const QUERY_PLACEHOLDER = '{query}';
+
+export const SEARCH_ENGINES: SearchEngine[] = [
+  { id: 'google', label: 'Google', template: 'https://www.google.com/search?q={query}' },
+  { id: 'duckduckgo', label: 'DuckDuckGo', template: 'https://duckduckgo.com/?q={query}' },
+  { id: 'bing', label: 'Bing', template: 'https://www.bing.com/search?q={query}' },
+  { id: 'searxng', label: 'SearXNG', template: '' },
+];
+
+export const DEFAULT_SITE_SEARCHES: SiteSearch[] = [
+  { name: 'Wikipedia', template: 'https://en.wikipedia.org/wiki/Special:Search?search={query}' },
+  { name: 'Amazon', template: 'https://www.amazon.com/s?k={query}' },
+  { name: 'YouTube', template: 'https://www.youtube.com/results?search_query={query}' },
+  { name: 'GitHub', template: 'https://github.com/search?q={query}' },
+  { name: 'Reddit', template: 'https://www.reddit.com/search/?q={query}' },
+];
+
+export const DEFAULT_SEARCH_SETTINGS: SearchSettings = {
+  engine: 'google',
+  searxngUrl: '',
+  sites: DEFAULT_SITE_SEARCHES,
+};
+
+/**
+ * Checks that a template is an http(s) URL with a {query} placeholder
+ * @param template The template to check
+ * @returns True if searches can be built from it
+ */
+export function isValidSearchTemplate(template: string): boolean {
+  return /^https?:\/\/\S+$/i.test(template.trim()) && template.includes(QUERY_PLACEHOLDER);
+}
+
+/**
+ * Fills a template with a query
+ * @param template A URL containing {query}
+ * @param query The search terms
+ * @returns The search URL
+ */
+export function buildSearchUrl(template: string, query: string): string {
+  return template.trim().split(QUERY_PLACEHOLDER).join(encodeURIComponent(query.trim()));
+}
+
+/**
+ * Turns a SearXNG setting into a template; a bare instance URL such as
+ * "https://searx.example.org" gets the standard /search?q= path
+ * @param url The setting value
+ * @returns The template, or an empty string if the setting is not a URL
+ */
+export function getSearxngTemplate(url: string): string {
+  const trimmed = url.trim();
+  if (!/^https?:\/\/\S+$/i.test(trimmed)) {
+    return '';
+  }
+  return trimmed.includes(QUERY_PLACEHOLDER) ? trimmed : `${trimmed.replace(/\/+$/, '')}/search?q=${QUERY_PLACEHOLDER}`;
+}
+
+/**
+ * Picks the web search engine from settings
+ * @param settings The search settings
+ * @returns The chosen engine and its template; Google when SearXNG has no URL yet
+ */
+export function getWebSearchEngine(settings: SearchSettings): SearchEngine {
+  if (settings.engine === 'searxng') {
+    const template = getSearxngTemplate(settings.searxngUrl);
+    if (template) {
+      return { id: 'searxng', label: 'SearXNG', template };
+    }
+  }
+  return SEARCH_ENGINES.find(engine => engine.id === settings.engine && engine.template) || SEARCH_ENGINES[0];
+}
+
+const siteKey = (name: string) =>
+  name.toLowerCase().replace(/^(?:the\s+)?/, '').replace(/\.(?:com|org|net|io)$/, '').replace(/[^a-z0-9]+/g, '');
+
+/**
+ * Finds a site search by the name used in a command
+ * @param sites The configured site searches
+ * @param name e.g. "wikipedia", "amazon.com" or "You Tube"
+ * @returns The site search, or undefined if there is none by that name
+ */
+export function findSiteSearch(sites: SiteSearch[], name: string): SiteSearch | undefined {
+  const key = siteKey(name);
+  return key ? sites.find(site => siteKey(site.name) === key) : undefined;
+}
+
+/**
+ * Finds a web search engine by the name used in a command
+ * @param name e.g. "google", "bing.com" or "Duck Duck Go"
+ * @returns The engine, or undefined if no engine has that name
+ */
+export function findSearchEngine(name: string): SearchEngine | undefined {
+  const key = siteKey(name);
+  return key ? SEARCH_ENGINES.find(engine => engine.id === key || siteKey(engine.label) === key) : undefined;
+}
+
+// Words for the web at large, as in "search the web for ..."
+const WEB_TARGETS = /^(?:the\s+)?(?:web|internet|net|online|everywhere)$/i;
+
+/**
+ * Checks whether a search target means the web rather than a site
+ * @param name The target from a command
+ * @returns True for "the web", "online", "the internet" and the like
+ */
+export function isWebSearchTarget(name: string): boolean {
+  return WEB_TARGETS.test(name.trim());
+}
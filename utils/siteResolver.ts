@@ -0,0 +1,137 @@
+// Turns what the user said after "go to" into an address: full URLs are kept,
+// site names go through the user's shortcuts and a table of well-known
+// sites, local servers get http://, and anything that cannot be a host name
+// becomes a web search instead.
+
+// A name the user gave a site, e.g. "wiki" -> https://wiki.example.org
+export interface SiteAlias {
+  name: string;
+  url: string;
+}
+
+export type SiteResolution =
+  | {
+      kind: 'url';
+      url: string;
+      // address: typed as an address; alias: a user shortcut; known: the
+      // built-in table; guess: a bare name completed with .com
+      source: 'address' | 'alias' | 'known' | 'guess';
+    }
+  | { kind: 'search'; query: string };
+
+// Well-known sites by spoken name, keyed without spaces or punctuation
+export const KNOWN_SITES: Record<string, string> = {
+  amazon: 'amazon.com',
+  apple: 'apple.com',
+  bbc: 'bbc.com',
+  bing: 'bing.com',
+  chatgpt: 'chatgpt.com',
+  cnn: 'cnn.com',
+  duckduckgo: 'duckduckgo.com',
+  ebay: 'ebay.com',
+  facebook: 'facebook.com',
+  fb: 'facebook.com',
+  github: 'github.com',
+  gmail: 'mail.google.com',
+  google: 'google.com',
+  googlemaps: 'maps.google.com',
+  hackernews: 'news.ycombinator.com',
+  instagram: 'instagram.com',
+  linkedin: 'linkedin.com',
+  maps: 'maps.google.com',
+  microsoft: 'microsoft.com',
+  netflix: 'netflix.com',
+  newyorktimes: 'nytimes.com',
+  nytimes: 'nytimes.com',
+  outlook: 'outlook.live.com',
+  pinterest: 'pinterest.com',
+  reddit: 'reddit.com',
+  spotify: 'open.spotify.com',
+  stackoverflow: 'stackoverflow.com',
+  tiktok: 'tiktok.com',
+  twitch: 'twitch.tv',
+  twitter: 'x.com',
+  whatsapp: 'web.whatsapp.com',
+  wikipedia: 'wikipedia.org',
+  x: 'x.com',
+  yahoo: 'yahoo.com',
+  youtube: 'youtube.com',
+};
+
+// "The Twitter website" -> "twitter"
+const siteKey = (name: string) =>
+  name
+    .toLowerCase()
+    .trim()
+    .replace(/^(?:the\s+)/, '')
+    .replace(/\s+(?:web\s*site|site|home\s*page)$/, '')
+    .replace(/[^a-z0-9]+/g, '');
+
+const LABEL = String.raw`[a-z0-9\u00a1-\uffff](?:[a-z0-9\u00a1-\uffff-]*[a-z0-9\u00a1-\uffff])?`;
+const DOMAIN_PATTERN = new RegExp(String.raw`^(?:${LABEL}\.)+(?:[a-z\u00a1-\uffff]{2,}|xn--[a-z0-9-]+)$`, 'i');
+const SINGLE_LABEL_PATTERN = new RegExp(`^${LABEL}$`, 'i');
+
+const isIpv4 = (host: string) => {
+  const parts = host.split('.');
+  return parts.length === 4 && parts.every(part => /^\d{1,3}$/.test(part) && Number(part) <= 255);
+};
+
+/**
+ * Finds a user shortcut by the name used in a command
+ * @param aliases The user's site shortcuts
+ * @param name e.g. "wiki" or "the wiki site"
+ * @returns The shortcut, or undefined if there is none by that name
+ */
+export function findSiteAlias(aliases: SiteAlias[], name: string): SiteAlias | undefined {
+  const key = siteKey(name);
+  return key ? aliases.find(alias => siteKey(alias.name) === key) : undefined;
+}
+
+/**
+ * Resolves a site name or address
+ * @param input What followed "go to", e.g. "twitter", "localhost:3000",
+ * "192.168.1.1/admin", "example.com/docs" or "the weather in paris"
+ * @param aliases The user's site shortcuts, checked before the built-in names
+ * @returns The URL to open, or the text to search for when it is not a host
+ */
+export function resolveSite(input: string, aliases: SiteAlias[] = []): SiteResolution {
+  const trimmed = input.trim().replace(/^["']|["']$/g, '').replace(/[.,!?;]+$/, '').trim();
+
+  if (/^[a-z][a-z0-9+.-]*:\/\/\S+$/i.test(trimmed)) {
+    return { kind: 'url', url: trimmed, source: 'address' };
+  }
+
+  const alias = findSiteAlias(aliases, trimmed);
+  if (alias) {
+    const target = resolveSite(alias.url);
+    return { kind: 'url', url: target.kind === 'url' ? target.url : alias.url, source: 'alias' };
+  }
+
+  const known = KNOWN_SITES[siteKey(trimmed)];
+  if (known) {
+    return { kind: 'url', url: `https://${known}`, source: 'known' };
+  }
+
+  // One token: a host with an optional port, then an optional path
+  const match = trimmed.match(/^([^\s/?#:]+)(:\d{1,5})?([/?#]\S*)?$/);
+  if (match) {
+    const host = match[1].toLowerCase();
+    const rest = `${match[2] || ''}${match[3] || ''}`;
+
+    // Local servers rarely have certificates
+    if (host === 'localhost' || isIpv4(host)) {
+      return { kind: 'url', url: `http://${host}${rest}`, source: 'address' };
+    }
+    if (DOMAIN_PATTERN.test(host)) {
+      return { kind: 'url', url: `https://${host}${rest}`, source: 'address' };
+    }
+    if (SINGLE_LABEL_PATTERN.test(host) && /[a-z]/.test(host)) {
+      // "myserver:8080" is a machine on the local network; "etsy" is a site
+      return match[2]
+        ? { kind: 'url', url: `http://${host}${rest}`, source: 'address' }
+        : { kind: 'url', url: `https://${host}.com${rest}`, source: 'guess' };
+    }
+  }
+
+  return { kind: 'search', query: trimmed };
+}
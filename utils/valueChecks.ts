@@ -0,0 +1,91 @@
+// Comparisons behind assertion intents such as "check that the price is
+// under $50". The page supplies the value text; this decides pass or fail.
+
+export type Comparison = 'lt' | 'lte' | 'gt' | 'gte' | 'eq';
+
+export const COMPARISONS: readonly Comparison[] = ['lt', 'lte', 'gt', 'gte', 'eq'];
+
+// Spoken comparison phrases, longest first so "at most" wins over "most"
+export const COMPARISON_PHRASES: [string, Comparison][] = [
+  ['no more than', 'lte'],
+  ['no less than', 'gte'],
+  ['greater than', 'gt'],
+  ['equal to', 'eq'],
+  ['less than', 'lt'],
+  ['more than', 'gt'],
+  ['at least', 'gte'],
+  ['at most', 'lte'],
+  ['exactly', 'eq'],
+  ['under', 'lt'],
+  ['below', 'lt'],
+  ['over', 'gt'],
+  ['above', 'gt'],
+];
+
+const COMPARISON_WORDS: Record<Comparison, string> = {
+  lt: 'under',
+  lte: 'at most',
+  gt: 'over',
+  gte: 'at least',
+  eq: 'equal to',
+};
+
+export interface ValueCheck {
+  passed: boolean;
+  // e.g. '"$42.00" is under $50'
+  detail: string;
+}
+
+/**
+ * Reads the first number in a piece of text, ignoring currency symbols and
+ * thousands separators
+ * @param text Text such as "$1,299.00", "49.99 USD" or "4 items"
+ * @returns The number, or null if the text has none
+ */
+export function parseNumber(text: string): number | null {
+  const match = text.replace(/(\d),(?=\d{3}\b)/g, '$1').match(/-?\d+(?:\.\d+)?/);
+  return match ? parseFloat(match[0]) : null;
+}
+
+/**
+ * Describes a comparison in words
+ * @param comparison The comparison
+ * @param expected The expected value as the user wrote it
+ * @returns A phrase such as "under $50"
+ */
+export function describeComparison(comparison: Comparison, expected: string): string {
+  return `${COMPARISON_WORDS[comparison]} ${expected}`;
+}
+
+/**
+ * Compares a value read from the page with the expected one. Numbers are
+ * compared numerically; other values only support "eq", which passes when
+ * the page text contains the expected text.
+ * @param actual The value text read from the page
+ * @param comparison How to compare
+ * @param expected The expected value, e.g. "$50" or "in stock"
+ * @returns Whether the check passed, with a description of why
+ */
+export function checkValue(actual: string, comparison: Comparison, expected: string): ValueCheck {
+  const actualNumber = parseNumber(actual);
+  const expectedNumber = parseNumber(expected);
+  const wanted = describeComparison(comparison, expected);
+
+  if (actualNumber !== null && expectedNumber !== null) {
+    const passed = {
+      lt: actualNumber < expectedNumber,
+      lte: actualNumber <= expectedNumber,
+      gt: actualNumber > expectedNumber,
+      gte: actualNumber >= expectedNumber,
+      eq: actualNumber === expectedNumber,
+    }[comparison];
+    return { passed, detail: `"${actual}" is ${passed ? '' : 'not '}${wanted}` };
+  }
+
+  if (comparison !== 'eq') {
+    return { passed: false, detail: `"${actual}" is not a number, so it cannot be ${wanted}` };
+  }
+
+  const passed = actual.toLowerCase().includes(expected.toLowerCase().trim());
+  return { passed, detail: `"${actual}" ${passed ? 'matches' : 'does not match'} "${expected}"` };
+}
@@ -0,0 +1,243 @@
+// Shared message protocol for traffic between injected page scripts and
+// React Native. Every message carries the protocol version and a `type`
+// discriminator; calls made with callInPage are correlated by id.
+
+import { PageFunctionName } from './pageLibrary';
+import { buildPageInvocation, serializeScriptValue } from './scriptBuilder';
+
+export const PROTOCOL_VERSION = 1;
+
+// Default time to wait for a page call to answer
+export const DEFAULT_CALL_TIMEOUT = 5000;
+
+interface MessageBase {
+  v: typeof PROTOCOL_VERSION;
+}
+
+// Result of a callInPage request
+export interface CallSuccessMessage extends MessageBase {
+  type: 'callResult';
+  id: string;
+  ok: true;
+  value: unknown;
+}
+
+export interface CallFailureMessage extends MessageBase {
+  type: 'callResult';
+  id: string;
+  ok: false;
+  error: string;
+}
+
+// Posted by the page change watcher (see WATCH_PAGE_CHANGES_FUNCTION)
+export interface PageChangedMessage extends MessageBase {
+  type: 'pageChanged';
+}
+
+// Messages posted by the PDF extractor page
+export interface PageReadyMessage extends MessageBase {
+  type: 'pageReady';
+}
+
+export interface PdfInfoMessage extends MessageBase {
+  type: 'pdfInfo';
+  totalPages: number;
+}
+
+export interface PdfProgressMessage extends MessageBase {
+  type: 'pdfProgress';
+  currentPage: number;
+  totalPages: number;
+}
+
+export interface PdfPartialTextMessage extends MessageBase {
+  type: 'pdfPartialText';
+  text: string;
+  isFinal: boolean;
+}
+
+export interface PdfTextMessage extends MessageBase {
+  type: 'pdfText';
+  text: string;
+}
+
+export interface PdfErrorMessage extends MessageBase {
+  type: 'pdfError';
+  error: string;
+}
+
+export type CallResultMessage = CallSuccessMessage | CallFailureMessage;
+
+export type PdfMessage =
+  | PageReadyMessage
+  | PdfInfoMessage
+  | PdfProgressMessage
+  | PdfPartialTextMessage
+  | PdfTextMessage
+  | PdfErrorMessage;
+
+export type PageMessage = CallResultMessage | PageChangedMessage | PdfMessage;
+
+// The message the page change watcher posts
+export const PAGE_CHANGED_MESSAGE: PageChangedMessage = { v: PROTOCOL_VERSION, type: 'pageChanged' };
+
+type FieldType = 'string' | 'number' | 'boolean';
+
+// Required fields for each message type, used to validate incoming messages
+const MESSAGE_FIELDS: Record<PageMessage['type'], Record<string, FieldType>> = {
+  callResult: { id: 'string', ok: 'boolean' },
+  pageChanged: {},
+  pageReady: {},
+  pdfInfo: { totalPages: 'number' },
+  pdfProgress: { currentPage: 'number', totalPages: 'number' },
+  pdfPartialText: { text: 'string', isFinal: 'boolean' },
+  pdfText: { text: 'string' },
+  pdfError: { error: 'string' },
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+const isMessageType = (type: unknown): type is PageMessage['type'] =>
+  typeof type === 'string' && Object.prototype.hasOwnProperty.call(MESSAGE_FIELDS, type);
+
+// A parsed value with this protocol's version, a known type and the fields
+// that type needs
+const isPageMessage = (data: unknown): data is PageMessage => {
+  if (!isRecord(data) || data.v !== PROTOCOL_VERSION || !isMessageType(data.type)) {
+    return false;
+  }
+
+  const fields = MESSAGE_FIELDS[data.type];
+  if (!Object.entries(fields).every(([field, fieldType]) => typeof data[field] === fieldType)) {
+    return false;
+  }
+
+  return data.type !== 'callResult' || !!data.ok || typeof data.error === 'string';
+};
+
+/**
+ * Parses and validates a raw message posted from a WebView
+ * @param raw The message string from event.nativeEvent.data
+ * @returns The typed message, or null if it is not a valid protocol message
+ */
+export function parsePageMessage(raw: string): PageMessage | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+
+  return isPageMessage(data) ? data : null;
+}
+
+/**
+ * Builds the script that runs a page library function and posts its result back
+ * @param id Correlation id for the call
+ * @param name The page library function to run
+ * @param args Arguments for the function, passed as JSON
+ * @returns The script to inject
+ */
+export function buildCallScript(id: string, name: PageFunctionName, args: unknown[]): string {
+  const invocation = buildPageInvocation(name, args);
+
+  return `
+    (function() {
+      var id = ${serializeScriptValue(id)};
+      function post(message) {
+        message.v = ${PROTOCOL_VERSION};
+        message.type = 'callResult';
+        message.id = id;
+        window.ReactNativeWebView.postMessage(JSON.stringify(message));
+      }
+      function fail(error) {
+        post({ ok: false, error: String((error && error.message) || error) });
+      }
+      try {
+        Promise.resolve(${invocation}).then(function(value) {
+          post({ ok: true, value: value === undefined ? null : value });
+        }, fail);
+      } catch (error) {
+        fail(error);
+      }
+      return true;
+    })();
+  `;
+}
+
+interface PendingCall {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export interface PageBridge {
+  callInPage<T = unknown>(name: PageFunctionName, args?: unknown[], timeoutMs?: number): Promise<T>;
+  handleMessage(message: PageMessage): boolean;
+  cancelAll(reason: string): void;
+}
+
+/**
+ * Creates a bridge for promise-based calls into a WebView page
+ * @param inject Function that injects a script into the page
+ * @returns The bridge; feed every parsed page message to handleMessage
+ */
+export function createPageBridge(inject: (script: string) => void): PageBridge {
+  const pending = new Map<string, PendingCall>();
+  let nextId = 1;
+
+  const settle = (id: string) => {
+    const call = pending.get(id);
+    if (call) {
+      clearTimeout(call.timer);
+      pending.delete(id);
+    }
+    return call;
+  };
+
+  return {
+    callInPage<T = unknown>(name: PageFunctionName, args: unknown[] = [], timeoutMs = DEFAULT_CALL_TIMEOUT) {
+      const id = `${Date.now().toString(36)}-${nextId++}`;
+
+      return new Promise<T>((resolve, reject) => {
+        let script: string;
+        try {
+          script = buildCallScript(id, name, args);
+        } catch (error) {
+          reject(error instanceof Error ? error : new Error(String(error)));
+          return;
+        }
+
+        const timer = setTimeout(() => {
+          settle(id)?.reject(new Error(`Page did not respond within ${timeoutMs}ms`));
+        }, timeoutMs);
+
+        // The page's result is whatever the caller asked it to produce
+        pending.set(id, { resolve: value => resolve(value as T), reject, timer });
+        inject(script);
+      });
+    },
+
+    handleMessage(message: PageMessage) {
+      if (message.type !== 'callResult') {
+        return false;
+      }
+
+      const call = settle(message.id);
+      if (!call) {
+        return false;
+      }
+
+      if (message.ok) {
+        call.resolve(message.value);
+      } else {
+        call.reject(new Error(message.error));
+      }
+      return true;
+    },
+
+    cancelAll(reason: string) {
+      Array.from(pending.keys()).forEach(id => settle(id)?.reject(new Error(reason)));
+    },
+  };
+}